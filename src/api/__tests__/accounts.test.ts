@@ -0,0 +1,172 @@
+import request from 'supertest';
+import express from 'express';
+import { accountsRouter } from '../accounts';
+import { tradesRouter } from '../trades';
+import { webhookRouter } from '../webhook';
+import { config } from '../../config';
+import { getTradingSystemConfig } from '../../services/accountService';
+
+const app = express();
+app.use(express.json());
+app.use('/api/accounts', accountsRouter);
+app.use('/api/trades', tradesRouter);
+app.use('/api/webhook', webhookRouter);
+
+describe('Accounts API', () => {
+  const alert = {
+    symbol: 'BTCUSDT',
+    action: 'BUY',
+    price: 100,
+    quantity: 10,
+    strategy: 'TEST',
+    timestamp: 1625097600000,
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should list the default account', async () => {
+    const response = await request(app).get('/api/accounts').expect(200);
+
+    expect(response.body.data.map((account: { id: string }) => account.id)).toContain('default');
+  });
+
+  it('should create an account with its own balance and commission', async () => {
+    const response = await request(app)
+      .post('/api/accounts')
+      .send({ id: 'momentum', initialBalance: 5000, commission: 0 })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({
+      id: 'momentum',
+      initialBalance: 5000,
+      balance: 5000,
+      totalTrades: 0,
+    });
+  });
+
+  it('should charge the configured fee percent unless the account sets a commission', () => {
+    const feeModel = config.feeModel;
+    config.feeModel = { percent: 0.5, perOrder: 1 };
+    const fill = {
+      symbol: 'BTCUSDT',
+      action: 'BUY' as const,
+      price: 100,
+      quantity: 10,
+      liquidity: 'TAKER' as const,
+    };
+
+    try {
+      const configured = getTradingSystemConfig({ id: 'fees', initialBalance: 1000 });
+      const overridden = getTradingSystemConfig({
+        id: 'fees',
+        initialBalance: 1000,
+        commission: 0,
+      });
+
+      expect(configured.feeModel?.calculate(fill)).toMatchObject({ percentage: 5, total: 6 });
+      expect(overridden.feeModel?.calculate(fill)).toMatchObject({ percentage: 0, total: 1 });
+    } finally {
+      config.feeModel = feeModel;
+    }
+  });
+
+  it('should reject duplicate and invalid accounts', async () => {
+    await request(app)
+      .post('/api/accounts')
+      .send({ id: 'momentum', initialBalance: 5000, commission: 0 })
+      .expect(409);
+
+    const response = await request(app)
+      .post('/api/accounts')
+      .send({ id: 'bad id', initialBalance: -1, commission: 0 })
+      .expect(400);
+
+    expect(response.body.errors).toEqual([
+      'Id must be 1-64 letters, digits, dashes or underscores',
+      'Initial balance must be a positive number',
+    ]);
+  });
+
+  it('should route webhooks to accounts by path or payload', async () => {
+    await request(app).post('/api/webhook/momentum').send(alert).expect(200);
+    await request(app)
+      .post('/api/webhook')
+      .send({ ...alert, symbol: 'ETHUSDT', account: 'momentum' })
+      .expect(200);
+    await request(app).post('/api/webhook/unknown').send(alert).expect(404);
+
+    const momentum = await request(app).get('/api/trades/history?account=momentum').expect(200);
+    const defaultAccount = await request(app).get('/api/trades/history').expect(200);
+
+    expect(momentum.body.data.account).toBe('momentum');
+    expect(momentum.body.data.trades).toHaveLength(2);
+    expect(momentum.body.data.balance).toBe(3000);
+    expect(defaultAccount.body.data.trades).toHaveLength(0);
+  });
+
+  it('should combine every account in the aggregate view', async () => {
+    await request(app).post('/api/webhook').send(alert).expect(200);
+
+    const response = await request(app).get('/api/trades/history?account=all').expect(200);
+    const { data } = response.body;
+
+    expect(data.account).toBe('all');
+    expect(data.trades).toHaveLength(3);
+    expect(data.positions.map((position: { account: string }) => position.account)).toEqual([
+      'default',
+      'momentum',
+      'momentum',
+    ]);
+    // default: 10000 - 1000 - 1 commission; momentum: 3000
+    expect(data.balance).toBe(11999);
+  });
+
+  it('should return 404 for the history of an unknown account', async () => {
+    await request(app).get('/api/trades/history?account=missing').expect(404);
+  });
+
+  it('should report and reset the loss limit halt of an account', async () => {
+    await request(app)
+      .post('/api/accounts')
+      .send({ id: 'guarded', initialBalance: 5000, commission: 0, riskLimits: { lossLimit: 10 } })
+      .expect(201);
+    await request(app).post('/api/webhook/guarded').send(alert).expect(200);
+    await request(app)
+      .post('/api/webhook/guarded')
+      .send({ ...alert, action: 'SELL', price: 98, timestamp: 1625097700000 })
+      .expect(200);
+
+    const status = await request(app).get('/api/accounts/guarded/risk').expect(200);
+    expect(status.body.data).toMatchObject({
+      limits: { lossLimit: 10 },
+      halt: { since: 1625097700000, period: 'DAILY', realizedPnl: -20 },
+      rejections: [],
+    });
+
+    const reset = await request(app).post('/api/accounts/guarded/risk/reset').expect(200);
+    expect(reset.body.data.halt).toBeUndefined();
+  });
+
+  it('should reject invalid risk limits', async () => {
+    const response = await request(app)
+      .post('/api/accounts')
+      .send({
+        id: 'reckless',
+        initialBalance: 5000,
+        commission: 0,
+        riskLimits: { maxPositionPercent: -5, lossLimitPeriod: 'MONTHLY' },
+      })
+      .expect(400);
+
+    expect(response.body.errors).toEqual([
+      'maxPositionPercent must be a positive number',
+      'lossLimitPeriod must be one of DAILY or WEEKLY',
+    ]);
+  });
+});
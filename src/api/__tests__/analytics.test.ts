@@ -0,0 +1,107 @@
+import request from 'supertest';
+import express from 'express';
+import { analyticsRouter } from '../analytics';
+import { createAccount, getAccount } from '../../services/accountService';
+
+const app = express();
+app.use(express.json());
+app.use('/api/analytics', analyticsRouter);
+
+describe('Analytics API', () => {
+  beforeAll(() => {
+    createAccount({ id: 'breakdown', initialBalance: 10000, commission: 0 });
+    const { tradingSystem } = getAccount('breakdown')!;
+
+    const roundTrips = [
+      { symbol: 'BTCUSDT', strategy: 'TREND', entry: 100, exit: 110, timestamp: 1000 },
+      { symbol: 'ETHUSDT', strategy: 'REVERSION', entry: 100, exit: 80, timestamp: 2000 },
+      { symbol: 'ETHUSDT', strategy: 'TREND', entry: 10, exit: 15, timestamp: 3000 },
+    ];
+    roundTrips.forEach(({ symbol, strategy, entry, exit, timestamp }) => {
+      const trade = { symbol, strategy, quantity: 1 };
+      tradingSystem.executeTrade({ ...trade, action: 'BUY', price: entry, timestamp });
+      tradingSystem.executeTrade({
+        ...trade,
+        action: 'SELL',
+        price: exit,
+        timestamp: timestamp + 1,
+      });
+    });
+  });
+
+  it('should return analytics for each strategy', async () => {
+    const response = await request(app)
+      .get('/api/analytics/strategies?account=breakdown')
+      .expect(200);
+
+    const { groups } = response.body.data;
+    expect(groups.map((group: { name: string }) => group.name)).toEqual(['REVERSION', 'TREND']);
+    expect(groups[1].analytics).toMatchObject({ totalTrades: 4, netProfitLoss: 15, winRate: 100 });
+    expect(groups[0].analytics).toMatchObject({ totalTrades: 2, netProfitLoss: -20 });
+  });
+
+  it('should return analytics for each symbol', async () => {
+    const response = await request(app).get('/api/analytics/symbols?account=breakdown').expect(200);
+
+    expect(response.body.data.groups).toEqual([
+      expect.objectContaining({
+        name: 'BTCUSDT',
+        analytics: expect.objectContaining({ netProfitLoss: 10 }),
+      }),
+      expect.objectContaining({
+        name: 'ETHUSDT',
+        analytics: expect.objectContaining({ netProfitLoss: -15 }),
+      }),
+    ]);
+  });
+
+  it('should rank strategies by the requested metric', async () => {
+    const response = await request(app)
+      .get('/api/analytics/strategies?account=breakdown&rankBy=netProfitLoss')
+      .expect(200);
+
+    expect(
+      response.body.data.groups.map(({ name, rank }: { name: string; rank: number }) => [
+        name,
+        rank,
+      ]),
+    ).toEqual([
+      ['TREND', 1],
+      ['REVERSION', 2],
+    ]);
+  });
+
+  it('should only count round-trips closed within the time range', async () => {
+    const response = await request(app)
+      .get('/api/analytics/strategies?account=breakdown&from=2500')
+      .expect(200);
+
+    expect(response.body.data.groups).toEqual([
+      expect.objectContaining({
+        name: 'TREND',
+        analytics: expect.objectContaining({ totalTrades: 2, netProfitLoss: 5 }),
+      }),
+    ]);
+  });
+
+  it('should reject an invalid query and unknown accounts', async () => {
+    const response = await request(app)
+      .get('/api/analytics/strategies?account=breakdown&rankBy=luck&to=later')
+      .expect(400);
+
+    expect(response.body.errors).toHaveLength(2);
+    await request(app).get('/api/analytics/symbols?account=missing').expect(404);
+  });
+
+  it('should return the analytics summary of an account without its trades', async () => {
+    const response = await request(app).get('/api/analytics/summary?account=breakdown').expect(200);
+
+    expect(response.body.data).toEqual({
+      account: 'breakdown',
+      analytics: expect.objectContaining({ totalTrades: 6, netProfitLoss: -5 }),
+      balance: 9995,
+      equity: 9995,
+    });
+    await request(app).get('/api/analytics/summary?account=missing').expect(404);
+  });
+});
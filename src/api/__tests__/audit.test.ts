@@ -0,0 +1,118 @@
+import request from 'supertest';
+import express from 'express';
+import { auditRouter } from '../audit';
+import { webhookRouter } from '../webhook';
+import { createAccount } from '../../services/accountService';
+
+const app = express();
+app.use(express.json());
+app.use(express.text({ type: 'text/plain' }));
+app.use('/api/webhook', webhookRouter);
+app.use('/api/audit', auditRouter);
+
+describe('Audit API', () => {
+  const alert = {
+    symbol: 'DOTUSDT',
+    action: 'BUY',
+    price: 5,
+    quantity: 10,
+    strategy: 'AUDIT',
+    timestamp: 1625097600000,
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    createAccount({ id: 'audited', initialBalance: 1000, commission: 0 });
+
+    await request(app).post('/api/webhook/audited').send(alert).expect(200);
+    await request(app).post('/api/webhook/audited').send(alert).expect(200);
+    await request(app)
+      .post('/api/webhook/audited')
+      .send({ ...alert, price: 'abc', passphrase: 'hunter2' })
+      .expect(400);
+    await request(app)
+      .post('/api/webhook/audited')
+      .set('Content-Type', 'text/plain')
+      .send('ticker=DOTUSDT\naction=exit\nclose=6\nstrategy=NONE\ntimenow=1625097660000')
+      .expect(500);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should record every webhook request with its outcome, newest first', async () => {
+    const response = await request(app).get('/api/audit?account=audited').expect(200);
+
+    const { total, entries } = response.body.data;
+    expect(total).toBe(4);
+    expect(entries.map((entry: { type: string }) => entry.type)).toEqual([
+      'WEBHOOK_FAILED',
+      'WEBHOOK_INVALID',
+      'WEBHOOK_DUPLICATE',
+      'WEBHOOK_PROCESSED',
+    ]);
+    expect(entries[3]).toMatchObject({
+      path: '/api/webhook/audited',
+      status: 200,
+      message: 'Webhook processed successfully',
+      account: 'audited',
+      symbol: 'DOTUSDT',
+      strategy: 'AUDIT',
+      alertId: expect.any(String),
+      result: { balance: 950, openPositions: 1, totalTrades: 1 },
+      rawBody: JSON.stringify(alert),
+    });
+    expect(entries[3].latencyMs).toBeGreaterThanOrEqual(0);
+    expect(entries[3].sourceIp).toBeDefined();
+  });
+
+  it('should keep validation errors and the error that failed processing', async () => {
+    const response = await request(app).get('/api/audit?account=audited&status=400').expect(200);
+    const [invalid] = response.body.data.entries;
+    expect(invalid).toMatchObject({
+      message: 'Invalid webhook payload',
+      errors: ['Price must be a number'],
+    });
+    expect(invalid.rawBody).toContain('"passphrase":"[REDACTED]"');
+    expect(invalid.rawBody).not.toContain('hunter2');
+
+    const failed = await request(app).get('/api/audit?type=WEBHOOK_FAILED&symbol=dotusdt');
+    expect(failed.body.data.entries[0]).toMatchObject({
+      status: 500,
+      message: 'No open position to exit for DOTUSDT',
+      strategy: 'NONE',
+      rawBody: 'ticker=DOTUSDT\naction=exit\nclose=6\nstrategy=NONE\ntimenow=1625097660000',
+    });
+  });
+
+  it('should filter by time, text and limit', async () => {
+    const now = Date.now();
+    const recent = await request(app)
+      .get(`/api/audit?account=audited&from=${now - 60000}&to=${now}&q=no+open+position`)
+      .expect(200);
+    const future = await request(app)
+      .get(`/api/audit?from=${now + 60000}`)
+      .expect(200);
+    const limited = await request(app).get('/api/audit?account=audited&limit=1').expect(200);
+
+    expect(recent.body.data.total).toBe(1);
+    expect(future.body.data).toEqual({ total: 0, entries: [] });
+    expect(limited.body.data.total).toBe(4);
+    expect(limited.body.data.entries).toHaveLength(1);
+  });
+
+  it('should reject invalid queries', async () => {
+    const response = await request(app).get('/api/audit?type=TRADE&limit=0&status=abc').expect(400);
+
+    expect(response.body.errors).toEqual([
+      'type must be a comma-separated list of WEBHOOK_AUTH_REJECTED, WEBHOOK_INVALID, ' +
+        'WEBHOOK_PROCESSED, WEBHOOK_DUPLICATE, WEBHOOK_IGNORED, WEBHOOK_RISK_REJECTED, ' +
+        'WEBHOOK_FAILED',
+      'status must be an HTTP status code',
+      'limit must be an integer between 1 and 1000',
+    ]);
+  });
+});
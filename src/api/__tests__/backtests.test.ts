@@ -0,0 +1,113 @@
+import request from 'supertest';
+import express from 'express';
+import { backtestsRouter } from '../backtests';
+
+const app = express();
+app.use(express.json());
+app.use('/api/backtests', backtestsRouter);
+
+describe('Backtests API', () => {
+  const alerts = [
+    { symbol: 'BTCUSDT', action: 'BUY', price: 100, quantity: 10, strategy: 'T', timestamp: 1000 },
+    { symbol: 'BTCUSDT', action: 'SELL', price: 120, quantity: 10, strategy: 'T', timestamp: 3000 },
+    { symbol: 'BTCUSDT', action: 'BUY', price: 110, quantity: 10, strategy: 'T', timestamp: 2000 },
+  ];
+
+  it('should replay alerts in timestamp order with the given parameters', async () => {
+    const response = await request(app)
+      .post('/api/backtests')
+      .send({ alerts, config: { initialBalance: 5000, commission: 0 } })
+      .expect(200);
+
+    const result = response.body.data;
+    expect(result.trades.map((trade: { price: number }) => trade.price)).toEqual([100, 110, 120]);
+    expect(result.config).toMatchObject({ initialBalance: 5000, commission: 0 });
+    expect(result.analytics.netProfitLoss).toBe(200);
+    expect(result.balance).toBe(4100);
+    expect(result).toMatchObject({ account: 'backtest', alerts: 3, duplicates: 0, failures: [] });
+  });
+
+  it('should give the same result for the same alerts and parameters', async () => {
+    const body = { alerts, config: { commission: 0.1, slippageModel: { type: 'BPS', bps: 5 } } };
+
+    const first = await request(app).post('/api/backtests').send(body).expect(200);
+    const second = await request(app).post('/api/backtests').send(body).expect(200);
+
+    expect(second.body.data).toEqual(first.body.data);
+  });
+
+  it('should number resting orders so their fills are the same on every run', async () => {
+    const body = {
+      alerts: [
+        { ...alerts[0], orderType: 'LIMIT', limitPrice: 95 },
+        { ...alerts[0], price: 94, quantity: 1, timestamp: 2000 },
+      ],
+    };
+
+    const first = await request(app).post('/api/backtests').send(body).expect(200);
+    const second = await request(app).post('/api/backtests').send(body).expect(200);
+
+    expect(first.body.data.trades[1]).toMatchObject({ orderId: 'order-1', price: 94 });
+    expect(second.body.data).toEqual(first.body.data);
+  });
+
+  it('should record the instruments it ran with and run with given ones', async () => {
+    const instruments = [{ symbol: 'BTCUSDT', assetClass: 'FUTURE', multiplier: 2 }];
+    const response = await request(app)
+      .post('/api/backtests')
+      .send({ alerts, config: { commission: 0, initialBalance: 10000, instruments } })
+      .expect(200);
+
+    expect(response.body.data.config.instruments).toEqual(instruments);
+    expect(response.body.data.analytics.netProfitLoss).toBe(400);
+
+    const registered = await request(app).post('/api/backtests').send({ alerts }).expect(200);
+    expect(registered.body.data.config.instruments).toEqual(expect.any(Array));
+  });
+
+  it('should replay a CSV log, skipping duplicates and recording failures', async () => {
+    const log = [
+      'ticker,action,close,quantity,strategy,timenow',
+      'ETHUSDT,buy,10,5,CSV,2021-07-01T00:00:00Z',
+      'ETHUSDT,buy,10,5,CSV,2021-07-01T00:00:00Z',
+      'ETHUSDT,sell,12,50,CSV,2021-07-01T00:01:00Z',
+    ].join('\n');
+
+    const response = await request(app)
+      .post('/api/backtests')
+      .send({ log, config: { commission: 0, riskLimits: { maxSymbolQuantity: { ETHUSDT: 20 } } } })
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({
+      alerts: 3,
+      duplicates: 1,
+      failures: [{ line: 4, message: 'No matching position found for ETHUSDT' }],
+    });
+    expect(response.body.data.positions).toEqual([
+      expect.objectContaining({ symbol: 'ETHUSDT', quantity: 5 }),
+    ]);
+  });
+
+  it('should reject invalid alerts and parameters', async () => {
+    const response = await request(app)
+      .post('/api/backtests')
+      .send({
+        alerts: [{ ...alerts[0], price: 'high' }],
+        config: {
+          commission: -1,
+          slippageModel: { type: 'RANDOM' },
+          instruments: [{ symbol: 'ES1!', assetClass: 'BOND' }],
+        },
+      })
+      .expect(400);
+
+    expect(response.body.errors).toEqual([
+      'Commission must be a non-negative number',
+      'Slippage model type must be one of NONE, FIXED_TICKS, BPS or VOLUME',
+      'Instrument 1: Asset class must be one of STOCK, CRYPTO, FUTURE, FOREX or INDEX',
+      'Line 1: Price must be a number',
+    ]);
+
+    await request(app).post('/api/backtests').send({}).expect(400);
+  });
+});
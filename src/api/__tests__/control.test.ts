@@ -0,0 +1,233 @@
+import request from 'supertest';
+import express from 'express';
+import { controlRouter } from '../control';
+import { pricesRouter } from '../prices';
+import { webhookRouter } from '../webhook';
+import { createAccount, requireAccount } from '../../services/accountService';
+import { getAuditEntries } from '../../services/auditService';
+
+const app = express();
+app.use(express.json());
+app.use('/api/webhook', webhookRouter);
+app.use('/api/control', controlRouter);
+app.use('/api/prices', pricesRouter);
+
+describe('Control API', () => {
+  const alert = {
+    symbol: 'ADAUSDT',
+    action: 'BUY',
+    price: 2,
+    quantity: 100,
+    strategy: 'RUNAWAY',
+    timestamp: 1625097600000,
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    createAccount({ id: 'paused', initialBalance: 10000, commission: 0 });
+    createAccount({ id: 'flat', initialBalance: 10000, commission: 0 });
+    createAccount({ id: 'resting', initialBalance: 10000, commission: 0 });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should ignore alerts of a paused strategy until it is resumed', async () => {
+    const paused = await request(app)
+      .post('/api/control/pause')
+      .send({ scope: 'STRATEGY', value: 'RUNAWAY', reason: 'Repeated entries' })
+      .expect(200);
+    expect(paused.body.message).toBe('Trading paused for strategy RUNAWAY');
+
+    const ignored = await request(app).post('/api/webhook/paused').send(alert).expect(200);
+    await request(app)
+      .post('/api/webhook/paused')
+      .send({ ...alert, strategy: 'STEADY' })
+      .expect(200);
+
+    expect(ignored.body).toMatchObject({
+      success: true,
+      ignored: true,
+      message: 'Alert ignored: trading is paused for strategy RUNAWAY',
+      pause: { scope: 'STRATEGY', value: 'RUNAWAY', reason: 'Repeated entries' },
+    });
+    expect(requireAccount('paused').tradingSystem.getPortfolio().trades).toHaveLength(1);
+    expect(getAuditEntries().map(entry => [entry.type, entry.strategy])).toEqual([
+      ['WEBHOOK_IGNORED', 'RUNAWAY'],
+      ['WEBHOOK_PROCESSED', 'STEADY'],
+    ]);
+
+    const pauses = await request(app).get('/api/control/pauses').expect(200);
+    expect(pauses.body.data).toHaveLength(1);
+
+    await request(app)
+      .post('/api/control/resume')
+      .send({ scope: 'STRATEGY', value: 'RUNAWAY' })
+      .expect(200);
+    const traded = await request(app).post('/api/webhook/paused').send(alert).expect(200);
+
+    expect(traded.body.ignored).toBeUndefined();
+    expect(requireAccount('paused').tradingSystem.getPortfolio().trades).toHaveLength(2);
+  });
+
+  it('should pause every alert globally', async () => {
+    await request(app).post('/api/control/pause').send({ scope: 'GLOBAL' }).expect(200);
+    const ignored = await request(app)
+      .post('/api/webhook/paused')
+      .send({ ...alert, symbol: 'XRPUSDT', strategy: 'OTHER' })
+      .expect(200);
+    await request(app).post('/api/control/resume').send({ scope: 'GLOBAL' }).expect(200);
+
+    expect(ignored.body.message).toBe('Alert ignored: trading is paused globally');
+    expect(requireAccount('paused').tradingSystem.getPortfolio().trades).toHaveLength(2);
+  });
+
+  it('should answer resuming a scope that is not paused with 404', async () => {
+    const response = await request(app)
+      .post('/api/control/resume')
+      .send({ scope: 'SYMBOL', value: 'ADAUSDT' })
+      .expect(404);
+
+    expect(response.body.message).toBe('Trading is not paused for symbol ADAUSDT');
+  });
+
+  it('should reject invalid pause payloads', async () => {
+    const response = await request(app)
+      .post('/api/control/pause')
+      .send({ scope: 'ACCOUNT' })
+      .expect(400);
+
+    expect(response.body).toEqual({
+      success: false,
+      message: 'Invalid pause payload',
+      errors: ['Value must name the paused account'],
+    });
+  });
+
+  it('should flatten positions by strategy at a supplied price, then the rest at the last price', async () => {
+    const { tradingSystem } = requireAccount('flat');
+    await request(app).post('/api/webhook/flat').send(alert).expect(200);
+    await request(app)
+      .post('/api/webhook/flat')
+      .send({ ...alert, price: 3, timestamp: 1625097660000 })
+      .expect(200);
+    await request(app)
+      .post('/api/webhook/flat')
+      .send({
+        ...alert,
+        symbol: 'SOLUSDT',
+        action: 'SELL',
+        price: 40,
+        quantity: 5,
+        strategy: 'HEDGE',
+      })
+      .expect(200);
+
+    const byStrategy = await request(app)
+      .post('/api/control/flatten')
+      .send({ account: 'flat', strategy: 'RUNAWAY', symbol: 'ADAUSDT', price: 2.5 })
+      .expect(200);
+
+    expect(byStrategy.body.data).toHaveLength(1);
+    expect(byStrategy.body.data[0]).toMatchObject({
+      account: 'flat',
+      trades: [
+        {
+          symbol: 'ADAUSDT',
+          action: 'SELL',
+          price: 2.5,
+          quantity: 200,
+          strategy: 'RUNAWAY',
+          positionSide: 'LONG',
+          positionEffect: 'CLOSE',
+          realizedPnl: 0,
+        },
+      ],
+    });
+    expect(tradingSystem.getPortfolio().positions.map(pos => pos.symbol)).toEqual(['SOLUSDT']);
+
+    const rest = await request(app)
+      .post('/api/control/flatten')
+      .send({ account: 'flat' })
+      .expect(200);
+
+    expect(rest.body.data[0].trades).toMatchObject([
+      { symbol: 'SOLUSDT', action: 'BUY', price: 40, quantity: 5, positionSide: 'SHORT' },
+    ]);
+    expect(tradingSystem.getPortfolio().positions).toHaveLength(0);
+    expect(tradingSystem.getPortfolio().trades).toHaveLength(5);
+  });
+
+  it('should reject flattening an unknown account or a price without a symbol', async () => {
+    await request(app).post('/api/control/flatten').send({ account: 'missing' }).expect(404);
+    const response = await request(app)
+      .post('/api/control/flatten')
+      .send({ price: 10 })
+      .expect(400);
+
+    expect(response.body.errors).toEqual([
+      'Price requires a symbol; use prices to close several symbols',
+    ]);
+  });
+
+  it('should cancel the working orders of a paused scope so they cannot fill', async () => {
+    const { tradingSystem, orderBook } = requireAccount('resting');
+    const limit = { ...alert, symbol: 'DOTUSDT', orderType: 'LIMIT', limitPrice: 1.5 };
+    await request(app).post('/api/webhook/resting').send(limit).expect(200);
+    await request(app)
+      .post('/api/webhook/resting')
+      .send({ ...limit, strategy: 'STEADY' })
+      .expect(200);
+
+    await request(app)
+      .post('/api/control/pause')
+      .send({ scope: 'STRATEGY', value: 'RUNAWAY' })
+      .expect(200);
+    await request(app).post('/api/prices').send({ symbol: 'DOTUSDT', price: 1.4 }).expect(200);
+    await request(app)
+      .post('/api/control/resume')
+      .send({ scope: 'STRATEGY', value: 'RUNAWAY' })
+      .expect(200);
+
+    expect(orderBook.getWorkingOrders()).toHaveLength(0);
+    expect(tradingSystem.getPortfolio().trades.map(trade => trade.strategy)).toEqual(['STEADY']);
+  });
+
+  it('should cancel matching working orders when flattening', async () => {
+    const { tradingSystem, orderBook } = requireAccount('resting');
+    await request(app)
+      .post('/api/webhook/resting')
+      .send({
+        ...alert,
+        symbol: 'DOTUSDT',
+        strategy: 'STEADY',
+        timestamp: 1625097660000,
+        orderType: 'LIMIT',
+        limitPrice: 1,
+      })
+      .expect(200);
+    await request(app)
+      .post('/api/webhook/resting')
+      .send({ ...alert, symbol: 'LINKUSDT', orderType: 'STOP', stopPrice: 20 })
+      .expect(200);
+
+    const flattened = await request(app)
+      .post('/api/control/flatten')
+      .send({ account: 'resting', symbol: 'DOTUSDT' })
+      .expect(200);
+
+    expect(flattened.body.data).toMatchObject([
+      {
+        account: 'resting',
+        cancelledOrders: [{ symbol: 'DOTUSDT', status: 'CANCELLED' }],
+        trades: [{ symbol: 'DOTUSDT', action: 'SELL', quantity: 100, strategy: 'STEADY' }],
+      },
+    ]);
+
+    await request(app).post('/api/prices').send({ symbol: 'DOTUSDT', price: 0.9 }).expect(200);
+    expect(tradingSystem.getPortfolio().positions).toHaveLength(0);
+    expect(orderBook.getWorkingOrders().map(order => order.symbol)).toEqual(['LINKUSDT']);
+  });
+});
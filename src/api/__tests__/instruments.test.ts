@@ -0,0 +1,75 @@
+import request from 'supertest';
+import express from 'express';
+import { instrumentsRouter } from '../instruments';
+import { webhookRouter } from '../webhook';
+
+const app = express();
+app.use(express.json());
+app.use('/api/instruments', instrumentsRouter);
+app.use('/api/webhook', webhookRouter);
+
+describe('Instruments API', () => {
+  const future = { assetClass: 'FUTURE', tickSize: 0.25, lotSize: 1, multiplier: 50 };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create, update and list instruments', async () => {
+    const created = await request(app).put('/api/instruments/NQ1!').send(future).expect(201);
+    expect(created.body.data).toMatchObject({ symbol: 'NQ1!', multiplier: 50 });
+
+    const updated = await request(app)
+      .put('/api/instruments/NQ1!')
+      .send({ ...future, multiplier: 20, quoteCurrency: 'USD' })
+      .expect(200);
+    expect(updated.body.data.multiplier).toBe(20);
+
+    const list = await request(app).get('/api/instruments').expect(200);
+    expect(list.body.data).toEqual([
+      { symbol: 'NQ1!', ...future, multiplier: 20, quoteCurrency: 'USD' },
+    ]);
+  });
+
+  it('should reject invalid instruments', async () => {
+    const response = await request(app)
+      .put('/api/instruments/EURUSD')
+      .send({ assetClass: 'FX', lotSize: 0, quoteCurrency: 'usd' })
+      .expect(400);
+
+    expect(response.body.errors).toEqual([
+      'Asset class must be one of STOCK, CRYPTO, FUTURE, FOREX or INDEX',
+      'lotSize must be a positive number',
+      'Quote currency must be a three-letter currency code',
+    ]);
+  });
+
+  it('should reject alerts off the tick or lot size of the instrument', async () => {
+    const response = await request(app)
+      .post('/api/webhook')
+      .send({
+        symbol: 'NQ1!',
+        action: 'BUY',
+        price: 15000.1,
+        quantity: 0.5,
+        strategy: 'TEST',
+        timestamp: 1625097600000,
+      })
+      .expect(400);
+
+    expect(response.body.errors).toEqual([
+      'price must be a multiple of the tick size 0.25',
+      'Quantity must be a multiple of the lot size 1',
+    ]);
+  });
+
+  it('should delete instruments', async () => {
+    await request(app).delete('/api/instruments/NQ1!').expect(200);
+    await request(app).delete('/api/instruments/NQ1!').expect(404);
+    await request(app).get('/api/instruments/NQ1!').expect(404);
+  });
+});
@@ -0,0 +1,64 @@
+import request from 'supertest';
+import express from 'express';
+import { notificationsRouter } from '../notifications';
+import { configureNotificationSinks, notify } from '../../services/notificationService';
+
+const app = express();
+app.use(express.json());
+app.use('/api/notifications', notificationsRouter);
+
+describe('Notifications API', () => {
+  beforeAll(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    configureNotificationSinks([
+      {
+        name: 'down',
+        type: 'WEBHOOK',
+        url: 'http://127.0.0.1:1/hook',
+        headers: { Authorization: 'secret' },
+        maxAttempts: 1,
+      },
+    ]);
+    await notify({
+      id: 1,
+      type: 'ORDER_REJECTED',
+      account: 'default',
+      timestamp: 0,
+      data: { symbol: 'BTCUSDT', action: 'EXIT', price: 1, strategy: 'T', message: 'No position' },
+    });
+  });
+
+  afterAll(() => {
+    configureNotificationSinks([]);
+    jest.restoreAllMocks();
+  });
+
+  it('should list sinks without their URLs and headers', async () => {
+    const response = await request(app).get('/api/notifications').expect(200);
+
+    expect(response.body.data).toEqual([{ name: 'down', type: 'WEBHOOK' }]);
+  });
+
+  it('should return the delivery log filtered by sink and status', async () => {
+    const failed = await request(app)
+      .get('/api/notifications/deliveries?sink=down&status=FAILED')
+      .expect(200);
+    const delivered = await request(app)
+      .get('/api/notifications/deliveries?status=DELIVERED')
+      .expect(200);
+
+    expect(failed.body.data).toEqual([
+      expect.objectContaining({
+        sink: 'down',
+        type: 'ALERT_FAILED',
+        message: '[default] EXIT BTCUSDT alert failed: No position',
+        attempts: 1,
+      }),
+    ]);
+    expect(delivered.body.data).toEqual([]);
+  });
+
+  it('should reject unknown statuses', async () => {
+    await request(app).get('/api/notifications/deliveries?status=PENDING').expect(400);
+  });
+});
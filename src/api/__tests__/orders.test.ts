@@ -0,0 +1,112 @@
+import request from 'supertest';
+import express from 'express';
+import { ordersRouter } from '../orders';
+import { pricesRouter } from '../prices';
+
+// Mock the orderService
+jest.mock('../../services/orderService', () => ({
+  getWorkingOrders: jest.fn(),
+  cancelOrder: jest.fn(),
+  cancelAllOrders: jest.fn(),
+  processPriceTicks: jest.fn(),
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/orders', ordersRouter);
+app.use('/api/prices', pricesRouter);
+
+describe('Orders API', () => {
+  const workingOrder = {
+    id: 'order-1',
+    symbol: 'BTCUSDT',
+    action: 'BUY',
+    type: 'LIMIT',
+    quantity: 0.1,
+    limitPrice: 48000,
+    timeInForce: 'GTC',
+    strategy: 'TEST',
+    timestamp: 1625097600000,
+    status: 'WORKING',
+    triggered: false,
+    updatedAt: 1625097600000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list working orders filtered by symbol', async () => {
+    const { getWorkingOrders } = require('../../services/orderService');
+    (getWorkingOrders as jest.Mock).mockReturnValue([workingOrder]);
+
+    const response = await request(app).get('/api/orders?symbol=BTCUSDT').expect(200);
+
+    expect(response.body.data).toEqual([workingOrder]);
+    expect(getWorkingOrders).toHaveBeenCalledWith('BTCUSDT', 'default');
+  });
+
+  it('should cancel a working order by id', async () => {
+    const { getWorkingOrders, cancelOrder } = require('../../services/orderService');
+    (getWorkingOrders as jest.Mock).mockReturnValue([workingOrder]);
+    (cancelOrder as jest.Mock).mockReturnValue({ ...workingOrder, status: 'CANCELLED' });
+
+    const response = await request(app).delete('/api/orders/order-1').expect(200);
+
+    expect(response.body.data.status).toBe('CANCELLED');
+    expect(cancelOrder).toHaveBeenCalledWith('order-1', 'default');
+  });
+
+  it('should return 404 when cancelling an unknown order', async () => {
+    const { getWorkingOrders, cancelOrder } = require('../../services/orderService');
+    (getWorkingOrders as jest.Mock).mockReturnValue([]);
+
+    const response = await request(app).delete('/api/orders/missing').expect(404);
+
+    expect(response.body.success).toBe(false);
+    expect(cancelOrder).not.toHaveBeenCalled();
+  });
+
+  it('should cancel all working orders', async () => {
+    const { cancelAllOrders } = require('../../services/orderService');
+    (cancelAllOrders as jest.Mock).mockReturnValue([{ ...workingOrder, status: 'CANCELLED' }]);
+
+    const response = await request(app).delete('/api/orders').expect(200);
+
+    expect(response.body.data).toHaveLength(1);
+    expect(cancelAllOrders).toHaveBeenCalledWith(undefined, 'default');
+  });
+
+  it('should return 404 for an unknown account', async () => {
+    const response = await request(app).get('/api/orders?account=missing').expect(404);
+
+    expect(response.body.message).toBe('Account missing does not exist');
+  });
+
+  it('should process price ticks', async () => {
+    const { processPriceTicks } = require('../../services/orderService');
+    (processPriceTicks as jest.Mock).mockReturnValue([]);
+
+    await request(app)
+      .post('/api/prices')
+      .send([
+        { symbol: 'BTCUSDT', price: 50000, timestamp: 1 },
+        { symbol: 'ETHUSDT', price: 3000, timestamp: 2 },
+      ])
+      .expect(200);
+
+    expect(processPriceTicks).toHaveBeenCalledWith([
+      { symbol: 'BTCUSDT', price: 50000, timestamp: 1 },
+      { symbol: 'ETHUSDT', price: 3000, timestamp: 2 },
+    ]);
+  });
+
+  it('should reject invalid price ticks', async () => {
+    const response = await request(app)
+      .post('/api/prices')
+      .send({ symbol: 'BTCUSDT', price: 'high' })
+      .expect(400);
+
+    expect(response.body.errors).toContain('Price must be a positive number');
+  });
+});
@@ -0,0 +1,84 @@
+import request from 'supertest';
+import express from 'express';
+import { portfolioRouter } from '../portfolio';
+import { createAccount, getAccount } from '../../services/accountService';
+
+const app = express();
+app.use(express.json());
+app.use('/api/portfolio', portfolioRouter);
+
+describe('Portfolio API', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  beforeAll(() => {
+    createAccount({ id: 'equity', initialBalance: 10000, commission: 0 });
+    const { tradingSystem } = getAccount('equity')!;
+
+    tradingSystem.executeTrade({
+      symbol: 'BTCUSDT',
+      action: 'BUY',
+      price: 100,
+      quantity: 10,
+      strategy: 'TEST',
+      timestamp: 0,
+    });
+    [110, 90, 105].forEach((price, index) =>
+      tradingSystem.processPriceTick({
+        symbol: 'BTCUSDT',
+        price,
+        timestamp: (index + 1) * 20 * 60 * 1000,
+      }),
+    );
+    tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 120, timestamp: 2 * HOUR });
+  });
+
+  it('should bucket equity, cash and exposure into OHLC bars', async () => {
+    const response = await request(app)
+      .get('/api/portfolio/equity?account=equity&interval=1h')
+      .expect(200);
+
+    expect(response.body.data.interval).toBe(HOUR);
+    expect(response.body.data.buckets).toEqual([
+      {
+        timestamp: 0,
+        equity: { open: 10000, high: 10100, low: 9900, close: 9900 },
+        cash: { open: 9000, high: 9000, low: 9000, close: 9000 },
+        exposure: { open: 1000, high: 1100, low: 900, close: 900 },
+      },
+      {
+        timestamp: HOUR,
+        equity: { open: 10050, high: 10050, low: 10050, close: 10050 },
+        cash: { open: 9000, high: 9000, low: 9000, close: 9000 },
+        exposure: { open: 1050, high: 1050, low: 1050, close: 1050 },
+      },
+      {
+        timestamp: 2 * HOUR,
+        equity: { open: 10200, high: 10200, low: 10200, close: 10200 },
+        cash: { open: 9000, high: 9000, low: 9000, close: 9000 },
+        exposure: { open: 1200, high: 1200, low: 1200, close: 1200 },
+      },
+    ]);
+  });
+
+  it('should limit the curve to the requested time range', async () => {
+    const response = await request(app)
+      .get(`/api/portfolio/equity?account=equity&from=${HOUR}&to=${2 * HOUR - 1}`)
+      .expect(200);
+
+    expect(
+      response.body.data.buckets.map((bucket: { timestamp: number }) => bucket.timestamp),
+    ).toEqual([HOUR]);
+  });
+
+  it('should reject an invalid query', async () => {
+    const response = await request(app)
+      .get('/api/portfolio/equity?interval=soon&from=yesterday')
+      .expect(400);
+
+    expect(response.body.errors).toHaveLength(2);
+  });
+
+  it('should return 404 for an unknown account', async () => {
+    await request(app).get('/api/portfolio/equity?account=missing').expect(404);
+  });
+});
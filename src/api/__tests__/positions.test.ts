@@ -0,0 +1,165 @@
+import request from 'supertest';
+import express from 'express';
+import { ordersRouter } from '../orders';
+import { positionsRouter } from '../positions';
+import { createAccount, requireAccount } from '../../services/accountService';
+
+const app = express();
+app.use(express.json());
+app.use('/api/orders', ordersRouter);
+app.use('/api/positions', positionsRouter);
+
+describe('Manual trading API', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    createAccount({ id: 'manual', initialBalance: 1000, commission: 0 });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should execute a manual market order tagged with its source', async () => {
+    const response = await request(app)
+      .post('/api/orders?account=manual')
+      .send({ symbol: 'LINKUSDT', action: 'BUY', price: 20, quantity: 10 })
+      .expect(200);
+
+    expect(response.body.message).toBe('Order executed successfully');
+    expect(response.body.data.trades).toEqual([
+      expect.objectContaining({ symbol: 'LINKUSDT', strategy: 'MANUAL', source: 'manual' }),
+    ]);
+    expect(response.body.data.positions).toEqual([
+      expect.objectContaining({ id: 'position-1', quantity: 10 }),
+    ]);
+  });
+
+  it('should place a manual resting order tagged with its source', async () => {
+    const response = await request(app)
+      .post('/api/orders?account=manual')
+      .send({
+        symbol: 'LINKUSDT',
+        action: 'BUY',
+        price: 20,
+        quantity: 1,
+        orderType: 'LIMIT',
+        limitPrice: 15,
+        strategy: 'DIP',
+      })
+      .expect(200);
+
+    expect(response.body.message).toBe('Order placed successfully');
+    expect(response.body.data).toMatchObject({
+      status: 'WORKING',
+      strategy: 'DIP',
+      source: 'manual',
+    });
+    await request(app).delete(`/api/orders/${response.body.data.id}?account=manual`).expect(200);
+  });
+
+  it('should reject invalid manual orders and report orders that cannot execute', async () => {
+    const invalid = await request(app)
+      .post('/api/orders?account=manual')
+      .send({ symbol: 'LINKUSDT', action: 'HOLD' })
+      .expect(400);
+    const unaffordable = await request(app)
+      .post('/api/orders?account=manual')
+      .send({ symbol: 'LINKUSDT', action: 'BUY', price: 20, quantity: 1000 })
+      .expect(422);
+
+    expect(invalid.body.errors).toEqual([
+      'Action must be one of BUY, SELL or EXIT',
+      'Price must be a number',
+    ]);
+    expect(unaffordable.body.message).toBe('Insufficient balance to execute buy order');
+  });
+
+  it('should list open positions with their ids', async () => {
+    const response = await request(app)
+      .get('/api/positions?account=manual&symbol=LINKUSDT')
+      .expect(200);
+
+    expect(response.body.data).toEqual([
+      expect.objectContaining({ id: 'position-1', marketPrice: 20, unrealizedPnl: 0 }),
+    ]);
+  });
+
+  it('should set and remove the exit levels of a position', async () => {
+    const updated = await request(app)
+      .patch('/api/positions/position-1?account=manual')
+      .send({ stopLoss: 18, takeProfit: 30 })
+      .expect(200);
+    const cleared = await request(app)
+      .patch('/api/positions/position-1?account=manual')
+      .send({ takeProfit: null })
+      .expect(200);
+
+    expect(updated.body.data).toMatchObject({ id: 'position-1', stopLoss: 18, takeProfit: 30 });
+    expect(cleared.body.data.stopLoss).toBe(18);
+    expect(cleared.body.data.takeProfit).toBeUndefined();
+  });
+
+  it('should reject invalid exit level changes and unknown positions', async () => {
+    const empty = await request(app)
+      .patch('/api/positions/position-1?account=manual')
+      .send({})
+      .expect(400);
+    const missing = await request(app)
+      .patch('/api/positions/position-9?account=manual')
+      .send({ stopLoss: 18 })
+      .expect(404);
+
+    expect(empty.body.errors).toEqual([
+      'Set at least one of stopLoss, takeProfit, trailingStopPercent, trailingStopOffset',
+    ]);
+    expect(missing.body.message).toBe('No open position found with id position-9');
+
+    const passed = await request(app)
+      .patch('/api/positions/position-1?account=manual')
+      .send({ stopLoss: 25, takeProfit: 15 })
+      .expect(400);
+    expect(passed.body.errors).toEqual([
+      'stopLoss must be below the market price 20 of a LONG position',
+      'takeProfit must be above the market price 20 of a LONG position',
+    ]);
+  });
+
+  it('should close part of a position, then the rest at the last known price', async () => {
+    const partial = await request(app)
+      .post('/api/positions/position-1/close?account=manual')
+      .send({ quantity: 4, price: 22 })
+      .expect(200);
+
+    expect(partial.body.data).toMatchObject({
+      action: 'SELL',
+      quantity: 4,
+      price: 22,
+      realizedPnl: 8,
+      strategy: 'MANUAL',
+      source: 'manual',
+    });
+
+    const tooMuch = await request(app)
+      .post('/api/positions/position-1/close?account=manual')
+      .send({ quantity: 7 })
+      .expect(422);
+    expect(tooMuch.body.message).toBe(
+      'Quantity 7 exceeds the open quantity 6 of position position-1',
+    );
+
+    const rest = await request(app)
+      .post('/api/positions/position-1/close?account=manual')
+      .expect(200);
+
+    expect(rest.body.data).toMatchObject({ quantity: 6, price: 22, realizedPnl: 12 });
+    expect(requireAccount('manual').tradingSystem.getPortfolio().positions).toHaveLength(0);
+  });
+
+  it('should answer for unknown accounts with 404', async () => {
+    await request(app).post('/api/positions/position-1/close?account=missing').expect(404);
+    await request(app)
+      .post('/api/orders?account=missing')
+      .send({ symbol: 'LINKUSDT', action: 'BUY', price: 20, quantity: 1 })
+      .expect(404);
+  });
+});
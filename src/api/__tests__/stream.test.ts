@@ -0,0 +1,183 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import express from 'express';
+import { streamRouter } from '../stream';
+import { webhookRouter } from '../webhook';
+import { createAccount } from '../../services/accountService';
+
+const app = express();
+app.use(express.json());
+app.use('/api/webhook', webhookRouter);
+app.use('/api/stream', streamRouter);
+
+interface IStreamMessage {
+  id?: string;
+  event?: string;
+  data?: { id: number; type: string; account: string; data: Record<string, unknown> };
+}
+
+interface IStreamClient {
+  messages: IStreamMessage[];
+  waitFor(count: number): Promise<IStreamMessage[]>;
+  close(): void;
+}
+
+/**
+ * Opens an event stream and collects the events it receives
+ */
+function openStream(
+  server: http.Server,
+  path: string,
+  headers: Record<string, string> = {},
+): Promise<IStreamClient> {
+  const { port } = server.address() as AddressInfo;
+
+  return new Promise((resolve, reject) => {
+    const req = http.get({ port, path, headers }, res => {
+      const messages: IStreamMessage[] = [];
+      let buffer = '';
+
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        buffer += chunk;
+        const parts = buffer.split('\n\n');
+        buffer = parts.pop() ?? '';
+        parts.forEach(part => {
+          const message: Record<string, string> = {};
+          part.split('\n').forEach(line => {
+            const separator = line.indexOf(': ');
+            message[line.slice(0, separator)] = line.slice(separator + 2);
+          });
+          if (message.event) {
+            messages.push({
+              id: message.id,
+              event: message.event,
+              data: JSON.parse(message.data) as IStreamMessage['data'],
+            });
+          }
+        });
+      });
+
+      resolve({
+        messages,
+        waitFor: async count => {
+          for (let attempt = 0; attempt < 100 && messages.length < count; attempt += 1) {
+            await new Promise(wait => setTimeout(wait, 10));
+          }
+          return messages;
+        },
+        close: () => req.destroy(),
+      });
+    });
+    req.on('error', reject);
+  });
+}
+
+describe('Stream API', () => {
+  let server: http.Server;
+  const alert = {
+    symbol: 'SOLUSDT',
+    action: 'BUY',
+    price: 20,
+    quantity: 5,
+    strategy: 'STREAM',
+    timestamp: 1625097600000,
+  };
+
+  beforeAll(done => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    createAccount({ id: 'streamed', initialBalance: 1000, commission: 0 });
+    server = app.listen(0, done);
+  });
+
+  afterAll(done => {
+    jest.restoreAllMocks();
+    server.close(done);
+  });
+
+  it('should push the events of the selected account', async () => {
+    await request(app).post('/api/webhook').send(alert).expect(200);
+    const stream = await openStream(server, '/api/stream?account=streamed');
+
+    await request(app).post('/api/webhook/streamed').send(alert).expect(200);
+    const messages = await stream.waitFor(3);
+    stream.close();
+
+    expect(messages.map(message => message.event)).toEqual([
+      'TRADE_EXECUTED',
+      'POSITION_CHANGED',
+      'EQUITY_UPDATED',
+    ]);
+    expect(messages.every(message => message.data?.account === 'streamed')).toBe(true);
+    expect(messages[0].data?.data.trade).toMatchObject({ symbol: 'SOLUSDT', quantity: 5 });
+    expect(messages[2].data?.data.snapshot).toMatchObject({ cash: 900 });
+    expect(messages[0].id).toBe(String(messages[0].data?.id));
+  });
+
+  it('should push orders that could not trade', async () => {
+    const stream = await openStream(server, '/api/stream?account=streamed');
+
+    await request(app)
+      .post('/api/webhook/streamed')
+      .send({ ...alert, action: 'EXIT', timestamp: alert.timestamp + 1, strategy: 'NONE' })
+      .expect(500);
+    const messages = await stream.waitFor(1);
+    stream.close();
+
+    expect(messages[0]).toMatchObject({
+      event: 'ORDER_REJECTED',
+      data: {
+        account: 'streamed',
+        data: {
+          symbol: 'SOLUSDT',
+          action: 'EXIT',
+          message: 'No open position to exit for SOLUSDT',
+        },
+      },
+    });
+  });
+
+  it('should replay the events missed since the last event id', async () => {
+    const live = await openStream(server, '/api/stream?account=all');
+    await request(app)
+      .post('/api/webhook/streamed')
+      .send({ ...alert, timestamp: alert.timestamp + 2 })
+      .expect(200);
+    const [, , lastSeen] = await live.waitFor(3);
+    live.close();
+
+    await request(app)
+      .post('/api/webhook/streamed')
+      .send({ ...alert, timestamp: alert.timestamp + 3 })
+      .expect(200);
+
+    const stream = await openStream(server, '/api/stream?account=all', {
+      'Last-Event-ID': lastSeen.id as string,
+    });
+    const messages = await stream.waitFor(3);
+    stream.close();
+
+    expect(messages.map(message => message.event)).toEqual([
+      'TRADE_EXECUTED',
+      'POSITION_CHANGED',
+      'EQUITY_UPDATED',
+    ]);
+    expect(messages[0].data?.data.trade).toMatchObject({ timestamp: alert.timestamp + 3 });
+  });
+
+  it('should ask clients to reload when missed events are no longer kept', async () => {
+    const stream = await openStream(server, '/api/stream?lastEventId=1000000');
+    const messages = await stream.waitFor(1);
+    stream.close();
+
+    expect(messages).toEqual([{ id: undefined, event: 'RESYNC', data: {} }]);
+  });
+
+  it('should reject unknown accounts and invalid event ids', async () => {
+    await request(app).get('/api/stream?account=missing').expect(404);
+
+    const response = await request(app).get('/api/stream?lastEventId=abc').expect(400);
+    expect(response.body.errors).toEqual(['lastEventId must be a non-negative integer']);
+  });
+});
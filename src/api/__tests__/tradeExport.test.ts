@@ -0,0 +1,166 @@
+import request from 'supertest';
+import express from 'express';
+import { tradesRouter } from '../trades';
+import { webhookRouter } from '../webhook';
+import { createAccount, requireAccount } from '../../services/accountService';
+
+const app = express();
+app.use(express.json());
+app.use(express.text({ type: 'text/plain' }));
+app.use('/api/webhook', webhookRouter);
+app.use('/api/trades', tradesRouter);
+
+describe('Trade export and import API', () => {
+  const alert = { symbol: 'ADAUSDT', price: 2, quantity: 100, strategy: 'EXPORT' };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    createAccount({ id: 'exported', initialBalance: 1000, commission: 0.1 });
+    createAccount({ id: 'imported', initialBalance: 1000, commission: 0.1 });
+    createAccount({ id: 'rejected', initialBalance: 1000, commission: 0.1 });
+    createAccount({ id: 'quiet', initialBalance: 1000, commission: 0.1 });
+
+    const trades = [
+      { ...alert, action: 'BUY', timestamp: 1000 },
+      { ...alert, action: 'SELL', price: 2.5, timestamp: 2000 },
+      { ...alert, action: 'BUY', price: 3, quantity: 50, timestamp: 3000 },
+    ];
+    for (const trade of trades) {
+      await request(app).post('/api/webhook/exported').send(trade).expect(200);
+    }
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should export filtered trades as CSV with commission and realized P&L', async () => {
+    const response = await request(app)
+      .get('/api/trades/export?account=exported&action=SELL')
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/csv/);
+    expect(response.headers['content-disposition']).toBe(
+      'attachment; filename="trades-exported.csv"',
+    );
+    const [header, row, ...rest] = response.text.split('\n');
+    expect(header.split(',')).toEqual(expect.arrayContaining(['commission', 'realizedPnl']));
+    expect(row).toBe(
+      'exported,1970-01-01T00:00:02.000Z,ADAUSDT,SELL,2.5,100,EXPORT,0.25,49.55,' +
+        'LONG,CLOSE,,,2.5,TAKER,',
+    );
+    expect(rest).toEqual(['']);
+  });
+
+  it('should export JSON lines', async () => {
+    const response = await request(app)
+      .get('/api/trades/export?account=exported&format=jsonl&sortBy=price&order=desc')
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^application\/x-ndjson/);
+    const trades = response.text
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line) as { price: number; timestamp: number });
+    expect(trades.map(trade => trade.price)).toEqual([3, 2.5, 2]);
+    expect(trades[0]).toMatchObject({ account: 'exported', timestamp: 3000, commission: 0.15 });
+  });
+
+  it('should reject invalid export queries', async () => {
+    const response = await request(app).get('/api/trades/export?format=xlsx').expect(400);
+    expect(response.body.errors).toEqual(['format must be one of csv or jsonl']);
+
+    await request(app).get('/api/trades/export?account=missing').expect(404);
+  });
+
+  it('should rebuild positions and balance from an export', async () => {
+    const exported = await request(app).get('/api/trades/export?account=exported').expect(200);
+
+    const response = await request(app)
+      .post('/api/trades/import?account=imported')
+      .set('Content-Type', 'text/csv')
+      .send(exported.text)
+      .expect(200);
+
+    const original = await request(app).get('/api/trades/history?account=exported').expect(200);
+    const rebuilt = await request(app).get('/api/trades/history?account=imported').expect(200);
+    expect(response.body.data).toEqual({
+      account: 'imported',
+      imported: 3,
+      balance: original.body.data.balance,
+      equity: original.body.data.equity,
+      openPositions: 1,
+    });
+    expect(rebuilt.body.data.analytics).toEqual(original.body.data.analytics);
+    expect(rebuilt.body.data.positions).toEqual(original.body.data.positions);
+  });
+
+  it('should not report imported trades as new executions', async () => {
+    const listener = jest.fn();
+    requireAccount('quiet').tradingSystem.subscribe(listener);
+
+    await request(app)
+      .post('/api/trades/import?account=quiet')
+      .send({
+        trades: [
+          { ...alert, action: 'BUY', timestamp: 1000 },
+          { ...alert, action: 'SELL', price: 2.5, timestamp: 2000 },
+        ],
+      })
+      .expect(200);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(requireAccount('quiet').tradingSystem.getPortfolio().trades).toHaveLength(2);
+  });
+
+  it('should refuse to import into an account that already has trades', async () => {
+    const response = await request(app)
+      .post('/api/trades/import?account=exported')
+      .send({ trades: [{ ...alert, action: 'BUY', timestamp: 1 }] })
+      .expect(409);
+
+    expect(response.body.message).toBe('Account exported already has trades');
+  });
+
+  it('should validate every row like a webhook alert', async () => {
+    const log = [
+      JSON.stringify({ ...alert, action: 'BUY', timestamp: 1 }),
+      JSON.stringify({ ...alert, action: 'EXIT', timestamp: 2 }),
+      JSON.stringify({ ...alert, action: 'SELL', quantity: undefined, timestamp: 3 }),
+      JSON.stringify({ ...alert, action: 'SELL', price: 'x', commission: -1, timestamp: 4 }),
+    ].join('\n');
+
+    const response = await request(app)
+      .post('/api/trades/import?account=rejected&format=jsonl')
+      .set('Content-Type', 'application/x-ndjson')
+      .send(log)
+      .expect(400);
+
+    expect(response.body).toEqual({
+      success: false,
+      message: 'Invalid trade import payload',
+      errors: [
+        'Line 2: Action must be one of BUY or SELL',
+        'Line 3: Quantity is required',
+        'Line 4: Price must be a number',
+      ],
+    });
+  });
+
+  it('should import nothing when a trade cannot execute', async () => {
+    const response = await request(app)
+      .post('/api/trades/import?account=rejected')
+      .send({
+        trades: [
+          { ...alert, action: 'BUY', timestamp: 1, commission: 0 },
+          { ...alert, action: 'BUY', quantity: 1000, timestamp: 2 },
+        ],
+      })
+      .expect(422);
+
+    expect(response.body.errors).toEqual(['Line 2: Insufficient balance to execute buy order']);
+    const history = await request(app).get('/api/trades/history?account=rejected').expect(200);
+    expect(history.body.data.trades).toEqual([]);
+    expect(history.body.data.balance).toBe(1000);
+  });
+});
@@ -78,4 +78,34 @@ describe('Trades API', () => {
     expect(response.body.success).toBe(false);
     expect(response.body.message).toBe('Internal server error');
   });
+
+  it('should pass filters, sorting and paging to the service', async () => {
+    const { getTradeHistory } = require('../../services/tradeHistoryService');
+    (getTradeHistory as jest.Mock).mockReturnValue(mockTradeHistory);
+
+    await request(app)
+      .get('/api/trades/history?symbol=btcusdt,ethusdt&action=buy&minPnl=-5&sortBy=price&limit=10')
+      .expect(200);
+
+    expect(getTradeHistory).toHaveBeenCalledWith(undefined, {
+      symbols: ['BTCUSDT', 'ETHUSDT'],
+      action: 'BUY',
+      minPnl: -5,
+      sortBy: 'price',
+      limit: 10,
+    });
+  });
+
+  it('should reject an invalid query', async () => {
+    const response = await request(app)
+      .get('/api/trades/history?action=HOLD&limit=0&cursor=abc')
+      .expect(400);
+
+    expect(response.body.message).toBe('Invalid trade history query');
+    expect(response.body.errors).toEqual([
+      'action must be one of BUY or SELL',
+      'limit must be an integer between 1 and 1000',
+      'cursor is not valid',
+    ]);
+  });
 });
\ No newline at end of file
@@ -0,0 +1,169 @@
+import request from 'supertest';
+import express from 'express';
+import { webhookRouter } from '../webhook';
+import { createAccount } from '../../services/accountService';
+import { getTradingSystemInstance } from '../../services/webhookService';
+
+const app = express();
+app.use(express.json());
+app.use(express.text());
+app.use('/api/webhook', webhookRouter);
+
+describe('Webhook API', () => {
+  const alert = {
+    symbol: 'ETHUSDT',
+    action: 'BUY',
+    price: 100,
+    quantity: 1,
+    strategy: 'DEDUPE',
+    timestamp: 1625097600000,
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should trade a replayed alert only once', async () => {
+    const first = await request(app).post('/api/webhook').send(alert).expect(200);
+    const replay = await request(app).post('/api/webhook').send(alert).expect(200);
+
+    expect(first.body.duplicate).toBe(false);
+    expect(replay.body.duplicate).toBe(true);
+    expect(replay.body.alertId).toBe(first.body.alertId);
+    expect(replay.body.data).toEqual(first.body.data);
+    expect(getTradingSystemInstance().getPortfolio().trades).toHaveLength(1);
+  });
+
+  it('should deduplicate by alertId when one is given', async () => {
+    const withId = { ...alert, alertId: 'alert-1', timestamp: 1625097700000 };
+
+    await request(app).post('/api/webhook').send(withId).expect(200);
+    const replay = await request(app)
+      .post('/api/webhook')
+      .send({ ...withId, timestamp: 1625097800000 })
+      .expect(200);
+
+    expect(replay.body).toMatchObject({ duplicate: true, alertId: 'alert-1' });
+    expect(getTradingSystemInstance().getPortfolio().trades).toHaveLength(2);
+  });
+
+  it('should process the same alert separately per account', async () => {
+    createAccount({ id: 'dedupe', initialBalance: 1000, commission: 0 });
+
+    const response = await request(app).post('/api/webhook/dedupe').send(alert).expect(200);
+
+    expect(response.body.duplicate).toBe(false);
+    expect(getTradingSystemInstance('dedupe').getPortfolio().trades).toHaveLength(1);
+  });
+
+  it('should allow a failed alert to be retried', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const executeTrade = jest.spyOn(getTradingSystemInstance(), 'executeTrade');
+    const tooLarge = { ...alert, quantity: 1000000, timestamp: 1625097900000 };
+
+    await request(app).post('/api/webhook').send(tooLarge).expect(500);
+    await request(app).post('/api/webhook').send(tooLarge).expect(500);
+
+    expect(executeTrade).toHaveBeenCalledTimes(2);
+  });
+
+  it('should accept plaintext alerts with TradingView action words', async () => {
+    const response = await request(app)
+      .post('/api/webhook')
+      .set('Content-Type', 'text/plain')
+      .send(
+        'symbol=SOLUSDT\naction=long\nprice=20\nquantity=5\nstrategy=PLAIN\ntimestamp=1625098000000',
+      )
+      .expect(200);
+
+    expect(response.body.data.positions).toContainEqual(
+      expect.objectContaining({ symbol: 'SOLUSDT', side: 'LONG', quantity: 5 }),
+    );
+  });
+
+  it('should close the strategy position on an exit alert', async () => {
+    const response = await request(app)
+      .post('/api/webhook')
+      .send({
+        symbol: 'SOLUSDT',
+        action: 'flat',
+        price: '25',
+        strategy: 'PLAIN',
+        timestamp: 1625098100000,
+      })
+      .expect(200);
+
+    expect(response.body.data.positions).not.toContainEqual(
+      expect.objectContaining({ symbol: 'SOLUSDT' }),
+    );
+    expect(response.body.data.trades).toContainEqual(
+      expect.objectContaining({ symbol: 'SOLUSDT', action: 'SELL', price: 25, quantity: 5 }),
+    );
+  });
+
+  it('should answer trades blocked by a risk limit with 422', async () => {
+    createAccount({
+      id: 'risky',
+      initialBalance: 1000,
+      commission: 0,
+      riskLimits: { maxPositionPercent: 50 },
+    });
+
+    const response = await request(app)
+      .post('/api/webhook/risky')
+      .send({ ...alert, quantity: 6, timestamp: 1625098200000 })
+      .expect(422);
+
+    expect(response.body).toMatchObject({
+      success: false,
+      rule: 'MAX_POSITION_SIZE',
+      data: { rule: 'MAX_POSITION_SIZE', symbol: 'ETHUSDT', quantity: 6 },
+    });
+    expect(getTradingSystemInstance('risky').getRiskRejections()).toHaveLength(1);
+  });
+
+  it('should reject alerts with a non-positive quantity without trading', async () => {
+    createAccount({ id: 'empty-lots', initialBalance: 1000, commission: 0 });
+
+    const negative = await request(app)
+      .post('/api/webhook/empty-lots')
+      .send({ ...alert, quantity: -5 })
+      .expect(400);
+    await request(app)
+      .post('/api/webhook/empty-lots')
+      .send({ ...alert, quantity: 0 })
+      .expect(400);
+
+    expect(negative.body.errors).toEqual(['Quantity must be a positive number']);
+    expect(getTradingSystemInstance('empty-lots').getPortfolio()).toMatchObject({
+      balance: 1000,
+      positions: [],
+      trades: [],
+    });
+  });
+
+  it('should reject entries whose stop loss is already hit without trading', async () => {
+    createAccount({ id: 'wrong-side', initialBalance: 1000, commission: 0 });
+
+    const response = await request(app)
+      .post('/api/webhook/wrong-side')
+      .send({ ...alert, stopLoss: 105 })
+      .expect(400);
+
+    expect(response.body.errors).toEqual(['stopLoss must be below the entry price 100 of a BUY']);
+    expect(getTradingSystemInstance('wrong-side').getPortfolio().trades).toHaveLength(0);
+  });
+
+  it('should reject alerts with unreplaced placeholders', async () => {
+    const response = await request(app)
+      .post('/api/webhook')
+      .send({ ...alert, price: '{{close}}' })
+      .expect(400);
+
+    expect(response.body.errors).toEqual(['price contains an unreplaced placeholder {{close}}']);
+  });
+});
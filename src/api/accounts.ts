@@ -0,0 +1,146 @@
+import express, { Request, Response } from 'express';
+
+import { adminAuth } from '../middleware/adminAuth';
+import { IAccountRequest } from '../models/account.interface';
+import {
+  AGGREGATE_ACCOUNT_ID,
+  createAccount,
+  getAccount,
+  getAccounts,
+  summarizeAccount,
+} from '../services/accountService';
+import { validateAccountRequest } from '../utils/validators';
+
+export const accountsRouter = express.Router();
+
+/**
+ * GET /api/accounts
+ * Endpoint for listing paper trading accounts with their current state
+ */
+accountsRouter.get('/', (_req: Request, res: Response) => {
+  try {
+    return res.status(200).json({
+      success: true,
+      data: getAccounts().map(summarizeAccount),
+    });
+  } catch (error) {
+    console.error('Error retrieving accounts:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * GET /api/accounts/:id
+ * Endpoint for retrieving a single paper trading account
+ */
+accountsRouter.get('/:id', (req: Request, res: Response) => {
+  const account = getAccount(req.params.id);
+
+  if (!account) {
+    return res.status(404).json({
+      success: false,
+      message: `Account ${req.params.id} does not exist`,
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: summarizeAccount(account),
+  });
+});
+
+/**
+ * POST /api/accounts
+ * Endpoint for creating a paper trading account with its own balance and commission
+ */
+accountsRouter.post('/', adminAuth, (req: Request, res: Response) => {
+  try {
+    const validationResult = validateAccountRequest(req.body);
+
+    if (!validationResult.valid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid account payload',
+        errors: validationResult.errors,
+      });
+    }
+
+    const { id, initialBalance, commission, marginRequirement, costBasisMethod, riskLimits } =
+      req.body as IAccountRequest;
+
+    if (getAccount(id) || id === AGGREGATE_ACCOUNT_ID) {
+      return res.status(409).json({
+        success: false,
+        message: `Account ${id} already exists`,
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: 'Account created successfully',
+      data: createAccount({
+        id,
+        initialBalance,
+        commission,
+        marginRequirement,
+        costBasisMethod,
+        riskLimits,
+      }),
+    });
+  } catch (error) {
+    console.error('Error creating account:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * GET /api/accounts/:id/risk
+ * Endpoint for retrieving an account's risk limits, loss limit halt and rejected trades
+ */
+accountsRouter.get('/:id/risk', (req: Request, res: Response) => {
+  const account = getAccount(req.params.id);
+
+  if (!account) {
+    return res.status(404).json({
+      success: false,
+      message: `Account ${req.params.id} does not exist`,
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      ...account.tradingSystem.getRiskStatus(),
+      rejections: account.tradingSystem.getRiskRejections(),
+    },
+  });
+});
+
+/**
+ * POST /api/accounts/:id/risk/reset
+ * Endpoint for lifting a loss limit halt so the account can open positions again
+ */
+accountsRouter.post('/:id/risk/reset', adminAuth, (req: Request, res: Response) => {
+  const account = getAccount(req.params.id);
+
+  if (!account) {
+    return res.status(404).json({
+      success: false,
+      message: `Account ${req.params.id} does not exist`,
+    });
+  }
+
+  account.tradingSystem.resetRiskHalt();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Risk halt reset successfully',
+    data: account.tradingSystem.getRiskStatus(),
+  });
+});
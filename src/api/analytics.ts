@@ -0,0 +1,118 @@
+import express, { Request, Response } from 'express';
+
+import { AGGREGATE_ACCOUNT_ID, DEFAULT_ACCOUNT_ID, getAccount } from '../services/accountService';
+import {
+  getAnalyticsBreakdown,
+  getTradeHistory,
+  TAnalyticsGroupBy,
+  TAnalyticsRanking,
+} from '../services/tradeHistoryService';
+import { parseTimeRange } from '../utils/time';
+import { parseTradeQuery } from '../utils/tradeQuery';
+
+export const analyticsRouter = express.Router();
+
+const RANKINGS: TAnalyticsRanking[] = ['netProfitLoss', 'winRate', 'maxDrawdown'];
+
+/**
+ * Creates a handler returning analytics grouped by strategy or symbol.
+ * `?account=` selects an account or `all`, `?from=` and `?to=` bound the time
+ * range and `?rankBy=` ranks the groups.
+ */
+function handleBreakdown(groupBy: TAnalyticsGroupBy) {
+  return (req: Request, res: Response): Response => {
+    try {
+      const accountId =
+        typeof req.query.account === 'string' ? req.query.account : DEFAULT_ACCOUNT_ID;
+
+      if (accountId !== AGGREGATE_ACCOUNT_ID && !getAccount(accountId)) {
+        return res.status(404).json({
+          success: false,
+          message: `Account ${accountId} does not exist`,
+        });
+      }
+
+      const { range, errors } = parseTimeRange(req.query);
+      const { rankBy } = req.query;
+      if (rankBy !== undefined && !RANKINGS.includes(rankBy as TAnalyticsRanking)) {
+        errors.push('rankBy must be one of netProfitLoss, winRate or maxDrawdown');
+      }
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid analytics query',
+          errors,
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: getAnalyticsBreakdown(
+          groupBy,
+          { ...range, rankBy: rankBy as TAnalyticsRanking | undefined },
+          accountId,
+        ),
+      });
+    } catch (error) {
+      console.error(`Error retrieving ${groupBy} analytics:`, error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+}
+
+/**
+ * GET /api/analytics/strategies
+ * Endpoint for retrieving analytics for each strategy
+ */
+analyticsRouter.get('/strategies', handleBreakdown('strategy'));
+
+/**
+ * GET /api/analytics/symbols
+ * Endpoint for retrieving analytics for each symbol
+ */
+analyticsRouter.get('/symbols', handleBreakdown('symbol'));
+
+/**
+ * GET /api/analytics/summary
+ * Endpoint for retrieving the analytics of an account without its trades.
+ * `?account=` selects an account or `all`; the trade history filters apply.
+ */
+analyticsRouter.get('/summary', (req: Request, res: Response) => {
+  try {
+    const accountId =
+      typeof req.query.account === 'string' ? req.query.account : DEFAULT_ACCOUNT_ID;
+
+    if (accountId !== AGGREGATE_ACCOUNT_ID && !getAccount(accountId)) {
+      return res.status(404).json({
+        success: false,
+        message: `Account ${accountId} does not exist`,
+      });
+    }
+
+    const { query, errors } = parseTradeQuery(req.query);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid analytics query',
+        errors,
+      });
+    }
+
+    const { account, analytics, balance, equity } = getTradeHistory(accountId, query);
+
+    return res.status(200).json({
+      success: true,
+      data: { account, analytics, balance, equity },
+    });
+  } catch (error) {
+    console.error('Error retrieving analytics summary:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
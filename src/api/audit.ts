@@ -0,0 +1,37 @@
+import express, { Request, Response } from 'express';
+
+import { queryAuditEntries } from '../services/auditService';
+import { parseAuditQuery } from '../utils/auditQuery';
+
+export const auditRouter = express.Router();
+
+/**
+ * GET /api/audit
+ * Endpoint for searching the webhook audit log, newest entries first.
+ * `type`, `status`, `account`, `symbol`, `strategy`, `sourceIp`, `from`, `to`
+ * and `q` (text in the message, errors or raw body) filter the entries;
+ * `limit` caps how many are returned (default 100).
+ */
+auditRouter.get('/', (req: Request, res: Response) => {
+  try {
+    const { query, errors } = parseAuditQuery(req.query);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid audit query',
+        errors,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: queryAuditEntries(query),
+    });
+  } catch (error) {
+    console.error('Error retrieving audit log:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
@@ -0,0 +1,76 @@
+import express, { Request, Response } from 'express';
+
+import { IBacktestConfig } from '../models/backtest.interface';
+import { parseBacktestAlerts, runBacktest } from '../services/backtestService';
+import { IAlertLogRecord, readAlertLog, TAlertLogFormat } from '../utils/alertLog';
+import { validateBacktestConfig } from '../utils/validators';
+
+export const backtestsRouter = express.Router();
+
+/**
+ * Body of a backtest request: the alerts as JSON, or the contents of a
+ * recorded alert log, and the trading parameters of the run
+ */
+interface IBacktestRequest {
+  config?: IBacktestConfig;
+  alerts?: unknown[];
+  log?: string;
+  format?: TAlertLogFormat;
+}
+
+/**
+ * Read the alerts of a backtest request, numbering JSON alerts from 1
+ */
+function readRequestAlerts(body: IBacktestRequest): {
+  records: IAlertLogRecord[];
+  errors: string[];
+} {
+  if (Array.isArray(body.alerts)) {
+    return {
+      records: body.alerts.map((payload, index) => ({ line: index + 1, payload })),
+      errors: [],
+    };
+  }
+  if (typeof body.log !== 'string') {
+    return { records: [], errors: ['Either an alerts array or a log string is required'] };
+  }
+  if (body.format !== undefined && !['jsonl', 'csv'].includes(body.format)) {
+    return { records: [], errors: ['Format must be one of jsonl or csv'] };
+  }
+  return readAlertLog(body.log, body.format);
+}
+
+/**
+ * POST /api/backtests
+ * Endpoint for replaying recorded alerts through a fresh paper trading
+ * system with the given parameters, returning the trade history and
+ * analytics of the run
+ */
+backtestsRouter.post('/', (req: Request, res: Response) => {
+  try {
+    const body = (req.body ?? {}) as IBacktestRequest;
+    const configResult = validateBacktestConfig(body.config ?? {});
+    const log = readRequestAlerts(body);
+    const { alerts, errors } = parseBacktestAlerts(log.records);
+
+    const allErrors = [...(configResult.errors ?? []), ...log.errors, ...errors];
+    if (allErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid backtest payload',
+        errors: allErrors,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: runBacktest(alerts, body.config),
+    });
+  } catch (error) {
+    console.error('Error running backtest:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
@@ -0,0 +1,148 @@
+import express, { Request, Response } from 'express';
+
+import { adminAuth } from '../middleware/adminAuth';
+import { IFlattenRequest, ITradingPauseRequest } from '../models/tradingControl.interface';
+import { getAccount } from '../services/accountService';
+import {
+  describeTradingPause,
+  flattenPositions,
+  getTradingPauses,
+  pauseTrading,
+  resumeTrading,
+} from '../services/tradingControlService';
+import { validateFlattenRequest, validateTradingPauseRequest } from '../utils/validators';
+
+export const controlRouter = express.Router();
+
+/**
+ * GET /api/control/pauses
+ * Endpoint for listing the active trading pauses
+ */
+controlRouter.get('/pauses', (_req: Request, res: Response) => {
+  try {
+    return res.status(200).json({
+      success: true,
+      data: getTradingPauses(),
+    });
+  } catch (error) {
+    console.error('Error retrieving trading pauses:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * POST /api/control/pause
+ * Endpoint for pausing webhook execution globally or for an account, strategy
+ * or symbol. Alerts the pause matches are audited as ignored instead of trading.
+ */
+controlRouter.post('/pause', adminAuth, (req: Request, res: Response) => {
+  try {
+    const validationResult = validateTradingPauseRequest(req.body);
+
+    if (!validationResult.valid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid pause payload',
+        errors: validationResult.errors,
+      });
+    }
+
+    const { scope, value, reason } = req.body as ITradingPauseRequest;
+    const pause = pauseTrading({ scope, value, reason });
+
+    return res.status(200).json({
+      success: true,
+      message: `Trading paused ${describeTradingPause(pause)}`,
+      data: pause,
+    });
+  } catch (error) {
+    console.error('Error pausing trading:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * POST /api/control/resume
+ * Endpoint for lifting a trading pause
+ */
+controlRouter.post('/resume', adminAuth, (req: Request, res: Response) => {
+  try {
+    const validationResult = validateTradingPauseRequest(req.body);
+
+    if (!validationResult.valid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid resume payload',
+        errors: validationResult.errors,
+      });
+    }
+
+    const { scope, value } = req.body as ITradingPauseRequest;
+    const pause = resumeTrading({ scope, value });
+
+    if (!pause) {
+      return res.status(404).json({
+        success: false,
+        message: `Trading is not paused ${describeTradingPause({ scope, value })}`,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: `Trading resumed ${describeTradingPause(pause)}`,
+      data: pause,
+    });
+  } catch (error) {
+    console.error('Error resuming trading:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * POST /api/control/flatten
+ * Endpoint for closing open positions, optionally only those of an account,
+ * strategy or symbol, at the supplied prices or the last known ones
+ */
+controlRouter.post('/flatten', adminAuth, (req: Request, res: Response) => {
+  try {
+    const validationResult = validateFlattenRequest(req.body);
+
+    if (!validationResult.valid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid flatten payload',
+        errors: validationResult.errors,
+      });
+    }
+
+    const { account, strategy, symbol, price, prices } = req.body as IFlattenRequest;
+
+    if (account && !getAccount(account)) {
+      return res.status(404).json({
+        success: false,
+        message: `Account ${account} does not exist`,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Positions flattened successfully',
+      data: flattenPositions({ account, strategy, symbol, price, prices }),
+    });
+  } catch (error) {
+    console.error('Error flattening positions:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
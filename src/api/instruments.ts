@@ -0,0 +1,121 @@
+import express, { Request, Response } from 'express';
+
+import { adminAuth } from '../middleware/adminAuth';
+import { IInstrument } from '../models/instrument.interface';
+import {
+  deleteInstrument,
+  getInstrument,
+  getInstruments,
+  saveInstrument,
+} from '../services/instrumentService';
+import { validateInstrument } from '../utils/validators';
+
+export const instrumentsRouter = express.Router();
+
+/**
+ * GET /api/instruments
+ * Endpoint for listing the registered instruments
+ */
+instrumentsRouter.get('/', (_req: Request, res: Response) => {
+  try {
+    return res.status(200).json({
+      success: true,
+      data: getInstruments(),
+    });
+  } catch (error) {
+    console.error('Error retrieving instruments:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * GET /api/instruments/:symbol
+ * Endpoint for retrieving the instrument of a symbol
+ */
+instrumentsRouter.get('/:symbol', (req: Request, res: Response) => {
+  const instrument = getInstrument(req.params.symbol);
+
+  if (!instrument) {
+    return res.status(404).json({
+      success: false,
+      message: `Instrument ${req.params.symbol} does not exist`,
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: instrument,
+  });
+});
+
+/**
+ * PUT /api/instruments/:symbol
+ * Endpoint for registering an instrument or replacing its terms
+ */
+instrumentsRouter.put('/:symbol', adminAuth, (req: Request, res: Response) => {
+  try {
+    const payload: unknown = { ...(req.body as object), symbol: req.params.symbol };
+    const validationResult = validateInstrument(payload);
+
+    if (!validationResult.valid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid instrument payload',
+        errors: validationResult.errors,
+      });
+    }
+
+    const { symbol, assetClass, tickSize, lotSize, multiplier, quoteCurrency, description } =
+      payload as IInstrument;
+    const created = !getInstrument(symbol);
+
+    return res.status(created ? 201 : 200).json({
+      success: true,
+      message: created ? 'Instrument created successfully' : 'Instrument updated successfully',
+      data: saveInstrument({
+        symbol,
+        assetClass,
+        tickSize,
+        lotSize,
+        multiplier,
+        quoteCurrency,
+        description,
+      }),
+    });
+  } catch (error) {
+    console.error('Error saving instrument:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/instruments/:symbol
+ * Endpoint for removing an instrument, so its symbol trades as a spot asset
+ */
+instrumentsRouter.delete('/:symbol', adminAuth, (req: Request, res: Response) => {
+  try {
+    if (!deleteInstrument(req.params.symbol)) {
+      return res.status(404).json({
+        success: false,
+        message: `Instrument ${req.params.symbol} does not exist`,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Instrument deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting instrument:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
@@ -0,0 +1,58 @@
+import express, { Request, Response } from 'express';
+
+import { getNotificationDeliveries, getNotificationSinks } from '../services/notificationService';
+
+export const notificationsRouter = express.Router();
+
+/**
+ * GET /api/notifications
+ * Endpoint for listing the notification sinks and the event types each one
+ * receives. URLs and headers are left out, as they often hold secrets.
+ */
+notificationsRouter.get('/', (_req: Request, res: Response) => {
+  try {
+    return res.status(200).json({
+      success: true,
+      data: getNotificationSinks().map(({ name, type, events }) => ({ name, type, events })),
+    });
+  } catch (error) {
+    console.error('Error retrieving notification sinks:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * GET /api/notifications/deliveries
+ * Endpoint for the delivery log, oldest first. `?sink=` and `?status=`
+ * (DELIVERED or FAILED) narrow it down.
+ */
+notificationsRouter.get('/deliveries', (req: Request, res: Response) => {
+  try {
+    const { sink, status } = req.query;
+    if (status !== undefined && status !== 'DELIVERED' && status !== 'FAILED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid delivery query',
+        errors: ['status must be one of DELIVERED or FAILED'],
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: getNotificationDeliveries().filter(
+        delivery =>
+          (sink === undefined || delivery.sink === sink) &&
+          (status === undefined || delivery.status === status),
+      ),
+    });
+  } catch (error) {
+    console.error('Error retrieving notification deliveries:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
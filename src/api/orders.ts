@@ -0,0 +1,169 @@
+import express, { Request, Response } from 'express';
+
+import { adminAuth } from '../middleware/adminAuth';
+import { DEFAULT_ACCOUNT_ID, getAccount } from '../services/accountService';
+import { getInstrument } from '../services/instrumentService';
+import {
+  cancelAllOrders,
+  cancelOrder,
+  getWorkingOrders,
+  IManualOrderRequest,
+  placeManualOrder,
+} from '../services/orderService';
+import { RiskRejectionError } from '../trading/riskEngine';
+import { validateManualOrder } from '../utils/validators';
+
+export const ordersRouter = express.Router();
+
+/**
+ * Reads the `?account=` query parameter, responding with 404 for unknown accounts
+ */
+function resolveAccount(req: Request, res: Response): string | undefined {
+  const accountId = typeof req.query.account === 'string' ? req.query.account : DEFAULT_ACCOUNT_ID;
+
+  if (!getAccount(accountId)) {
+    res.status(404).json({
+      success: false,
+      message: `Account ${accountId} does not exist`,
+    });
+    return undefined;
+  }
+
+  return accountId;
+}
+
+/**
+ * GET /api/orders
+ * Endpoint for listing an account's working orders, optionally filtered by ?symbol=
+ */
+ordersRouter.get('/', (req: Request, res: Response) => {
+  try {
+    const accountId = resolveAccount(req, res);
+    if (!accountId) return;
+
+    const symbol = typeof req.query.symbol === 'string' ? req.query.symbol : undefined;
+
+    return res.status(200).json({
+      success: true,
+      data: getWorkingOrders(symbol, accountId),
+    });
+  } catch (error) {
+    console.error('Error retrieving orders:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Validates and places a manual order in the account named by `?account=`
+ */
+async function handleManualOrder(req: Request, res: Response): Promise<Response | undefined> {
+  const accountId = resolveAccount(req, res);
+  if (!accountId) return undefined;
+
+  const validationResult = validateManualOrder(req.body, getInstrument);
+  if (!validationResult.valid) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid order payload',
+      errors: validationResult.errors,
+    });
+  }
+
+  try {
+    const result = await placeManualOrder(req.body as IManualOrderRequest, accountId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'status' in result ? 'Order placed successfully' : 'Order executed successfully',
+      data: result,
+    });
+  } catch (error) {
+    // Manual orders report why they could not trade, such as an insufficient balance
+    if (error instanceof RiskRejectionError) {
+      return res.status(422).json({
+        success: false,
+        message: error.message,
+        rule: error.rejection.rule,
+        data: error.rejection,
+      });
+    }
+    return res.status(422).json({
+      success: false,
+      message: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * POST /api/orders
+ * Endpoint for placing a manual order. The body is a webhook alert whose
+ * strategy (default MANUAL) and timestamp (default now) may be left out;
+ * its trades and resting order are tagged with `source: 'manual'`.
+ */
+ordersRouter.post(
+  '/',
+  adminAuth,
+  (req: Request, res: Response) => void handleManualOrder(req, res),
+);
+
+/**
+ * DELETE /api/orders
+ * Endpoint for cancelling all of an account's working orders, optionally filtered by ?symbol=
+ */
+ordersRouter.delete('/', adminAuth, (req: Request, res: Response) => {
+  try {
+    const accountId = resolveAccount(req, res);
+    if (!accountId) return;
+
+    const symbol = typeof req.query.symbol === 'string' ? req.query.symbol : undefined;
+
+    return res.status(200).json({
+      success: true,
+      message: 'Orders cancelled successfully',
+      data: cancelAllOrders(symbol, accountId),
+    });
+  } catch (error) {
+    console.error('Error cancelling orders:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/orders/:id
+ * Endpoint for cancelling a single working order
+ */
+ordersRouter.delete('/:id', adminAuth, (req: Request, res: Response) => {
+  const accountId = resolveAccount(req, res);
+  if (!accountId) return;
+
+  const workingOrder = getWorkingOrders(undefined, accountId).find(
+    order => order.id === req.params.id,
+  );
+
+  if (!workingOrder) {
+    return res.status(404).json({
+      success: false,
+      message: `No working order found with id ${req.params.id}`,
+    });
+  }
+
+  try {
+    return res.status(200).json({
+      success: true,
+      message: 'Order cancelled successfully',
+      data: cancelOrder(workingOrder.id, accountId),
+    });
+  } catch (error) {
+    console.error('Error cancelling order:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
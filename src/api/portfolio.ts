@@ -0,0 +1,56 @@
+import express, { Request, Response } from 'express';
+
+import { AGGREGATE_ACCOUNT_ID, DEFAULT_ACCOUNT_ID, getAccount } from '../services/accountService';
+import { getEquityCurve } from '../services/equityService';
+import { parseDuration, parseTimeRange } from '../utils/time';
+
+export const portfolioRouter = express.Router();
+
+const DEFAULT_INTERVAL = '1h';
+
+/**
+ * GET /api/portfolio/equity
+ * Endpoint for retrieving the equity curve as OHLC buckets of equity, cash and
+ * exposure. `?from=` and `?to=` bound the time range, `?interval=` sets the
+ * bucket size (default 1h) and `?account=` selects an account or `all`.
+ */
+portfolioRouter.get('/equity', (req: Request, res: Response) => {
+  try {
+    const accountId =
+      typeof req.query.account === 'string' ? req.query.account : DEFAULT_ACCOUNT_ID;
+
+    if (accountId !== AGGREGATE_ACCOUNT_ID && !getAccount(accountId)) {
+      return res.status(404).json({
+        success: false,
+        message: `Account ${accountId} does not exist`,
+      });
+    }
+
+    const { range, errors } = parseTimeRange(req.query);
+    const interval = parseDuration(
+      typeof req.query.interval === 'string' ? req.query.interval : DEFAULT_INTERVAL,
+    );
+    if (interval === undefined) {
+      errors.push('Interval must be a positive duration such as 15m, 1h or 1d');
+    }
+
+    if (interval === undefined || errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid equity curve query',
+        errors,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: getEquityCurve({ ...range, interval }, accountId),
+    });
+  } catch (error) {
+    console.error('Error retrieving equity curve:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
@@ -0,0 +1,147 @@
+import express, { Request, Response } from 'express';
+
+import { adminAuth } from '../middleware/adminAuth';
+import { DEFAULT_ACCOUNT_ID, getAccount } from '../services/accountService';
+import {
+  closePosition,
+  getPosition,
+  getPositions,
+  updatePositionExitLevels,
+} from '../services/positionService';
+import { TExitLevelChanges } from '../trading/paperTradingSystem';
+import { validateExitLevelChanges, validatePositionClose } from '../utils/validators';
+
+export const positionsRouter = express.Router();
+
+/**
+ * Reads the `?account=` query parameter, responding with 404 for unknown accounts
+ */
+function resolveAccount(req: Request, res: Response): string | undefined {
+  const accountId = typeof req.query.account === 'string' ? req.query.account : DEFAULT_ACCOUNT_ID;
+
+  if (!getAccount(accountId)) {
+    res.status(404).json({
+      success: false,
+      message: `Account ${accountId} does not exist`,
+    });
+    return undefined;
+  }
+
+  return accountId;
+}
+
+/**
+ * Responds with 404 unless the account holds an open position with the route's id
+ */
+function requirePosition(req: Request, res: Response, accountId: string): boolean {
+  if (getPosition(req.params.id, accountId)) {
+    return true;
+  }
+
+  res.status(404).json({
+    success: false,
+    message: `No open position found with id ${req.params.id}`,
+  });
+  return false;
+}
+
+/**
+ * GET /api/positions
+ * Endpoint for listing an account's open positions with their ids, marked to
+ * market, optionally filtered by ?symbol=
+ */
+positionsRouter.get('/', (req: Request, res: Response) => {
+  try {
+    const accountId = resolveAccount(req, res);
+    if (!accountId) return;
+
+    const symbol = typeof req.query.symbol === 'string' ? req.query.symbol : undefined;
+
+    return res.status(200).json({
+      success: true,
+      data: getPositions(symbol, accountId),
+    });
+  } catch (error) {
+    console.error('Error retrieving positions:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * POST /api/positions/:id/close
+ * Endpoint for closing all of a position, or the `quantity` given, at `price`
+ * or the last known price of its symbol
+ */
+positionsRouter.post('/:id/close', adminAuth, (req: Request, res: Response) => {
+  const accountId = resolveAccount(req, res);
+  if (!accountId || !requirePosition(req, res, accountId)) return;
+
+  const validationResult = validatePositionClose(req.body ?? {});
+  if (!validationResult.valid) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid close payload',
+      errors: validationResult.errors,
+    });
+  }
+
+  try {
+    const { price, quantity } = (req.body ?? {}) as { price?: number; quantity?: number };
+
+    return res.status(200).json({
+      success: true,
+      message: 'Position closed successfully',
+      data: closePosition(req.params.id, { price, quantity }, accountId),
+    });
+  } catch (error) {
+    // Such as a quantity beyond the open quantity or off the lot size
+    return res.status(422).json({
+      success: false,
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * PATCH /api/positions/:id
+ * Endpoint for setting (a number) or removing (null) the stopLoss,
+ * takeProfit, trailingStopPercent and trailingStopOffset of a position
+ */
+positionsRouter.patch('/:id', adminAuth, (req: Request, res: Response) => {
+  const accountId = resolveAccount(req, res);
+  if (!accountId || !requirePosition(req, res, accountId)) return;
+
+  // New levels are checked against the side and current price of the position
+  const position = getPositions(undefined, accountId).find(pos => pos.id === req.params.id);
+  const validationResult = validateExitLevelChanges(req.body, position);
+  if (!validationResult.valid) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid position payload',
+      errors: validationResult.errors,
+    });
+  }
+
+  try {
+    const { stopLoss, takeProfit, trailingStopPercent, trailingStopOffset } =
+      req.body as TExitLevelChanges;
+
+    return res.status(200).json({
+      success: true,
+      message: 'Position updated successfully',
+      data: updatePositionExitLevels(
+        req.params.id,
+        { stopLoss, takeProfit, trailingStopPercent, trailingStopOffset },
+        accountId,
+      ),
+    });
+  } catch (error) {
+    return res.status(422).json({
+      success: false,
+      message: (error as Error).message,
+    });
+  }
+});
@@ -0,0 +1,51 @@
+import express, { Request, Response } from 'express';
+
+import { adminAuth } from '../middleware/adminAuth';
+import { IPriceTick } from '../models/order.interface';
+import { processPriceTicks } from '../services/orderService';
+import { validatePriceTick } from '../utils/validators';
+
+export const pricesRouter = express.Router();
+
+/**
+ * POST /api/prices
+ * Endpoint for receiving price ticks, either a single tick or an array of
+ * ticks. Each tick may close positions at their exit levels and fill
+ * resting orders for its symbol.
+ */
+pricesRouter.post('/', adminAuth, (req: Request, res: Response) => {
+  try {
+    const payloads: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+    const errors = payloads.flatMap((payload, index) => {
+      const validationResult = validatePriceTick(payload);
+      const prefix = payloads.length > 1 ? `Tick ${index}: ` : '';
+      return (validationResult.errors ?? []).map(error => `${prefix}${error}`);
+    });
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid price payload',
+        errors,
+      });
+    }
+
+    const ticks = (payloads as IPriceTick[]).map(tick => ({
+      symbol: tick.symbol,
+      price: tick.price,
+      timestamp: tick.timestamp ?? Date.now(),
+    }));
+
+    return res.status(200).json({
+      success: true,
+      message: 'Prices processed successfully',
+      data: processPriceTicks(ticks),
+    });
+  } catch (error) {
+    console.error('Error processing prices:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
@@ -0,0 +1,82 @@
+import express, { Request, Response } from 'express';
+
+import { config } from '../config';
+import { AGGREGATE_ACCOUNT_ID, DEFAULT_ACCOUNT_ID, getAccount } from '../services/accountService';
+import { getEventsSince, IStreamEvent, subscribeToEvents } from '../services/streamService';
+
+export const streamRouter = express.Router();
+
+// How long browsers wait before reconnecting a dropped stream, in milliseconds
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Formats an event as a Server-Sent Events message
+ */
+function formatEvent(event: IStreamEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * GET /api/stream
+ * Server-Sent Events stream of trades, order rejections, position changes and
+ * equity updates. `?account=` selects an account (default `default`) or `all`.
+ * A reconnecting client's `Last-Event-ID` header, or `?lastEventId=`, replays
+ * the events it missed; when they are no longer kept a RESYNC event tells it
+ * to reload instead.
+ */
+streamRouter.get('/', (req: Request, res: Response) => {
+  const accountId = typeof req.query.account === 'string' ? req.query.account : DEFAULT_ACCOUNT_ID;
+  if (accountId !== AGGREGATE_ACCOUNT_ID && !getAccount(accountId)) {
+    return res.status(404).json({
+      success: false,
+      message: `Account ${accountId} does not exist`,
+    });
+  }
+
+  const lastEventIdValue = req.get('Last-Event-ID') ?? req.query.lastEventId;
+  const lastEventId =
+    typeof lastEventIdValue === 'string' && /^\d+$/.test(lastEventIdValue)
+      ? parseInt(lastEventIdValue, 10)
+      : undefined;
+  if (lastEventIdValue !== undefined && lastEventId === undefined) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid stream query',
+      errors: ['lastEventId must be a non-negative integer'],
+    });
+  }
+
+  const isVisible = (event: IStreamEvent): boolean =>
+    accountId === AGGREGATE_ACCOUNT_ID || event.account === accountId;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Keep reverse proxies from buffering the stream
+  });
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  if (lastEventId !== undefined) {
+    const missed = getEventsSince(lastEventId);
+    if (missed) {
+      missed.filter(isVisible).forEach(event => res.write(formatEvent(event)));
+    } else {
+      res.write('event: RESYNC\ndata: {}\n\n');
+    }
+  }
+
+  const unsubscribe = subscribeToEvents(event => {
+    if (isVisible(event)) {
+      res.write(formatEvent(event));
+    }
+  });
+  // Comments keep idle connections open through proxies
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), config.streamHeartbeatMs);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+  return undefined;
+});
@@ -1,16 +1,47 @@
+import { once } from 'events';
+
 import express, { Request, Response } from 'express';
-import { getTradeHistory } from '../services/tradeHistoryService';
+
+import { adminAuth } from '../middleware/adminAuth';
+import { AGGREGATE_ACCOUNT_ID, DEFAULT_ACCOUNT_ID, getAccount } from '../services/accountService';
+import { getMatchingTrades, getTradeHistory } from '../services/tradeHistoryService';
+import { importTrades, parseImportedTrades } from '../services/tradeImportService';
+import { IAlertLogRecord, readAlertLog, TAlertLogFormat } from '../utils/alertLog';
+import { formatTradeExport, TTradeExportFormat } from '../utils/tradeExport';
+import { parseTradeQuery } from '../utils/tradeQuery';
 
 export const tradesRouter = express.Router();
 
 /**
  * GET /api/trades/history
- * Endpoint for retrieving trade history with analytics
+ * Endpoint for retrieving trade history with analytics. `?account=` selects an
+ * account, `?account=all` combines every account. `symbol`, `strategy`,
+ * `action`, `from`, `to`, `minPnl` and `maxPnl` filter the trades and the
+ * analytics; `sortBy` and `order` sort them; `limit` with `offset` or
+ * `cursor` pages them.
  */
-tradesRouter.get('/history', (_req: Request, res: Response) => {
+tradesRouter.get('/history', (req: Request, res: Response) => {
   try {
-    const tradeHistory = getTradeHistory();
-    
+    const accountId = typeof req.query.account === 'string' ? req.query.account : undefined;
+
+    if (accountId && accountId !== AGGREGATE_ACCOUNT_ID && !getAccount(accountId)) {
+      return res.status(404).json({
+        success: false,
+        message: `Account ${accountId} does not exist`,
+      });
+    }
+
+    const { query, errors } = parseTradeQuery(req.query);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid trade history query',
+        errors,
+      });
+    }
+
+    const tradeHistory = getTradeHistory(accountId, query);
+
     return res.status(200).json({
       success: true,
       data: tradeHistory,
@@ -23,3 +54,180 @@ tradesRouter.get('/history', (_req: Request, res: Response) => {
     });
   }
 });
+
+// Content type of each export format
+const EXPORT_CONTENT_TYPES: Record<TTradeExportFormat, string> = {
+  csv: 'text/csv',
+  jsonl: 'application/x-ndjson',
+};
+
+/**
+ * Streams the requested trades in the requested format
+ */
+async function exportTrades(req: Request, res: Response): Promise<Response | undefined> {
+  try {
+    const accountId = typeof req.query.account === 'string' ? req.query.account : undefined;
+
+    if (accountId && accountId !== AGGREGATE_ACCOUNT_ID && !getAccount(accountId)) {
+      return res.status(404).json({
+        success: false,
+        message: `Account ${accountId} does not exist`,
+      });
+    }
+
+    const { format: formatValue = 'csv', ...filters } = req.query;
+    const { query, errors } = parseTradeQuery(filters);
+    const format = formatValue as TTradeExportFormat;
+    if (!Object.keys(EXPORT_CONTENT_TYPES).includes(format)) {
+      errors.push('format must be one of csv or jsonl');
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid trade export query',
+        errors,
+      });
+    }
+
+    // Trades of a single account are not tagged with it, but export rows always name their account
+    const exportAccount = accountId ?? DEFAULT_ACCOUNT_ID;
+    const trades = getMatchingTrades(accountId, query).map(trade => ({
+      account: exportAccount,
+      ...trade,
+    }));
+    res.writeHead(200, {
+      'Content-Type': `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="trades-${
+        accountId ?? DEFAULT_ACCOUNT_ID
+      }.${format}"`,
+    });
+
+    for (const line of formatTradeExport(trades, format)) {
+      // Wait for the client to catch up instead of buffering the whole export
+      if (!res.write(line)) {
+        await once(res, 'drain');
+      }
+    }
+    res.end();
+    return undefined;
+  } catch (error) {
+    console.error('Error exporting trades:', error);
+    if (res.headersSent) {
+      res.destroy();
+      return undefined;
+    }
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
+
+/**
+ * GET /api/trades/export
+ * Endpoint for downloading trades as CSV (`?format=csv`, the default) or JSON
+ * lines (`?format=jsonl`). Takes the same account, filter, sort and page
+ * parameters as the history endpoint. Rows carry the commission and realized
+ * P&L of each trade and are streamed as the client reads them.
+ */
+tradesRouter.get('/export', (req: Request, res: Response) => void exportTrades(req, res));
+
+/**
+ * Body of a JSON import request: the trades as JSON, or the contents of an export
+ */
+interface ITradeImportRequest {
+  trades?: unknown[];
+  log?: string;
+  format?: TAlertLogFormat;
+}
+
+/**
+ * Read the rows of an import request, numbering JSON trades from 1
+ */
+function readImportRows(
+  body: unknown,
+  queryFormat: unknown,
+): { records: IAlertLogRecord[]; errors: string[] } {
+  const request: ITradeImportRequest =
+    typeof body === 'string' ? { log: body } : ((body ?? {}) as ITradeImportRequest);
+  const format = queryFormat ?? request.format;
+
+  if (Array.isArray(request.trades)) {
+    return {
+      records: request.trades.map((payload, index) => ({ line: index + 1, payload })),
+      errors: [],
+    };
+  }
+  if (typeof request.log !== 'string') {
+    return { records: [], errors: ['Either a trades array or an export is required'] };
+  }
+  if (format !== undefined && format !== 'jsonl' && format !== 'csv') {
+    return { records: [], errors: ['Format must be one of jsonl or csv'] };
+  }
+  return readAlertLog(request.log, format);
+}
+
+/**
+ * POST /api/trades/import
+ * Endpoint for rebuilding an account from exported trades. The body is a CSV
+ * or JSON lines export (`?format=` or detected from its first line), or JSON
+ * with a `trades` array or a `log` string. Each row is validated like a
+ * webhook alert, then the trades are replayed into the account selected by
+ * `?account=` at their recorded price and commission. The account must have
+ * no trades yet, and nothing is imported unless every trade executes.
+ */
+tradesRouter.post(
+  '/import',
+  adminAuth,
+  express.text({ type: ['text/csv', 'text/plain', 'application/x-ndjson'], limit: '10mb' }),
+  (req: Request, res: Response) => {
+    try {
+      const accountId =
+        typeof req.query.account === 'string' ? req.query.account : DEFAULT_ACCOUNT_ID;
+      const account = getAccount(accountId);
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          message: `Account ${accountId} does not exist`,
+        });
+      }
+      if (account.tradingSystem.getPortfolio().trades.length > 0) {
+        return res.status(409).json({
+          success: false,
+          message: `Account ${accountId} already has trades`,
+        });
+      }
+
+      const rows = readImportRows(req.body, req.query.format);
+      const { trades, errors } = parseImportedTrades(rows.records);
+      const allErrors = [...rows.errors, ...errors];
+      if (allErrors.length > 0 || trades.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid trade import payload',
+          errors: allErrors.length > 0 ? allErrors : ['At least one trade is required'],
+        });
+      }
+
+      const { result, errors: executionErrors } = importTrades(accountId, trades);
+      if (!result) {
+        return res.status(422).json({
+          success: false,
+          message: 'Trades could not be imported',
+          errors: executionErrors,
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error importing trades:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  },
+);
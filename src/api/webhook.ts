@@ -1,20 +1,70 @@
-import express, { Request, Response } from 'express';
-import { validateWebhook } from '../utils/validators';
-import { processTradingViewWebhook } from '../services/webhookService';
+import express, { NextFunction, Request, Response } from 'express';
+
+import { setWebhookAuditDetails, webhookAudit } from '../middleware/webhookAudit';
+import { webhookAuth } from '../middleware/webhookAuth';
+import { IAuditResult } from '../models/audit.interface';
+import { IOrder } from '../models/order.interface';
 import { ITradingViewWebhook } from '../models/webhook.interface';
+import { DEFAULT_ACCOUNT_ID, getAccount } from '../services/accountService';
+import { getInstrument } from '../services/instrumentService';
+import { describeTradingPause, findTradingPause } from '../services/tradingControlService';
+import { processTradingViewWebhookOnce } from '../services/webhookService';
+import { IPortfolio } from '../trading/paperTradingSystem';
+import { RiskRejectionError } from '../trading/riskEngine';
+import { logger } from '../utils/logger';
+import { validateWebhook } from '../utils/validators';
+import { normalizeWebhookPayload, parseAlertBody } from '../utils/webhookPayload';
 
 export const webhookRouter = express.Router();
 
+// Record every request, with its body as received, in the audit log
+webhookRouter.use(webhookAudit);
+
+// Parse plaintext alerts first so their passphrase can be checked
+webhookRouter.use((req: Request, _res: Response, next: NextFunction) => {
+  req.body = parseAlertBody(req.body);
+  next();
+});
+
+// Authenticate every webhook before it can trade
+webhookRouter.use(webhookAuth);
+
 /**
- * POST /api/webhook
- * Endpoint for receiving TradingView webhook events
+ * Summarize what a processed alert did for its audit entry
  */
-webhookRouter.post('/', async (req: Request, res: Response) => {
+function summarizeResult(result: IPortfolio | IOrder): IAuditResult {
+  if ('status' in result) {
+    return { orderId: result.id, orderStatus: result.status };
+  }
+  return {
+    balance: Math.round(result.balance * 100) / 100,
+    openPositions: result.positions.length,
+    totalTrades: result.trades.length,
+  };
+}
+
+/**
+ * Validates and processes a webhook for the account named in the route,
+ * falling back to the payload's `account` field
+ */
+async function handleWebhook(req: Request, res: Response): Promise<Response> {
   try {
-    // Validate the webhook payload
-    const validationResult = validateWebhook(req.body);
-    
+    // Normalize TradingView alert formats, then validate the webhook payload
+    const normalized = normalizeWebhookPayload(req.body);
+    const validationResult = normalized.valid
+      ? validateWebhook(normalized.payload, getInstrument)
+      : normalized;
+
+    const alert = (normalized.payload ?? {}) as Partial<Record<string, unknown>>;
+    setWebhookAuditDetails(res, {
+      account:
+        req.params.accountId ?? (typeof alert.account === 'string' ? alert.account : undefined),
+      symbol: typeof alert.symbol === 'string' ? alert.symbol : undefined,
+      strategy: typeof alert.strategy === 'string' ? alert.strategy : undefined,
+    });
+
     if (!validationResult.valid) {
+      setWebhookAuditDetails(res, { errors: validationResult.errors });
       return res.status(400).json({
         success: false,
         message: 'Invalid webhook payload',
@@ -22,20 +72,75 @@ webhookRouter.post('/', async (req: Request, res: Response) => {
       });
     }
 
-    // Process the webhook
-    const webhook = req.body as ITradingViewWebhook;
-    const result = await processTradingViewWebhook(webhook);
+    const webhook = normalized.payload as ITradingViewWebhook;
+    const accountId = req.params.accountId ?? webhook.account;
+
+    if (accountId && !getAccount(accountId)) {
+      return res.status(404).json({
+        success: false,
+        message: `Account ${accountId} does not exist`,
+      });
+    }
+
+    // Paused alerts are audited as ignored and never reach the trading system
+    const pause = findTradingPause(accountId ?? DEFAULT_ACCOUNT_ID, webhook);
+    if (pause) {
+      setWebhookAuditDetails(res, {
+        type: 'WEBHOOK_IGNORED',
+        account: accountId ?? DEFAULT_ACCOUNT_ID,
+      });
+      return res.status(200).json({
+        success: true,
+        message: `Alert ignored: trading is paused ${describeTradingPause(pause)}`,
+        ignored: true,
+        pause,
+      });
+    }
+
+    // Process the webhook, unless it replays an alert that was already processed
+    const { alertId, duplicate, result } = await processTradingViewWebhookOnce(webhook, accountId);
+    setWebhookAuditDetails(res, {
+      type: duplicate ? 'WEBHOOK_DUPLICATE' : 'WEBHOOK_PROCESSED',
+      account: accountId ?? DEFAULT_ACCOUNT_ID,
+      alertId,
+      result: summarizeResult(result),
+    });
 
     return res.status(200).json({
       success: true,
-      message: 'Webhook processed successfully',
+      message: duplicate ? 'Duplicate alert ignored' : 'Webhook processed successfully',
+      alertId,
+      duplicate,
       data: result,
     });
   } catch (error) {
-    console.error('Error processing webhook:', error);
+    // Audit the reason the alert did not trade rather than the generic response
+    setWebhookAuditDetails(res, { message: (error as Error).message });
+    if (error instanceof RiskRejectionError) {
+      return res.status(422).json({
+        success: false,
+        message: error.message,
+        rule: error.rejection.rule,
+        data: error.rejection,
+      });
+    }
+
+    logger.error('Error processing webhook', { error: (error as Error).stack ?? String(error) });
     return res.status(500).json({
       success: false,
       message: 'Internal server error',
     });
   }
-});
\ No newline at end of file
+}
+
+/**
+ * POST /api/webhook
+ * Endpoint for receiving TradingView webhook events
+ */
+webhookRouter.post('/', (req: Request, res: Response) => void handleWebhook(req, res));
+
+/**
+ * POST /api/webhook/:accountId
+ * Endpoint for receiving TradingView webhook events for a specific account
+ */
+webhookRouter.post('/:accountId', (req: Request, res: Response) => void handleWebhook(req, res));
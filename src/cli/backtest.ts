@@ -0,0 +1,106 @@
+import fs from 'fs';
+
+import { IBacktestConfig } from '../models/backtest.interface';
+import { parseBacktestAlerts, runBacktest } from '../services/backtestService';
+import { readAlertLog, TAlertLogFormat } from '../utils/alertLog';
+import { validateBacktestConfig } from '../utils/validators';
+
+const USAGE =
+  'Usage: backtest <alert-log> [--config <config.json>] [--format jsonl|csv] [--output <result.json>]';
+
+/**
+ * Command line options of a backtest run
+ */
+interface IBacktestOptions {
+  logPath: string;
+  configPath?: string;
+  format?: TAlertLogFormat;
+  outputPath?: string;
+}
+
+/**
+ * Parse the command line arguments
+ */
+function parseArguments(args: string[]): IBacktestOptions {
+  const options: Partial<IBacktestOptions> = {};
+
+  for (let i = 0; i < args.length; i += 1) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--config':
+        options.configPath = value;
+        i += 1;
+        break;
+      case '--format':
+        if (value !== 'jsonl' && value !== 'csv') {
+          throw new Error('Format must be one of jsonl or csv');
+        }
+        options.format = value;
+        i += 1;
+        break;
+      case '--output':
+        options.outputPath = value;
+        i += 1;
+        break;
+      default:
+        if (args[i].startsWith('--') || options.logPath) {
+          throw new Error(`Unexpected argument ${args[i]}`);
+        }
+        options.logPath = args[i];
+    }
+  }
+
+  if (!options.logPath) {
+    throw new Error('An alert log is required');
+  }
+  return options as IBacktestOptions;
+}
+
+/**
+ * Create the writer of the backtest result: the output file when one is
+ * given, otherwise stdout, which holds nothing but the result
+ */
+function createResultWriter(outputPath?: string): (text: string) => void {
+  if (outputPath) {
+    return text => fs.writeFileSync(outputPath, text);
+  }
+  return text => {
+    process.stdout.write(text);
+  };
+}
+
+/**
+ * Replay an alert log through a fresh paper trading system and write the
+ * trade history and analytics of the run as JSON
+ */
+function main(): number {
+  let options: IBacktestOptions;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n${USAGE}`);
+    return 2;
+  }
+
+  const backtestConfig = options.configPath
+    ? (JSON.parse(fs.readFileSync(options.configPath, 'utf8')) as IBacktestConfig)
+    : {};
+  const log = readAlertLog(fs.readFileSync(options.logPath, 'utf8'), options.format);
+  const { alerts, errors } = parseBacktestAlerts(log.records);
+
+  const allErrors = [
+    ...(validateBacktestConfig(backtestConfig).errors ?? []),
+    ...log.errors,
+    ...errors,
+  ];
+  if (allErrors.length > 0) {
+    console.error(allErrors.join('\n'));
+    return 1;
+  }
+
+  const result = JSON.stringify(runBacktest(alerts, backtestConfig), null, 2);
+  createResultWriter(options.outputPath)(`${result}\n`);
+  return 0;
+}
+
+process.exitCode = main();
@@ -1,3 +1,12 @@
+import path from 'path';
+
+import { INotificationSinkConfig } from '../notifications/notificationSink';
+import { IFeeModelConfig } from '../trading/feeModel';
+import { TCostBasisMethod } from '../trading/lotLedger';
+import { IPositionSizingConfig } from '../trading/positionSizer';
+import { IRiskLimits } from '../trading/riskEngine';
+import { ISlippageModelConfig } from '../trading/slippageModel';
+
 /**
  * Application configuration
  */
@@ -7,12 +16,106 @@ export interface IConfig {
   logLevel: string;
   initialBalance: number;
   commission: number;
+  marginRequirement: number;
+  costBasisMethod: TCostBasisMethod;
+  feeModel: IFeeModelConfig;
+  slippageModel: ISlippageModelConfig;
+  riskLimits: IRiskLimits;
+  positionSizing: IPositionSizingConfig;
+  storageBackend: 'file' | 'memory';
+  dataDir: string;
+  instrumentsFile: string;
+  snapshotInterval: number;
+  equitySnapshotInterval: number;
+  trustProxy: boolean;
+  webhookPassphrase?: string;
+  webhookHmacSecret?: string;
+  webhookSignatureHeader: string;
+  webhookIpAllowlistEnabled: boolean;
+  webhookIpAllowlist: string[];
+  adminToken?: string;
+  dedupeMaxEntries: number;
+  dedupeWindowMs: number;
+  streamBufferSize: number;
+  streamHeartbeatMs: number;
+  notificationSinks: INotificationSinkConfig[];
+  notificationMaxAttempts: number;
+  notificationBackoffMs: number;
+  notificationTimeoutMs: number;
+  auditMaxEntries: number;
+  auditMaxFileBytes: number;
+  auditMaxFiles: number;
+}
+
+/**
+ * Alert source IPs published by TradingView, the default webhook IP allowlist
+ */
+export const TRADINGVIEW_ALERT_IPS = [
+  '52.89.214.238',
+  '34.212.75.30',
+  '54.218.53.128',
+  '52.32.178.7',
+];
+
+/**
+ * Parse an environment variable holding JSON, falling back when it is unset
+ */
+function parseJsonEnv<T>(name: string, fallback: T): T {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`${name} must be valid JSON`);
+  }
 }
 
+const dataDir = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+// Tests default to in-memory storage so they never touch the data directory
+const defaultStorageBackend = process.env.NODE_ENV === 'test' ? 'memory' : 'file';
+
 export const config: IConfig = {
   port: parseInt(process.env.PORT || '3000', 10),
   environment: process.env.NODE_ENV || 'development',
   logLevel: process.env.LOG_LEVEL || 'info',
   initialBalance: parseFloat(process.env.INITIAL_BALANCE || '10000'),
   commission: parseFloat(process.env.COMMISSION || '0.1'),
-};
\ No newline at end of file
+  marginRequirement: parseFloat(process.env.MARGIN_REQUIREMENT || '100'),
+  costBasisMethod: ['LIFO', 'AVERAGE'].includes(process.env.COST_BASIS_METHOD ?? '')
+    ? (process.env.COST_BASIS_METHOD as TCostBasisMethod)
+    : 'FIFO',
+  feeModel: parseJsonEnv<IFeeModelConfig>('FEE_MODEL', {}),
+  slippageModel: parseJsonEnv<ISlippageModelConfig>('SLIPPAGE_MODEL', { type: 'NONE' }),
+  riskLimits: parseJsonEnv<IRiskLimits>('RISK_LIMITS', {}),
+  positionSizing: parseJsonEnv<IPositionSizingConfig>('POSITION_SIZING', {}),
+  storageBackend:
+    (process.env.STORAGE_BACKEND || defaultStorageBackend) === 'memory' ? 'memory' : 'file',
+  dataDir,
+  instrumentsFile: process.env.INSTRUMENTS_FILE || path.join(dataDir, 'instruments.json'),
+  snapshotInterval: parseInt(process.env.SNAPSHOT_INTERVAL || '100', 10),
+  equitySnapshotInterval: parseInt(process.env.EQUITY_SNAPSHOT_INTERVAL_MS || '60000', 10),
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  webhookPassphrase: process.env.WEBHOOK_PASSPHRASE || undefined,
+  webhookHmacSecret: process.env.WEBHOOK_HMAC_SECRET || undefined,
+  webhookSignatureHeader: process.env.WEBHOOK_SIGNATURE_HEADER || 'x-signature',
+  webhookIpAllowlistEnabled: process.env.WEBHOOK_IP_ALLOWLIST_ENABLED === 'true',
+  webhookIpAllowlist: process.env.WEBHOOK_IP_ALLOWLIST
+    ? process.env.WEBHOOK_IP_ALLOWLIST.split(',').map(ip => ip.trim())
+    : TRADINGVIEW_ALERT_IPS,
+  adminToken: process.env.ADMIN_TOKEN || undefined,
+  dedupeMaxEntries: parseInt(process.env.DEDUPE_MAX_ENTRIES || '10000', 10),
+  dedupeWindowMs: parseInt(process.env.DEDUPE_WINDOW_MS || '86400000', 10),
+  streamBufferSize: parseInt(process.env.STREAM_BUFFER_SIZE || '1000', 10),
+  streamHeartbeatMs: parseInt(process.env.STREAM_HEARTBEAT_MS || '15000', 10),
+  notificationSinks: parseJsonEnv<INotificationSinkConfig[]>('NOTIFICATION_SINKS', []),
+  notificationMaxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '3', 10),
+  notificationBackoffMs: parseInt(process.env.NOTIFICATION_BACKOFF_MS || '1000', 10),
+  notificationTimeoutMs: parseInt(process.env.NOTIFICATION_TIMEOUT_MS || '5000', 10),
+  auditMaxEntries: parseInt(process.env.AUDIT_MAX_ENTRIES || '10000', 10),
+  auditMaxFileBytes: parseInt(process.env.AUDIT_MAX_FILE_BYTES || '5242880', 10),
+  auditMaxFiles: parseInt(process.env.AUDIT_MAX_FILES || '5', 10),
+};
@@ -1,13 +1,63 @@
-import express, { Request, Response } from 'express';
 import path from 'path';
-import { webhookRouter } from './api/webhook';
+
+import express, { Request, Response } from 'express';
+
+import { accountsRouter } from './api/accounts';
+import { analyticsRouter } from './api/analytics';
+import { auditRouter } from './api/audit';
+import { backtestsRouter } from './api/backtests';
+import { controlRouter } from './api/control';
+import { instrumentsRouter } from './api/instruments';
+import { notificationsRouter } from './api/notifications';
+import { ordersRouter } from './api/orders';
+import { portfolioRouter } from './api/portfolio';
+import { positionsRouter } from './api/positions';
+import { pricesRouter } from './api/prices';
+import { streamRouter } from './api/stream';
 import { tradesRouter } from './api/trades';
+import { webhookRouter } from './api/webhook';
 import { config } from './config';
+import {
+  IRawBodyRequest,
+  isWebhookAuthConfigured,
+  webhookAuthOptions,
+} from './middleware/webhookAuth';
+import { loadAccounts } from './services/accountService';
+import { startEquitySampling } from './services/equityService';
+import { startNotifications } from './services/notificationService';
+import { logger } from './utils/logger';
+
+// An unauthenticated webhook lets anyone trade, so production refuses to run one
+if (!isWebhookAuthConfigured(webhookAuthOptions)) {
+  const message =
+    'Webhook authentication is not configured: set WEBHOOK_PASSPHRASE, WEBHOOK_HMAC_SECRET or WEBHOOK_IP_ALLOWLIST_ENABLED';
+  if (config.environment === 'production') {
+    throw new Error(message);
+  }
+  logger.warn(message);
+}
+
+// Without an admin token anyone can trade, move prices or change accounts by hand
+if (!config.adminToken) {
+  const message = 'Admin authentication is not configured: set ADMIN_TOKEN';
+  if (config.environment === 'production') {
+    throw new Error(message);
+  }
+  logger.warn(message);
+}
 
 const app = express();
 
-// Middleware
-app.use(express.json());
+// Use the client IP from X-Forwarded-For when running behind a reverse proxy
+app.set('trust proxy', config.trustProxy);
+
+// Middleware. The raw body is kept for webhook signature checks, and
+// text/plain bodies are accepted for TradingView plaintext alerts.
+const keepRawBody = (req: Request, _res: Response, buf: Buffer): void => {
+  (req as IRawBodyRequest).rawBody = buf;
+};
+app.use(express.json({ verify: keepRawBody }));
+app.use(express.text({ type: 'text/plain', verify: keepRawBody }));
 
 // Serve static files from the public directory
 app.use(express.static(path.join(__dirname, '../public')));
@@ -15,6 +65,27 @@ app.use(express.static(path.join(__dirname, '../public')));
 // Routes
 app.use('/api/webhook', webhookRouter);
 app.use('/api/trades', tradesRouter);
+app.use('/api/orders', ordersRouter);
+app.use('/api/positions', positionsRouter);
+app.use('/api/prices', pricesRouter);
+app.use('/api/accounts', accountsRouter);
+app.use('/api/portfolio', portfolioRouter);
+app.use('/api/analytics', analyticsRouter);
+app.use('/api/instruments', instrumentsRouter);
+app.use('/api/backtests', backtestsRouter);
+app.use('/api/stream', streamRouter);
+app.use('/api/notifications', notificationsRouter);
+app.use('/api/audit', auditRouter);
+app.use('/api/control', controlRouter);
+
+// Restore every account now, so storage problems show at startup
+loadAccounts();
+
+// Push fills and rejections out to the configured notification sinks
+startNotifications();
+
+// Keep the equity curve of idle accounts going
+startEquitySampling();
 
 // Health check endpoint
 app.get('/health', (_req: Request, res: Response) => {
@@ -30,7 +101,11 @@ app.get('/', (_req: Request, res: Response) => {
 const PORT = config.port || 3000;
 app.listen(PORT, () => {
   console.log(`Paper Trading Webhook server running on port ${PORT}`);
+  console.log(
+    `Portfolio storage: ${config.storageBackend}` +
+      (config.storageBackend === 'file' ? ` (${config.dataDir})` : ''),
+  );
   console.log(`Trade History Dashboard available at http://localhost:${PORT}/trade-history.html`);
 });
 
-export default app;
\ No newline at end of file
+export default app;
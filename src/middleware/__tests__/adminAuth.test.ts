@@ -0,0 +1,88 @@
+import express, { Request, Response, Router } from 'express';
+import request from 'supertest';
+
+import { createAdminAuth } from '../adminAuth';
+
+const createApp = (token: string | undefined): express.Express => {
+  const app = express();
+  app.use(express.json());
+  app.post('/api/orders', createAdminAuth(token), (_req: Request, res: Response) =>
+    res.status(200).json({ success: true }),
+  );
+  return app;
+};
+
+describe('adminAuth', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept any request when no admin token is configured', async () => {
+    await request(createApp(undefined)).post('/api/orders').send({}).expect(200);
+  });
+
+  it('should accept the admin token as a bearer token', async () => {
+    await request(createApp('s3cret'))
+      .post('/api/orders')
+      .set('Authorization', 'Bearer s3cret')
+      .send({})
+      .expect(200);
+  });
+
+  it('should reject a wrong or missing admin token with 401', async () => {
+    const app = createApp('s3cret');
+
+    const wrong = await request(app)
+      .post('/api/orders')
+      .set('Authorization', 'Bearer guess')
+      .send({})
+      .expect(401);
+    expect(wrong.body).toEqual({ success: false, message: 'Invalid or missing admin token' });
+
+    await request(app).post('/api/orders').set('Authorization', 's3cret').send({}).expect(401);
+    await request(app).post('/api/orders').send({}).expect(401);
+  });
+
+  it('should guard every route that trades or controls trading', async () => {
+    process.env.ADMIN_TOKEN = 's3cret';
+    const app = express();
+    jest.isolateModules(() => {
+      const routers = {
+        orders: (require('../../api/orders') as { ordersRouter: Router }).ordersRouter,
+        positions: (require('../../api/positions') as { positionsRouter: Router }).positionsRouter,
+        control: (require('../../api/control') as { controlRouter: Router }).controlRouter,
+        prices: (require('../../api/prices') as { pricesRouter: Router }).pricesRouter,
+        trades: (require('../../api/trades') as { tradesRouter: Router }).tradesRouter,
+        accounts: (require('../../api/accounts') as { accountsRouter: Router }).accountsRouter,
+        instruments: (require('../../api/instruments') as { instrumentsRouter: Router })
+          .instrumentsRouter,
+      };
+      app.use(express.json());
+      Object.entries(routers).forEach(([name, router]) => app.use(`/api/${name}`, router));
+    });
+    delete process.env.ADMIN_TOKEN;
+
+    await request(app).post('/api/orders').send({}).expect(401);
+    await request(app).delete('/api/orders').expect(401);
+    await request(app).delete('/api/orders/1').expect(401);
+    await request(app).post('/api/positions/BTCUSDT/close').send({}).expect(401);
+    await request(app).patch('/api/positions/BTCUSDT').send({}).expect(401);
+    await request(app).post('/api/control/pause').send({ scope: 'GLOBAL' }).expect(401);
+    await request(app).post('/api/control/resume').send({ scope: 'GLOBAL' }).expect(401);
+    await request(app).post('/api/control/flatten').send({}).expect(401);
+    await request(app).post('/api/prices').send({ symbol: 'BTCUSDT', price: 1 }).expect(401);
+    await request(app).post('/api/trades/import').send({ trades: [] }).expect(401);
+    await request(app).post('/api/accounts').send({ id: 'intruder' }).expect(401);
+    await request(app).post('/api/accounts/default/risk/reset').expect(401);
+    await request(app).put('/api/instruments/ES').send({ multiplier: 1 }).expect(401);
+    await request(app).delete('/api/instruments/ES').expect(401);
+
+    // Reads stay open
+    await request(app).get('/api/control/pauses').expect(200);
+    await request(app).get('/api/instruments').expect(200);
+  });
+});
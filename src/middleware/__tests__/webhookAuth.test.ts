@@ -0,0 +1,131 @@
+import { createHmac } from 'crypto';
+
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+
+import { getAuditEntries } from '../../services/auditService';
+import {
+  createWebhookAuth,
+  IRawBodyRequest,
+  isWebhookAuthConfigured,
+  IWebhookAuthOptions,
+} from '../webhookAuth';
+
+const createApp = (options: Partial<IWebhookAuthOptions>): express.Express => {
+  const app = express();
+  app.set('trust proxy', true);
+  app.use(
+    express.json({
+      verify: (req, _res, buf) => {
+        (req as IRawBodyRequest).rawBody = buf;
+      },
+    }),
+  );
+  app.post(
+    '/api/webhook',
+    createWebhookAuth({
+      signatureHeader: 'x-signature',
+      ipAllowlistEnabled: false,
+      ipAllowlist: ['52.89.214.238'],
+      ...options,
+    }),
+    (req: Request, res: Response) => res.status(200).json({ body: req.body }),
+  );
+  return app;
+};
+
+describe('webhookAuth', () => {
+  const payload = { symbol: 'BTCUSDT', action: 'BUY' };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept any request when no authentication is configured', async () => {
+    await request(createApp({})).post('/api/webhook').send(payload).expect(200);
+  });
+
+  it('should accept the correct passphrase and strip it from the payload', async () => {
+    const response = await request(createApp({ passphrase: 'secret' }))
+      .post('/api/webhook')
+      .send({ ...payload, passphrase: 'secret' })
+      .expect(200);
+
+    expect(response.body.body).toEqual(payload);
+  });
+
+  it('should reject a wrong or missing passphrase with 401 and audit it', async () => {
+    const app = createApp({ passphrase: 'secret' });
+
+    await request(app)
+      .post('/api/webhook')
+      .send({ ...payload, passphrase: 'guess' })
+      .expect(401);
+    const response = await request(app).post('/api/webhook').send(payload).expect(401);
+
+    expect(response.body.message).toBe('Invalid or missing passphrase');
+    const lastEntry = getAuditEntries().pop();
+    expect(lastEntry).toMatchObject({
+      type: 'WEBHOOK_AUTH_REJECTED',
+      status: 401,
+      path: '/api/webhook',
+    });
+  });
+
+  it('should accept a valid HMAC signature of the raw body', async () => {
+    const body = JSON.stringify(payload);
+    const signature = createHmac('sha256', 'hmac-key').update(body).digest('hex');
+
+    await request(createApp({ hmacSecret: 'hmac-key', passphrase: 'secret' }))
+      .post('/api/webhook')
+      .set('Content-Type', 'application/json')
+      .set('X-Signature', `sha256=${signature}`)
+      .send(body)
+      .expect(200);
+  });
+
+  it('should reject an invalid or missing HMAC signature', async () => {
+    const app = createApp({ hmacSecret: 'hmac-key' });
+
+    const invalid = await request(app)
+      .post('/api/webhook')
+      .set('X-Signature', 'deadbeef')
+      .send(payload)
+      .expect(401);
+    const missing = await request(app).post('/api/webhook').send(payload).expect(401);
+
+    expect(invalid.body.message).toBe('Invalid webhook signature');
+    expect(missing.body.message).toBe('Missing webhook signature');
+  });
+
+  it('should reject unsigned requests from IPs outside the allowlist with 403', async () => {
+    const app = createApp({ ipAllowlistEnabled: true });
+
+    await request(app)
+      .post('/api/webhook')
+      .set('X-Forwarded-For', '52.89.214.238')
+      .send(payload)
+      .expect(200);
+    const response = await request(app)
+      .post('/api/webhook')
+      .set('X-Forwarded-For', '203.0.113.7')
+      .send(payload)
+      .expect(403);
+
+    expect(response.body.message).toBe('Source IP is not allowed');
+    expect(getAuditEntries().pop()?.sourceIp).toBe('203.0.113.7');
+  });
+
+  it('should tell whether any check is configured', () => {
+    const options = { signatureHeader: 'x-signature', ipAllowlistEnabled: false, ipAllowlist: [] };
+
+    expect(isWebhookAuthConfigured(options)).toBe(false);
+    expect(isWebhookAuthConfigured({ ...options, passphrase: 's3cret' })).toBe(true);
+    expect(isWebhookAuthConfigured({ ...options, hmacSecret: 's3cret' })).toBe(true);
+    expect(isWebhookAuthConfigured({ ...options, ipAllowlistEnabled: true })).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { safeEqual } from './webhookAuth';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Creates middleware authenticating requests that change state outside of
+ * alerts, such as manual orders, price ticks, imports, account and instrument
+ * changes, pauses and flattens. They must send the admin token as
+ * `Authorization: Bearer <token>`. Every request is let through when no token
+ * is configured, which the server only allows outside production.
+ * @param token - The admin token, if any
+ * @returns The authentication middleware
+ */
+export function createAdminAuth(token: string | undefined): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!token) {
+      return next();
+    }
+
+    const header = req.get('authorization') ?? '';
+    const match = /^Bearer (.+)$/i.exec(header);
+    if (!match || !safeEqual(match[1], token)) {
+      logger.warn('Rejected unauthenticated admin request', {
+        method: req.method,
+        path: req.originalUrl,
+        sourceIp: req.ip,
+      });
+      res.status(401).json({ success: false, message: 'Invalid or missing admin token' });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Admin authentication configured from the environment
+ */
+export const adminAuth = createAdminAuth(config.adminToken);
@@ -0,0 +1,155 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { IRawBodyRequest, normalizeIp } from './webhookAuth';
+import { IAuditEntry, TAuditEventType } from '../models/audit.interface';
+import { recordAuditEvent } from '../services/auditService';
+
+/**
+ * What a webhook handler learned about a request, recorded with its audit entry
+ */
+export type TWebhookAuditDetails = Partial<
+  Pick<
+    IAuditEntry,
+    'type' | 'message' | 'account' | 'symbol' | 'strategy' | 'alertId' | 'errors' | 'result'
+  >
+>;
+
+/**
+ * Audit state of a request, kept in `res.locals.audit`
+ */
+interface IWebhookAuditState {
+  receivedAt: number;
+  startedAt: bigint; // High-resolution clock, for the latency
+  rawBody?: string;
+  responseMessage?: string; // `message` of the JSON response
+  details: TWebhookAuditDetails;
+  recorded: boolean;
+}
+
+// Raw bodies are cut off at this many characters
+const MAX_RAW_BODY_LENGTH = 10000;
+
+/**
+ * Reads the body as received, before plaintext alerts are parsed and the
+ * passphrase is stripped, with the passphrase redacted
+ */
+function readRawBody(req: Request): string | undefined {
+  const { rawBody } = req as IRawBodyRequest;
+  const body: unknown = req.body;
+  let text: string | undefined;
+  if (rawBody && rawBody.length > 0) {
+    text = rawBody.toString('utf8');
+  } else if (typeof body === 'string') {
+    text = body;
+  } else if (body && typeof body === 'object' && Object.keys(body).length > 0) {
+    text = JSON.stringify(body);
+  }
+
+  return text
+    ?.replace(/("passphrase"\s*:\s*)"(?:[^"\\]|\\.)*"/g, '$1"[REDACTED]"')
+    .replace(/^(\s*passphrase\s*=).*$/gm, '$1[REDACTED]')
+    .slice(0, MAX_RAW_BODY_LENGTH);
+}
+
+/**
+ * Kind of entry for a response status, for handlers that do not say
+ */
+function getEntryType(status: number, details: TWebhookAuditDetails): TAuditEventType {
+  if (details.type) {
+    return details.type;
+  }
+  if (status === 401 || status === 403) {
+    return 'WEBHOOK_AUTH_REJECTED';
+  }
+  if (status === 400 || status === 404) {
+    return 'WEBHOOK_INVALID';
+  }
+  if (status === 422) {
+    return 'WEBHOOK_RISK_REJECTED';
+  }
+  return status < 300 ? 'WEBHOOK_PROCESSED' : 'WEBHOOK_FAILED';
+}
+
+/**
+ * Get the audit state of a request, starting it when the audit middleware did not
+ */
+function getAuditState(req: Request, res: Response): IWebhookAuditState {
+  const locals = res.locals as { audit?: IWebhookAuditState };
+  locals.audit ??= {
+    receivedAt: Date.now(),
+    startedAt: process.hrtime.bigint(),
+    rawBody: readRawBody(req),
+    details: {},
+    recorded: false,
+  };
+  return locals.audit;
+}
+
+/**
+ * Add details to the audit entry of a webhook request
+ * @param res - The response of the request
+ * @param details - What the handler learned: the account, alert, errors or result
+ */
+export function setWebhookAuditDetails(res: Response, details: TWebhookAuditDetails): void {
+  const state = (res.locals as { audit?: IWebhookAuditState }).audit;
+  if (state) {
+    Object.assign(state.details, details);
+  }
+}
+
+/**
+ * Record the audit entry of a webhook request, once
+ * @param req - The request
+ * @param res - Its response
+ * @param status - Status of the response
+ * @param message - Message for responses without one, unless the handler gave a more precise one
+ * @param details - Details to add to those the handler gave
+ */
+export function recordWebhookAudit(
+  req: Request,
+  res: Response,
+  status: number,
+  message: string,
+  details: TWebhookAuditDetails = {},
+): void {
+  const state = getAuditState(req, res);
+  if (state.recorded) {
+    return;
+  }
+  state.recorded = true;
+
+  const merged = { ...state.details, ...details };
+  const latencyNs = process.hrtime.bigint() - state.startedAt;
+  recordAuditEvent({
+    timestamp: state.receivedAt,
+    sourceIp: normalizeIp(req.ip),
+    path: req.originalUrl,
+    status,
+    rawBody: state.rawBody,
+    ...merged,
+    type: getEntryType(status, merged),
+    message: merged.message ?? state.responseMessage ?? message,
+    latencyMs: Math.round(Number(latencyNs) / 1e4) / 100,
+  });
+}
+
+/**
+ * Middleware recording an audit entry for every webhook request when its
+ * response is sent, with the raw body, source IP, outcome and latency.
+ * It must run before the body is parsed into an alert.
+ */
+export function webhookAudit(req: Request, res: Response, next: NextFunction): void {
+  const state = getAuditState(req, res);
+  const json = res.json.bind(res);
+  res.json = (body: unknown): Response => {
+    const { message } = (body ?? {}) as { message?: unknown };
+    state.responseMessage = typeof message === 'string' ? message : undefined;
+    return json(body);
+  };
+
+  // Requests the client aborts close without finishing
+  const record = (): void => recordWebhookAudit(req, res, res.statusCode, res.statusMessage);
+  res.on('finish', record);
+  res.on('close', record);
+  next();
+}
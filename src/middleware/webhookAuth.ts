@@ -0,0 +1,118 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { recordWebhookAudit } from './webhookAudit';
+import { config } from '../config';
+
+/**
+ * Authentication settings for the webhook endpoint. Each check is only
+ * enforced when it is configured.
+ */
+export interface IWebhookAuthOptions {
+  passphrase?: string; // Expected `passphrase` field in the payload
+  hmacSecret?: string; // Secret for HMAC-SHA256 signatures of the raw body
+  signatureHeader: string; // Header carrying the hex signature
+  ipAllowlistEnabled: boolean;
+  ipAllowlist: string[];
+}
+
+/**
+ * Request with the raw body captured by the JSON parser for signature checks
+ */
+export interface IRawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * Compares two strings in constant time
+ */
+export function safeEqual(actual: string, expected: string): boolean {
+  const actualBuffer = Buffer.from(actual);
+  const expectedBuffer = Buffer.from(expected);
+  return (
+    actualBuffer.length === expectedBuffer.length && timingSafeEqual(actualBuffer, expectedBuffer)
+  );
+}
+
+/**
+ * Normalizes IPv4-mapped IPv6 addresses such as ::ffff:52.89.214.238
+ */
+export function normalizeIp(ip: string | undefined): string | undefined {
+  return ip?.replace(/^::ffff:/, '');
+}
+
+/**
+ * Whether any webhook check is configured. Without one, anyone who can reach
+ * the server can trade through the webhook.
+ */
+export function isWebhookAuthConfigured(options: IWebhookAuthOptions): boolean {
+  return Boolean(options.passphrase || options.hmacSecret || options.ipAllowlistEnabled);
+}
+
+/**
+ * Creates middleware authenticating webhook requests.
+ *
+ * Requests signed in the signature header are checked against the HMAC
+ * secret. Unsigned requests, which is all TradingView can send, must come
+ * from an allowlisted IP (when enabled) and carry the configured passphrase.
+ * Rejections get a 401 or 403 response and an audit log entry. The
+ * passphrase is removed from the payload before it reaches the handler.
+ * @param options - Authentication settings
+ * @returns The authentication middleware
+ */
+export function createWebhookAuth(options: IWebhookAuthOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const sourceIp = normalizeIp(req.ip);
+
+    const reject = (status: number, message: string): void => {
+      recordWebhookAudit(req, res, status, message, { type: 'WEBHOOK_AUTH_REJECTED' });
+      res.status(status).json({ success: false, message });
+    };
+
+    const signature = req.get(options.signatureHeader);
+
+    if (signature && options.hmacSecret) {
+      const rawBody = (req as IRawBodyRequest).rawBody ?? Buffer.from('');
+      const expected = createHmac('sha256', options.hmacSecret).update(rawBody).digest('hex');
+      if (!safeEqual(signature.replace(/^sha256=/, ''), expected)) {
+        return reject(401, 'Invalid webhook signature');
+      }
+    } else {
+      if (options.ipAllowlistEnabled && !options.ipAllowlist.includes(sourceIp ?? '')) {
+        return reject(403, 'Source IP is not allowed');
+      }
+
+      if (options.passphrase) {
+        const body = req.body as { passphrase?: unknown } | undefined;
+        const passphrase = typeof body?.passphrase === 'string' ? body.passphrase : '';
+        if (!safeEqual(passphrase, options.passphrase)) {
+          return reject(401, 'Invalid or missing passphrase');
+        }
+      } else if (options.hmacSecret) {
+        return reject(401, 'Missing webhook signature');
+      }
+    }
+
+    if (req.body && typeof req.body === 'object') {
+      delete (req.body as { passphrase?: unknown }).passphrase;
+    }
+    next();
+  };
+}
+
+/**
+ * Webhook authentication settings from the environment
+ */
+export const webhookAuthOptions: IWebhookAuthOptions = {
+  passphrase: config.webhookPassphrase,
+  hmacSecret: config.webhookHmacSecret,
+  signatureHeader: config.webhookSignatureHeader,
+  ipAllowlistEnabled: config.webhookIpAllowlistEnabled,
+  ipAllowlist: config.webhookIpAllowlist,
+};
+
+/**
+ * Webhook authentication configured from the environment
+ */
+export const webhookAuth = createWebhookAuth(webhookAuthOptions);
@@ -0,0 +1,14 @@
+import { TCostBasisMethod } from '../trading/lotLedger';
+import { IRiskLimits } from '../trading/riskEngine';
+
+/**
+ * Parameters for creating a paper trading account
+ */
+export interface IAccountRequest {
+  id: string; // Account identifier used in routes and payloads
+  initialBalance: number; // Starting cash balance
+  commission?: number; // Commission percentage per trade, defaults to the server setting
+  marginRequirement?: number; // Short collateral percentage, defaults to the server setting
+  costBasisMethod?: TCostBasisMethod; // FIFO, LIFO or AVERAGE, defaults to the server setting
+  riskLimits?: IRiskLimits; // Pre-trade risk limits, defaults to the server setting
+}
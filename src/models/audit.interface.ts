@@ -0,0 +1,66 @@
+import { ITimeRange } from '../utils/time';
+
+/**
+ * Kinds of events recorded in the audit log, one for every webhook request
+ * - WEBHOOK_AUTH_REJECTED: failed authentication (401 or 403)
+ * - WEBHOOK_INVALID: a payload that is not a valid alert, or for an unknown account (400 or 404)
+ * - WEBHOOK_PROCESSED: an alert that traded or placed an order
+ * - WEBHOOK_DUPLICATE: a replay of an alert that was already processed
+ * - WEBHOOK_IGNORED: an alert that was not executed because trading is paused
+ * - WEBHOOK_RISK_REJECTED: an alert a risk limit blocked (422)
+ * - WEBHOOK_FAILED: an alert that could not be processed, such as an EXIT without a position
+ */
+export type TAuditEventType =
+  | 'WEBHOOK_AUTH_REJECTED'
+  | 'WEBHOOK_INVALID'
+  | 'WEBHOOK_PROCESSED'
+  | 'WEBHOOK_DUPLICATE'
+  | 'WEBHOOK_IGNORED'
+  | 'WEBHOOK_RISK_REJECTED'
+  | 'WEBHOOK_FAILED';
+
+/**
+ * What a processed alert did: the order it placed, or the portfolio after it traded
+ */
+export interface IAuditResult {
+  orderId?: string;
+  orderStatus?: string;
+  balance?: number;
+  openPositions?: number;
+  totalTrades?: number;
+}
+
+/**
+ * An audit log entry
+ */
+export interface IAuditEntry {
+  id: number; // Increases with every entry, also across restarts
+  timestamp: number; // When the request was received
+  type: TAuditEventType;
+  sourceIp?: string;
+  path: string;
+  status: number; // HTTP status of the response
+  message: string; // Response message, or the error that failed processing
+  rawBody?: string; // Request body as received, passphrase redacted
+  account?: string;
+  symbol?: string;
+  strategy?: string;
+  alertId?: string;
+  errors?: string[]; // Validation errors
+  result?: IAuditResult;
+  latencyMs?: number; // Time from receiving the request to sending the response
+}
+
+/**
+ * Filters of an audit log request
+ */
+export interface IAuditQuery extends ITimeRange {
+  types?: TAuditEventType[];
+  status?: number;
+  account?: string;
+  symbols?: string[];
+  strategy?: string;
+  sourceIp?: string;
+  search?: string; // Text the message, errors or raw body contain
+  limit?: number; // Entries to return, newest first
+}
@@ -0,0 +1,21 @@
+import { IInstrument } from './instrument.interface';
+import { IFeeModelConfig } from '../trading/feeModel';
+import { TCostBasisMethod } from '../trading/lotLedger';
+import { IPositionSizingConfig } from '../trading/positionSizer';
+import { IRiskLimits } from '../trading/riskEngine';
+import { ISlippageModelConfig } from '../trading/slippageModel';
+
+/**
+ * Trading parameters of a backtest. Omitted parameters use the server settings.
+ */
+export interface IBacktestConfig {
+  initialBalance?: number; // Starting cash balance
+  commission?: number; // Commission percentage per trade
+  marginRequirement?: number; // Short collateral percentage
+  costBasisMethod?: TCostBasisMethod; // FIFO, LIFO or AVERAGE
+  feeModel?: IFeeModelConfig; // Fees added to the commission, as FEE_MODEL
+  slippageModel?: ISlippageModelConfig; // As SLIPPAGE_MODEL
+  riskLimits?: IRiskLimits; // As RISK_LIMITS
+  positionSizing?: IPositionSizingConfig; // As POSITION_SIZING
+  instruments?: IInstrument[]; // Instrument rules, default the registered instruments
+}
@@ -0,0 +1,17 @@
+/**
+ * Asset class of an instrument
+ */
+export type TAssetClass = 'STOCK' | 'CRYPTO' | 'FUTURE' | 'FOREX' | 'INDEX';
+
+/**
+ * Trading rules and contract terms of a symbol
+ */
+export interface IInstrument {
+  symbol: string; // Symbol as sent in alerts, e.g. ES1!
+  assetClass: TAssetClass;
+  tickSize?: number; // Prices are multiples of this, default any price
+  lotSize?: number; // Quantities are multiples of this, default any quantity
+  multiplier?: number; // Currency value of one point per unit, default 1
+  quoteCurrency?: string; // Currency prices and P&L are quoted in, default USD
+  description?: string;
+}
@@ -0,0 +1,70 @@
+/**
+ * Order types accepted from webhooks. MARKET orders execute immediately;
+ * the others rest in the order book until a price tick triggers them.
+ */
+export type TOrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+
+/**
+ * Time-in-force for resting orders
+ */
+export type TTimeInForce = 'GTC' | 'DAY' | 'IOC';
+
+/**
+ * Lifecycle status of an order
+ */
+export type TOrderStatus = 'WORKING' | 'FILLED' | 'CANCELLED' | 'EXPIRED' | 'REJECTED';
+
+/**
+ * Where an order came from. Orders from webhook alerts leave it unset.
+ * - manual: placed by hand through the REST API
+ */
+export type TOrderSource = 'manual';
+
+/**
+ * Exit levels attached to an entry and carried by the position it opens.
+ * A trailing stop follows the best price since entry by a percentage or an
+ * absolute offset.
+ */
+export interface IBracketParameters {
+  stopLoss?: number;
+  takeProfit?: number;
+  trailingStopPercent?: number;
+  trailingStopOffset?: number;
+}
+
+/**
+ * Parameters for placing a resting order
+ */
+export interface IOrderRequest extends IBracketParameters {
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  type: Exclude<TOrderType, 'MARKET'>;
+  quantity: number;
+  limitPrice?: number; // Required for LIMIT and STOP_LIMIT
+  stopPrice?: number; // Required for STOP and STOP_LIMIT
+  timeInForce: TTimeInForce;
+  strategy: string;
+  timestamp: number;
+  source?: TOrderSource;
+}
+
+/**
+ * Order interface representing a resting order and its outcome
+ */
+export interface IOrder extends IOrderRequest {
+  id: string;
+  status: TOrderStatus;
+  triggered: boolean; // Whether the stop price of a STOP/STOP_LIMIT order has been hit
+  updatedAt: number;
+  fillPrice?: number;
+  reason?: string; // Why the order was cancelled, expired or rejected
+}
+
+/**
+ * A market price observation for a symbol
+ */
+export interface IPriceTick {
+  symbol: string;
+  price: number;
+  timestamp: number;
+}
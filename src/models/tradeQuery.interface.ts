@@ -0,0 +1,61 @@
+import { TTradeAction } from './webhook.interface';
+import { ITimeRange } from '../utils/time';
+
+/**
+ * Fields the trade history can be sorted by
+ */
+export type TTradeSortField =
+  | 'timestamp'
+  | 'symbol'
+  | 'strategy'
+  | 'price'
+  | 'quantity'
+  | 'commission'
+  | 'realizedPnl';
+
+/**
+ * Direction of a sort
+ */
+export type TSortOrder = 'asc' | 'desc';
+
+/**
+ * Which trades to include in a trade history and its analytics
+ */
+export interface ITradeFilter extends ITimeRange {
+  symbols?: string[];
+  strategies?: string[];
+  action?: TTradeAction;
+  minPnl?: number; // Only closing trades that realized at least this P&L
+  maxPnl?: number; // Only closing trades that realized at most this P&L
+}
+
+/**
+ * The last trade of a page, which the next page continues after
+ */
+export interface ITradeCursor {
+  sortBy: TTradeSortField;
+  order: TSortOrder;
+  value: string | number | null; // Sort value of the trade, null when the trade has none
+  index: number; // Position of the trade in the account's history, to break ties
+}
+
+/**
+ * Filters, sort order and page of a trade history request
+ */
+export interface ITradeHistoryQuery extends ITradeFilter {
+  sortBy?: TTradeSortField; // Default timestamp
+  order?: TSortOrder; // Default asc
+  limit?: number; // Trades per page, default every matching trade
+  offset?: number; // Matching trades to skip
+  cursor?: ITradeCursor; // Continue after this trade instead of skipping by offset
+}
+
+/**
+ * Where a page of trades lies in the matching trades
+ */
+export interface ITradePage {
+  total: number; // Trades matching the filters
+  offset: number; // Matching trades before this page
+  limit?: number;
+  nextCursor?: string; // Cursor of the next page, when there is one
+}
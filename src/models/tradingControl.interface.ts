@@ -0,0 +1,47 @@
+import { IOrder } from './order.interface';
+import { ITrade } from '../trading/paperTradingSystem';
+
+/**
+ * What a trading pause applies to
+ * - GLOBAL: every alert
+ * - ACCOUNT: alerts for the account named by `value`
+ * - STRATEGY: alerts of the strategy named by `value`, in every account
+ * - SYMBOL: alerts for the symbol named by `value`, in every account
+ */
+export type TTradingPauseScope = 'GLOBAL' | 'ACCOUNT' | 'STRATEGY' | 'SYMBOL';
+
+/**
+ * Parameters for pausing or resuming webhook execution
+ */
+export interface ITradingPauseRequest {
+  scope: TTradingPauseScope;
+  value?: string; // Account, strategy or symbol paused; not set for GLOBAL
+  reason?: string; // Why trading was paused, reported with ignored alerts
+}
+
+/**
+ * An active trading pause
+ */
+export interface ITradingPause extends ITradingPauseRequest {
+  pausedAt: number;
+}
+
+/**
+ * Parameters for closing open positions. Every filter that is set must match.
+ */
+export interface IFlattenRequest {
+  account?: string; // Account to flatten, default every account
+  strategy?: string;
+  symbol?: string;
+  price?: number; // Close price when flattening a single symbol
+  prices?: Record<string, number>; // Close price per symbol
+}
+
+/**
+ * Working orders a flatten cancelled and closing trades it executed in one account
+ */
+export interface IFlattenResult {
+  account: string;
+  cancelledOrders: IOrder[];
+  trades: ITrade[];
+}
@@ -1,11 +1,39 @@
+import { IBracketParameters, TOrderType, TTimeInForce } from './order.interface';
+
+/**
+ * Direction of an executed trade
+ */
+export type TTradeAction = 'BUY' | 'SELL';
+
+/**
+ * Action of an alert. EXIT closes the strategy's open positions on the symbol.
+ */
+export type TAlertAction = TTradeAction | 'EXIT';
+
+/**
+ * How the engine sizes an alert that omits its quantity
+ * - EQUITY_PERCENT: `sizeValue` percent of equity
+ * - CASH: `sizeValue` in account currency
+ * - RISK_PERCENT: risk `sizeValue` percent of equity between the price and the stop-loss
+ */
+export type TSizeMode = 'EQUITY_PERCENT' | 'CASH' | 'RISK_PERCENT';
+
 /**
  * Interface for TradingView webhook payloads
  */
-export interface ITradingViewWebhook {
-  symbol: string;           // Trading pair or asset
-  action: 'BUY' | 'SELL';   // Trade direction
-  price: number;            // Entry/exit price
-  quantity: number;         // Trade size
-  strategy: string;         // Strategy identifier
-  timestamp: number;        // Event timestamp
-}
\ No newline at end of file
+export interface ITradingViewWebhook extends IBracketParameters {
+  symbol: string; // Trading pair or asset
+  action: TAlertAction; // Trade direction, or EXIT to close open positions
+  price: number; // Entry/exit price
+  quantity?: number; // Trade size; sized by `sizeMode` when omitted, or the whole position when closing
+  strategy: string; // Strategy identifier
+  timestamp: number; // Event timestamp
+  orderType?: TOrderType; // Defaults to MARKET
+  limitPrice?: number; // Limit price for LIMIT and STOP_LIMIT orders
+  stopPrice?: number; // Trigger price for STOP and STOP_LIMIT orders
+  timeInForce?: TTimeInForce; // Defaults to GTC
+  account?: string; // Paper account to trade in, defaults to the default account
+  sizeMode?: TSizeMode; // How to size an entry without a quantity
+  sizeValue?: number; // Percentage or cash amount for `sizeMode`
+  alertId?: string; // Idempotency key, defaults to a hash of the trade fields
+}
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+
+/**
+ * Kinds of events sinks can subscribe to
+ * - TRADE_EXECUTED: a fill, from an alert, a resting order or an exit level
+ * - ORDER_REJECTED: a resting order that could not be placed or filled
+ * - RISK_REJECTED: an alert or resting order a risk limit blocked
+ * - ALERT_FAILED: an alert that could not be processed, such as an EXIT without a position
+ * - RISK_HALTED: the loss limit halted the account
+ */
+export type TNotificationEventType =
+  | 'TRADE_EXECUTED'
+  | 'ORDER_REJECTED'
+  | 'RISK_REJECTED'
+  | 'ALERT_FAILED'
+  | 'RISK_HALTED';
+
+/**
+ * Available notification sinks
+ * - SLACK: POSTs `{ text, content }` to a Slack or Discord incoming webhook
+ * - WEBHOOK: POSTs the whole notification as JSON
+ * - FILE: appends the notification to a JSON-lines file
+ */
+export type TNotificationSinkType = 'SLACK' | 'WEBHOOK' | 'FILE';
+
+/**
+ * Configuration of a notification sink
+ */
+export interface INotificationSinkConfig {
+  name: string;
+  type: TNotificationSinkType;
+  url?: string; // SLACK and WEBHOOK: the URL notifications are POSTed to
+  headers?: Record<string, string>; // SLACK and WEBHOOK: extra request headers, such as a token
+  path?: string; // FILE: the file notifications are appended to
+  events?: TNotificationEventType[]; // Event types delivered, default every type
+  templates?: Partial<Record<TNotificationEventType, string>>; // Messages with {{field}} placeholders
+  maxAttempts?: number; // Deliveries tried before giving up, default NOTIFICATION_MAX_ATTEMPTS
+  backoffMs?: number; // Wait before the first retry, doubled for each later one
+}
+
+/**
+ * A notification of one account's event
+ */
+export interface INotification {
+  type: TNotificationEventType;
+  account: string;
+  timestamp: number;
+  message: string; // The rendered message template
+  data: object; // The event, such as `{ trade }` or the rejected order
+}
+
+/**
+ * Delivers notifications somewhere outside the server
+ */
+export interface INotificationSink {
+  deliver(notification: INotification): Promise<void>;
+}
+
+/**
+ * POSTs a JSON body, failing on connection errors, timeouts and non-2xx responses
+ */
+function postJson(
+  url: string,
+  body: object,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<void> {
+  const target = new URL(url);
+  const payload = JSON.stringify(body);
+  const transport = target.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      target,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(payload),
+          ...headers,
+        },
+        timeout: timeoutMs,
+      },
+      response => {
+        response.resume();
+        const status = response.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Responded with status ${status}`));
+        }
+      },
+    );
+    request.on('timeout', () => request.destroy(new Error(`No response within ${timeoutMs}ms`)));
+    request.on('error', reject);
+    request.end(payload);
+  });
+}
+
+/**
+ * POSTs every notification as JSON to a URL
+ */
+export class HttpWebhookSink implements INotificationSink {
+  constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string> = {},
+    private readonly timeoutMs = 5000,
+  ) {}
+
+  public deliver(notification: INotification): Promise<void> {
+    return postJson(this.url, this.formatBody(notification), this.headers, this.timeoutMs);
+  }
+
+  /**
+   * Builds the request body of a notification
+   */
+  protected formatBody(notification: INotification): object {
+    return notification;
+  }
+}
+
+/**
+ * POSTs the message of every notification to a Slack or Discord incoming
+ * webhook. Slack reads `text` and Discord reads `content`.
+ */
+export class SlackWebhookSink extends HttpWebhookSink {
+  protected formatBody(notification: INotification): object {
+    return { text: notification.message, content: notification.message };
+  }
+}
+
+/**
+ * Appends every notification to a JSON-lines file
+ */
+export class FileSink implements INotificationSink {
+  constructor(private readonly filePath: string) {}
+
+  public async deliver(notification: INotification): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(notification)}\n`);
+  }
+}
+
+/**
+ * Creates the notification sink described by a configuration
+ * @param config - The sink configuration
+ * @param timeoutMs - How long HTTP sinks wait for a response
+ * @returns The notification sink
+ */
+export function createNotificationSink(
+  config: INotificationSinkConfig,
+  timeoutMs?: number,
+): INotificationSink {
+  switch (config.type) {
+    case 'SLACK':
+      return new SlackWebhookSink(config.url ?? '', config.headers, timeoutMs);
+    case 'WEBHOOK':
+      return new HttpWebhookSink(config.url ?? '', config.headers, timeoutMs);
+    default:
+      return new FileSink(config.path ?? '');
+  }
+}
@@ -0,0 +1,245 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  configureNotificationSinks,
+  getNotificationDeliveries,
+  notify,
+  startNotifications,
+} from '../notificationService';
+import { IStreamEvent, publishEvent, publishTradingEvents } from '../streamService';
+import { PaperTradingSystem } from '../../trading/paperTradingSystem';
+
+interface IReceivedRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+describe('notificationService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: IReceivedRequest[];
+  let statuses: number[];
+  let eventId = 0;
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'notifications-'));
+
+  const trade = {
+    symbol: 'BTCUSDT',
+    action: 'BUY',
+    price: 50000,
+    quantity: 0.1,
+    strategy: 'Trend',
+    commission: 5,
+  };
+  const makeEvent = (type: IStreamEvent['type'], data: object): IStreamEvent => {
+    eventId += 1;
+    return { id: eventId, type, account: 'main', timestamp: Date.UTC(2024, 0, 1), data };
+  };
+
+  beforeAll(done => {
+    // A stand-in for Slack and generic webhook receivers, answering with the queued statuses
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => {
+        body += chunk.toString();
+      });
+      req.on('end', () => {
+        received.push({
+          url: req.url,
+          headers: req.headers,
+          body: JSON.parse(body) as Record<string, unknown>,
+        });
+        res.writeHead(statuses.shift() ?? 200);
+        res.end();
+      });
+    });
+    server.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    configureNotificationSinks([]);
+  });
+
+  afterAll(done => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    server.close(done);
+  });
+
+  it('should deliver fills to Slack, generic webhook and file sinks', async () => {
+    const filePath = path.join(tempDir, 'fills', 'notifications.jsonl');
+    configureNotificationSinks([
+      { name: 'slack', type: 'SLACK', url: `${baseUrl}/slack` },
+      {
+        name: 'journal',
+        type: 'WEBHOOK',
+        url: `${baseUrl}/journal`,
+        headers: { Authorization: 'Bearer token' },
+      },
+      { name: 'file', type: 'FILE', path: filePath },
+    ]);
+
+    const results = await notify(makeEvent('TRADE_EXECUTED', { trade }));
+
+    const message = '[main] BUY 0.1 BTCUSDT at 50000 (Trend)';
+    expect(results.map(({ sink, status }) => [sink, status])).toEqual([
+      ['slack', 'DELIVERED'],
+      ['journal', 'DELIVERED'],
+      ['file', 'DELIVERED'],
+    ]);
+    const slack = received.find(request => request.url === '/slack');
+    const journal = received.find(request => request.url === '/journal');
+    expect(slack?.body).toEqual({ text: message, content: message });
+    expect(journal?.headers.authorization).toBe('Bearer token');
+    expect(journal?.body).toEqual({
+      type: 'TRADE_EXECUTED',
+      account: 'main',
+      timestamp: Date.UTC(2024, 0, 1),
+      message,
+      data: { trade },
+    });
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual(journal?.body);
+  });
+
+  it('should deliver only the subscribed event types, with their templates', async () => {
+    configureNotificationSinks([
+      {
+        name: 'risk',
+        type: 'SLACK',
+        url: `${baseUrl}/risk`,
+        events: ['RISK_REJECTED', 'ALERT_FAILED'],
+        templates: { RISK_REJECTED: '{{symbol}} hit {{rule}} at {{time}}' },
+      },
+    ]);
+    const rejection = { symbol: 'ETHUSDT', action: 'BUY', price: 3000, strategy: 'Trend' };
+
+    await notify(makeEvent('TRADE_EXECUTED', { trade }));
+    await notify(makeEvent('ORDER_REJECTED', { ...rejection, message: 'No fill', orderId: 'o1' }));
+    await notify(
+      makeEvent('ORDER_REJECTED', {
+        ...rejection,
+        message: 'Exposure too high',
+        rule: 'MAX_GROSS_EXPOSURE',
+      }),
+    );
+    await notify(makeEvent('ORDER_REJECTED', { ...rejection, message: 'Insufficient balance' }));
+    await notify(makeEvent('EQUITY_UPDATED', { snapshot: {} }));
+
+    expect(received.map(request => request.body.text)).toEqual([
+      'ETHUSDT hit MAX_GROSS_EXPOSURE at 2024-01-01T00:00:00.000Z',
+      '[main] BUY ETHUSDT alert failed: Insufficient balance',
+    ]);
+  });
+
+  it('should retry failed deliveries and log the outcome', async () => {
+    configureNotificationSinks([
+      { name: 'flaky', type: 'WEBHOOK', url: `${baseUrl}/flaky`, maxAttempts: 3, backoffMs: 1 },
+    ]);
+    statuses = [500, 503];
+
+    const [delivered] = await notify(makeEvent('TRADE_EXECUTED', { trade }));
+    statuses = [500, 500, 500];
+    const [failed] = await notify(makeEvent('TRADE_EXECUTED', { trade }));
+
+    expect(delivered).toMatchObject({ sink: 'flaky', status: 'DELIVERED', attempts: 3 });
+    expect(delivered.error).toBeUndefined();
+    expect(failed).toMatchObject({
+      status: 'FAILED',
+      attempts: 3,
+      error: 'Responded with status 500',
+    });
+    expect(received).toHaveLength(6);
+    expect(getNotificationDeliveries().slice(-2)).toEqual([delivered, failed]);
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail deliveries to unreachable sinks', async () => {
+    const unreachable = http.createServer();
+    await new Promise<void>(resolve => unreachable.listen(0, resolve));
+    const { port } = unreachable.address() as AddressInfo;
+    await new Promise(resolve => unreachable.close(resolve));
+    configureNotificationSinks([
+      {
+        name: 'down',
+        type: 'WEBHOOK',
+        url: `http://127.0.0.1:${port}`,
+        maxAttempts: 2,
+        backoffMs: 1,
+      },
+    ]);
+
+    const [delivery] = await notify(makeEvent('TRADE_EXECUTED', { trade }));
+
+    expect(delivery).toMatchObject({ status: 'FAILED', attempts: 2 });
+    expect(delivery.error).toMatch(/ECONNREFUSED/);
+  });
+
+  it('should notify published stream events once started', async () => {
+    configureNotificationSinks([{ name: 'live', type: 'SLACK', url: `${baseUrl}/live` }]);
+    const stop = startNotifications();
+
+    publishEvent('main', 'TRADE_EXECUTED', { trade });
+    for (let attempt = 0; attempt < 100 && received.length === 0; attempt += 1) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    stop();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].body.text).toBe('[main] BUY 0.1 BTCUSDT at 50000 (Trend)');
+  });
+
+  it('should notify when the loss limit halts an account', async () => {
+    configureNotificationSinks([
+      { name: 'halts', type: 'SLACK', url: `${baseUrl}/halts`, events: ['RISK_HALTED'] },
+    ]);
+    const tradingSystem = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0,
+      riskLimits: { lossLimit: 50 },
+    });
+    const stopPublishing = publishTradingEvents('main', tradingSystem);
+    const stop = startNotifications();
+    const entry = {
+      symbol: 'ETHUSDT',
+      action: 'BUY' as const,
+      price: 100,
+      quantity: 10,
+      strategy: 'Trend',
+      timestamp: 1000,
+    };
+
+    tradingSystem.executeTrade(entry);
+    tradingSystem.executeTrade({ ...entry, action: 'SELL', price: 94, timestamp: 2000 });
+    for (let attempt = 0; attempt < 100 && received.length === 0; attempt += 1) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    stop();
+    stopPublishing();
+
+    expect(received.map(request => request.body.text)).toEqual([
+      '[main] Trading halted: DAILY loss limit reached with realized P&L -60',
+    ]);
+    expect(getNotificationDeliveries().slice(-1)[0]).toMatchObject({
+      type: 'RISK_HALTED',
+      status: 'DELIVERED',
+    });
+  });
+
+  it('should reject invalid sink configurations', () => {
+    expect(() =>
+      configureNotificationSinks([{ name: 'slack', type: 'SLACK', url: 'hooks.slack.com' }]),
+    ).toThrow('Invalid notification sinks: Sink slack: url must be an http or https URL');
+  });
+});
@@ -1,4 +1,5 @@
 import { PaperTradingSystem } from '../../trading/paperTradingSystem';
+import { decodeTradeCursor } from '../../utils/tradeQuery';
 import { getTradeHistory } from '../tradeHistoryService';
 
 // Mock the webhookService to provide a controlled trading system instance
@@ -6,7 +7,7 @@ jest.mock('../webhookService', () => {
   let mockTradingSystem: PaperTradingSystem;
   
   return {
-    getTradingSystemInstance: () => {
+    getTradingSystemInstance: jest.fn(() => {
       if (!mockTradingSystem) {
         mockTradingSystem = new PaperTradingSystem({
           initialBalance: 10000,
@@ -14,7 +15,7 @@ jest.mock('../webhookService', () => {
         });
       }
       return mockTradingSystem;
-    },
+    }),
   };
 });
 
@@ -150,7 +151,7 @@ describe('TradeHistoryService', () => {
     tradingSystem.executeTrade({
       symbol: 'BTCUSDT',
       action: 'BUY',
-      price: 50000,
+      price: 5000,
       quantity: 1,
       strategy: 'TEST',
       timestamp: 1625097600000,
@@ -160,7 +161,7 @@ describe('TradeHistoryService', () => {
     tradingSystem.executeTrade({
       symbol: 'BTCUSDT',
       action: 'SELL',
-      price: 55000,
+      price: 5500,
       quantity: 0.5,
       strategy: 'TEST',
       timestamp: 1625097700000,
@@ -173,4 +174,179 @@ describe('TradeHistoryService', () => {
     expect(history.positions[0].quantity).toBe(0.5); // Remaining position
     expect(history.analytics.winningTrades).toBe(1);
   });
-});
\ No newline at end of file
+
+  it('should calculate profit and loss for short round-trips', () => {
+    // Short 1 ETH and cover lower (win)
+    tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'SELL',
+      price: 3000,
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+    });
+
+    tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'BUY',
+      price: 2500,
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097700000,
+    });
+
+    // Short 1 ETH and cover higher (loss)
+    tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'SELL',
+      price: 2500,
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097800000,
+    });
+
+    tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'BUY',
+      price: 2600,
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097900000,
+    });
+
+    const history = getTradeHistory();
+
+    expect(history.positions).toHaveLength(0);
+    expect(history.analytics.winningTrades).toBe(1);
+    expect(history.analytics.losingTrades).toBe(1);
+    // 500 - 3 - 2.5 commission
+    expect(history.analytics.totalProfit).toBe(494.5);
+    // 100 + 2.5 + 2.6 commission
+    expect(history.analytics.totalLoss).toBe(105.1);
+    expect(history.balance).toBe(10389.4);
+  });
+
+  it('should mark open positions to market and report equity', () => {
+    tradingSystem.executeTrade({
+      symbol: 'BTCUSDT',
+      action: 'BUY',
+      price: 50000,
+      quantity: 0.1,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+    });
+    tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 49000, timestamp: 1625097700000 });
+
+    const history = getTradeHistory();
+
+    expect(history.positions[0].marketPrice).toBe(49000);
+    expect(history.positions[0].unrealizedPnl).toBeCloseTo(-100, 2);
+    expect(history.positions[0].unrealizedPnlPercent).toBeCloseTo(-2, 2);
+    expect(history.balance).toBe(4995);
+    // 4995 cash + 4900 market value
+    expect(history.equity).toBe(9895);
+  });
+
+  it('should calculate drawdown, risk ratios and streaks from round-trips', () => {
+    const { getTradingSystemInstance } = require('../webhookService');
+    tradingSystem = new PaperTradingSystem({ initialBalance: 10000, commission: 0 });
+    (getTradingSystemInstance as jest.Mock).mockReturnValue(tradingSystem);
+
+    // Round-trips of one unit: +10, +20, -30, -10, +50
+    const roundTrips = [
+      { exit: 110, openedAt: 0, closedAt: 1000 },
+      { exit: 120, openedAt: 2000, closedAt: 4000 },
+      { exit: 70, openedAt: 5000, closedAt: 6000 },
+      { exit: 90, openedAt: 7000, closedAt: 8000 },
+      { exit: 150, openedAt: 9000, closedAt: 10000 },
+    ];
+    roundTrips.forEach(({ exit, openedAt, closedAt }) => {
+      const trade = { symbol: 'BTCUSDT', quantity: 1, strategy: 'TEST' };
+      tradingSystem.executeTrade({ ...trade, action: 'BUY', price: 100, timestamp: openedAt });
+      tradingSystem.executeTrade({ ...trade, action: 'SELL', price: exit, timestamp: closedAt });
+    });
+
+    const { analytics } = getTradeHistory();
+
+    // Realized equity peaks at 10030 and falls to 9990
+    expect(analytics.maxDrawdown).toBe(40);
+    expect(analytics.maxDrawdownPercent).toBe(0.4);
+    expect(analytics.maxDrawdownPeak).toBe(4000);
+    expect(analytics.maxDrawdownTrough).toBe(8000);
+    expect(analytics.sharpeRatio).toBe(0.26);
+    expect(analytics.sortinoRatio).toBe(0.57);
+    expect(analytics.profitFactor).toBe(2);
+    expect(analytics.expectancy).toBe(8);
+    expect(analytics.largestWin).toBe(50);
+    expect(analytics.largestLoss).toBe(30);
+    expect(analytics.longestWinningStreak).toBe(2);
+    expect(analytics.longestLosingStreak).toBe(2);
+    expect(analytics.averageHoldingTime).toBe(1200);
+  });
+
+  describe('filters and pages', () => {
+    beforeEach(() => {
+      const roundTrips = [
+        { symbol: 'BTCUSDT', strategy: 'TREND', exit: 110, timestamp: 1000 },
+        { symbol: 'ETHUSDT', strategy: 'TREND', exit: 90, timestamp: 2000 },
+        { symbol: 'BTCUSDT', strategy: 'SWING', exit: 130, timestamp: 3000 },
+      ];
+      roundTrips.forEach(({ symbol, strategy, exit, timestamp }) => {
+        const trade = { symbol, strategy, quantity: 1 };
+        tradingSystem.executeTrade({ ...trade, action: 'BUY', price: 100, timestamp });
+        tradingSystem.executeTrade({
+          ...trade,
+          action: 'SELL',
+          price: exit,
+          timestamp: timestamp + 1,
+        });
+      });
+    });
+
+    it('should filter the trades and calculate analytics over the matching trades', () => {
+      const history = getTradeHistory(undefined, { symbols: ['BTCUSDT'], strategies: ['TREND'] });
+
+      expect(history.trades.map(trade => trade.timestamp)).toEqual([1000, 1001]);
+      expect(history.analytics.totalTrades).toBe(2);
+      expect(history.analytics.netProfitLoss).toBeCloseTo(9.79, 2);
+      expect(history.pagination).toEqual({ total: 2, offset: 0 });
+    });
+
+    it('should filter by action, time range and realized P&L', () => {
+      expect(getTradeHistory(undefined, { action: 'SELL', from: 2000 }).trades).toHaveLength(2);
+
+      const losers = getTradeHistory(undefined, { maxPnl: 0 });
+      expect(losers.trades.map(trade => trade.symbol)).toEqual(['ETHUSDT']);
+      expect(losers.analytics.winRate).toBe(0);
+    });
+
+    it('should sort and page trades by offset', () => {
+      const history = getTradeHistory(undefined, {
+        sortBy: 'price',
+        order: 'desc',
+        limit: 2,
+        offset: 1,
+      });
+
+      expect(history.trades.map(trade => trade.price)).toEqual([110, 100]);
+      expect(history.pagination).toMatchObject({ total: 6, offset: 1, limit: 2 });
+    });
+
+    it('should page trades by cursor without overlaps', () => {
+      const prices: number[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const history = getTradeHistory(undefined, {
+          sortBy: 'price',
+          limit: 4,
+          cursor: cursor ? decodeTradeCursor(cursor) : undefined,
+        });
+        prices.push(...history.trades.map(trade => trade.price));
+        cursor = history.pagination.nextCursor;
+      } while (cursor);
+
+      expect(prices).toEqual([90, 100, 100, 100, 110, 130]);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import fs from 'fs';
+import path from 'path';
+
+import { getInstrumentRegistry } from './instrumentService';
+import { publishTradingEvents } from './streamService';
+import { config } from '../config';
+import { IAccountRequest } from '../models/account.interface';
+import { FilePortfolioStorage } from '../storage/filePortfolioStorage';
+import { InMemoryPortfolioStorage, IPortfolioStorage } from '../storage/portfolioStorage';
+import { ScheduleFeeModel } from '../trading/feeModel';
+import { OrderBook } from '../trading/orderBook';
+import { IPaperTradingConfig, PaperTradingSystem } from '../trading/paperTradingSystem';
+import { createSlippageModel } from '../trading/slippageModel';
+
+/**
+ * Account used when a webhook or request does not name one
+ */
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+/**
+ * Reserved account id selecting the combined view of every account
+ */
+export const AGGREGATE_ACCOUNT_ID = 'all';
+
+/**
+ * Stored configuration of a paper trading account
+ */
+export interface IAccountConfig extends IAccountRequest {
+  createdAt: number;
+}
+
+/**
+ * A paper trading account with its own trading system and order book
+ */
+export interface IAccount {
+  config: IAccountConfig;
+  tradingSystem: PaperTradingSystem;
+  orderBook: OrderBook;
+}
+
+/**
+ * Account configuration together with its current state
+ */
+export interface IAccountSummary extends IAccountConfig {
+  balance: number;
+  openPositions: number;
+  totalTrades: number;
+}
+
+const REGISTRY_FILE = 'accounts.json';
+
+const accounts = new Map<string, IAccount>();
+
+/**
+ * Create the storage backend for an account. The default account keeps the
+ * top level of the data directory; other accounts get their own subdirectory.
+ */
+function createStorage(accountId: string): IPortfolioStorage {
+  if (config.storageBackend === 'memory') {
+    return new InMemoryPortfolioStorage();
+  }
+
+  const dataDir =
+    accountId === DEFAULT_ACCOUNT_ID
+      ? config.dataDir
+      : path.join(config.dataDir, 'accounts', accountId);
+  return new FilePortfolioStorage(dataDir);
+}
+
+/**
+ * Get the trading system configuration of an account, with server settings
+ * for whatever the account does not set
+ * @param accountConfig - The account's configuration
+ * @returns Configuration for the account's paper trading system
+ */
+export function getTradingSystemConfig(accountConfig: IAccountRequest): IPaperTradingConfig {
+  // An account's commission replaces the percentage fee of the configured fee schedule
+  const commission = accountConfig.commission ?? config.feeModel.percent ?? config.commission;
+  return {
+    initialBalance: accountConfig.initialBalance,
+    commission,
+    marginRequirement: accountConfig.marginRequirement ?? config.marginRequirement,
+    snapshotInterval: config.snapshotInterval,
+    equitySnapshotInterval: config.equitySnapshotInterval,
+    costBasisMethod: accountConfig.costBasisMethod ?? config.costBasisMethod,
+    feeModel: new ScheduleFeeModel({ ...config.feeModel, percent: commission }),
+    slippageModel: createSlippageModel(config.slippageModel),
+    riskLimits: accountConfig.riskLimits ?? config.riskLimits,
+    positionSizing: config.positionSizing,
+    instruments: getInstrumentRegistry(),
+  };
+}
+
+/**
+ * Open an account, restoring its portfolio from storage
+ */
+function openAccount(accountConfig: IAccountConfig): IAccount {
+  const tradingSystem = new PaperTradingSystem(
+    getTradingSystemConfig(accountConfig),
+    createStorage(accountConfig.id),
+  );
+
+  publishTradingEvents(accountConfig.id, tradingSystem);
+
+  // Resting orders are filled against the account's own trading system
+  const account = { config: accountConfig, tradingSystem, orderBook: new OrderBook(tradingSystem) };
+  accounts.set(accountConfig.id, account);
+  return account;
+}
+
+/**
+ * Read the configurations of accounts created through the API
+ */
+function loadRegistry(): IAccountConfig[] {
+  const registryPath = path.join(config.dataDir, REGISTRY_FILE);
+  if (config.storageBackend === 'memory' || !fs.existsSync(registryPath)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(registryPath, 'utf8')) as IAccountConfig[];
+}
+
+/**
+ * Write the configurations of accounts created through the API
+ */
+function saveRegistry(): void {
+  if (config.storageBackend === 'memory') {
+    return;
+  }
+
+  const created = [...accounts.values()]
+    .map(account => account.config)
+    .filter(accountConfig => accountConfig.id !== DEFAULT_ACCOUNT_ID);
+  fs.mkdirSync(config.dataDir, { recursive: true });
+  fs.writeFileSync(path.join(config.dataDir, REGISTRY_FILE), JSON.stringify(created, null, 2));
+}
+
+let accountsLoaded = false;
+
+/**
+ * Open the default account and the accounts created through the API, once.
+ * Accounts are opened on first use, so importing this module, as backtests
+ * do, reads and writes no account storage.
+ */
+export function loadAccounts(): void {
+  if (accountsLoaded) {
+    return;
+  }
+  accountsLoaded = true;
+
+  // The default account is configured from the environment
+  openAccount({
+    id: DEFAULT_ACCOUNT_ID,
+    initialBalance: config.initialBalance,
+    marginRequirement: config.marginRequirement,
+    costBasisMethod: config.costBasisMethod,
+    createdAt: 0,
+  });
+  loadRegistry().forEach(openAccount);
+}
+
+/**
+ * Create a new paper trading account
+ * @param request - The account to create
+ * @returns Summary of the new account
+ */
+export function createAccount(request: IAccountRequest): IAccountSummary {
+  loadAccounts();
+  if (accounts.has(request.id) || request.id === AGGREGATE_ACCOUNT_ID) {
+    throw new Error(`Account ${request.id} already exists`);
+  }
+
+  const account = openAccount({ ...request, createdAt: Date.now() });
+  saveRegistry();
+  return summarizeAccount(account);
+}
+
+/**
+ * Get an account by id
+ * @param accountId - The account id
+ * @returns The account, or undefined if it does not exist
+ */
+export function getAccount(accountId: string): IAccount | undefined {
+  loadAccounts();
+  return accounts.get(accountId);
+}
+
+/**
+ * Get an account by id, failing if it does not exist
+ * @param accountId - The account id
+ * @returns The account
+ */
+export function requireAccount(accountId: string): IAccount {
+  const account = getAccount(accountId);
+  if (!account) {
+    throw new Error(`Account ${accountId} does not exist`);
+  }
+  return account;
+}
+
+/**
+ * Get every account in creation order
+ */
+export function getAccounts(): IAccount[] {
+  loadAccounts();
+  return [...accounts.values()];
+}
+
+/**
+ * Summarize an account's configuration and current state
+ */
+export function summarizeAccount(account: IAccount): IAccountSummary {
+  const portfolio = account.tradingSystem.getPortfolio();
+  return {
+    ...account.config,
+    balance: Math.round(portfolio.balance * 100) / 100,
+    openPositions: portfolio.positions.length,
+    totalTrades: portfolio.trades.length,
+  };
+}
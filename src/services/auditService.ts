@@ -0,0 +1,110 @@
+import path from 'path';
+
+import { config } from '../config';
+import { IAuditEntry, IAuditQuery, TAuditEventType } from '../models/audit.interface';
+import { IAuditLogStorage, RotatingFileAuditLog } from '../storage/auditLogStorage';
+import { logger, TLogLevel } from '../utils/logger';
+import { isInTimeRange } from '../utils/time';
+
+/**
+ * A page of audit entries matching a query
+ */
+export interface IAuditPage {
+  total: number; // Entries matching the filters
+  entries: IAuditEntry[]; // The newest matching entries, newest first
+}
+
+// Level each kind of entry is logged at
+const LOG_LEVELS: Record<TAuditEventType, TLogLevel> = {
+  WEBHOOK_AUTH_REJECTED: 'warn',
+  WEBHOOK_INVALID: 'warn',
+  WEBHOOK_PROCESSED: 'info',
+  WEBHOOK_DUPLICATE: 'info',
+  WEBHOOK_IGNORED: 'warn',
+  WEBHOOK_RISK_REJECTED: 'warn',
+  WEBHOOK_FAILED: 'error',
+};
+
+// Entries returned by a query that does not set a limit
+const DEFAULT_QUERY_LIMIT = 100;
+
+// Tests keep the audit log in memory so they never touch the data directory
+const storage: IAuditLogStorage | undefined =
+  config.storageBackend === 'memory'
+    ? undefined
+    : new RotatingFileAuditLog(
+        path.join(config.dataDir, 'audit'),
+        config.auditMaxFileBytes,
+        config.auditMaxFiles,
+      );
+
+const auditEntries: IAuditEntry[] = storage?.load().slice(-config.auditMaxEntries) ?? [];
+let lastEntryId = auditEntries[auditEntries.length - 1]?.id ?? 0;
+
+/**
+ * Record an audit event: append it to the persistent log, keep the most
+ * recent entries in memory for queries and log it at the level of its type
+ * @param entry - The event to record
+ * @returns The recorded entry with its id
+ */
+export function recordAuditEvent(entry: Omit<IAuditEntry, 'id'>): IAuditEntry {
+  lastEntryId += 1;
+  const recorded: IAuditEntry = { id: lastEntryId, ...entry };
+
+  auditEntries.push(recorded);
+  if (auditEntries.length > config.auditMaxEntries) {
+    auditEntries.shift();
+  }
+
+  try {
+    storage?.append(recorded);
+  } catch (error) {
+    // A full disk must not stop webhooks from trading
+    logger.error('Could not persist audit entry', { id: recorded.id, error: String(error) });
+  }
+
+  // The raw body stays in the audit log, out of the console
+  logger[LOG_LEVELS[recorded.type]](recorded.message, {
+    audit: { ...recorded, rawBody: undefined },
+  });
+  return recorded;
+}
+
+/**
+ * Get the recorded audit entries, oldest first
+ */
+export function getAuditEntries(): IAuditEntry[] {
+  return [...auditEntries];
+}
+
+/**
+ * Checks whether an audit entry passes every filter of a query
+ */
+function matchesQuery(entry: IAuditEntry, query: IAuditQuery): boolean {
+  const { types, status, account, symbols, strategy, sourceIp, search } = query;
+  const text = [entry.message, ...(entry.errors ?? []), entry.rawBody ?? ''].join('\n');
+
+  return (
+    (!types || types.includes(entry.type)) &&
+    (status === undefined || entry.status === status) &&
+    (account === undefined || entry.account === account) &&
+    (!symbols || (entry.symbol !== undefined && symbols.includes(entry.symbol))) &&
+    (strategy === undefined || entry.strategy === strategy) &&
+    (sourceIp === undefined || entry.sourceIp === sourceIp) &&
+    (search === undefined || text.toLowerCase().includes(search.toLowerCase())) &&
+    isInTimeRange(entry.timestamp, query)
+  );
+}
+
+/**
+ * Find the audit entries matching a query
+ * @param query - Filters and the number of entries to return
+ * @returns The number of matching entries and the newest of them, newest first
+ */
+export function queryAuditEntries(query: IAuditQuery = {}): IAuditPage {
+  const matching = auditEntries.filter(entry => matchesQuery(entry, query));
+  return {
+    total: matching.length,
+    entries: matching.reverse().slice(0, query.limit ?? DEFAULT_QUERY_LIMIT),
+  };
+}
@@ -0,0 +1,170 @@
+import { getInstrument, getInstruments } from './instrumentService';
+import { buildTradeHistory, ITradeHistoryData } from './tradeHistoryService';
+import { config } from '../config';
+import { IBacktestConfig } from '../models/backtest.interface';
+import { ITradingViewWebhook } from '../models/webhook.interface';
+import { executeAlert, getAlertId } from '../trading/alertExecution';
+import { ScheduleFeeModel } from '../trading/feeModel';
+import { InstrumentRegistry } from '../trading/instrumentRegistry';
+import { OrderBook } from '../trading/orderBook';
+import { PaperTradingSystem } from '../trading/paperTradingSystem';
+import { IRiskRejection } from '../trading/riskEngine';
+import { createSlippageModel } from '../trading/slippageModel';
+import { IAlertLogRecord } from '../utils/alertLog';
+import { validateWebhook } from '../utils/validators';
+import { normalizeWebhookPayload } from '../utils/webhookPayload';
+
+/**
+ * A validated alert to replay, with the log line it was read from
+ */
+export interface IBacktestAlert extends ITradingViewWebhook {
+  line: number;
+}
+
+/**
+ * An alert of the replay that did not trade, and why
+ */
+export interface IBacktestFailure {
+  line: number;
+  alertId: string;
+  message: string;
+}
+
+/**
+ * Outcome of a backtest: the trade history of the run, the parameters it
+ * ran with and the alerts that did not trade
+ */
+export interface IBacktestResult extends ITradeHistoryData {
+  config: Required<IBacktestConfig>;
+  alerts: number; // Alerts replayed, duplicates included
+  duplicates: number; // Alerts skipped because an alert with the same id was replayed before
+  failures: IBacktestFailure[];
+  riskRejections: IRiskRejection[];
+}
+
+// Account name reported for backtest runs
+const BACKTEST_ACCOUNT_ID = 'backtest';
+
+/**
+ * Normalize and validate alert log records into webhook payloads
+ * @param records - Records read from an alert log or sent as JSON
+ * @returns The alerts, and an error for every record that is not a valid alert
+ */
+export function parseBacktestAlerts(records: IAlertLogRecord[]): {
+  alerts: IBacktestAlert[];
+  errors: string[];
+} {
+  const alerts: IBacktestAlert[] = [];
+  const errors: string[] = [];
+
+  records.forEach(({ line, payload }) => {
+    const normalized = normalizeWebhookPayload(payload);
+    const validationResult = normalized.valid
+      ? validateWebhook(normalized.payload, getInstrument)
+      : normalized;
+
+    if (validationResult.valid) {
+      alerts.push({ ...(normalized.payload as ITradingViewWebhook), line });
+    } else {
+      errors.push(...(validationResult.errors ?? []).map(error => `Line ${line}: ${error}`));
+    }
+  });
+
+  return { alerts, errors };
+}
+
+/**
+ * Fill in the server settings for parameters a backtest leaves out. The
+ * registered instruments are copied, so the result records the rules the
+ * run used and a rerun with its config is not changed by later edits.
+ */
+function resolveBacktestConfig(backtestConfig: IBacktestConfig): Required<IBacktestConfig> {
+  const feeModel = backtestConfig.feeModel ?? config.feeModel;
+  return {
+    initialBalance: backtestConfig.initialBalance ?? config.initialBalance,
+    // The commission replaces the percentage fee of the fee schedule when it is set
+    commission: backtestConfig.commission ?? feeModel.percent ?? config.commission,
+    marginRequirement: backtestConfig.marginRequirement ?? config.marginRequirement,
+    costBasisMethod: backtestConfig.costBasisMethod ?? config.costBasisMethod,
+    feeModel,
+    slippageModel: backtestConfig.slippageModel ?? config.slippageModel,
+    riskLimits: backtestConfig.riskLimits ?? config.riskLimits,
+    positionSizing: backtestConfig.positionSizing ?? config.positionSizing,
+    instruments: backtestConfig.instruments ?? getInstruments(),
+  };
+}
+
+/**
+ * Replay recorded alerts through a fresh trading system. Alerts are
+ * replayed in timestamp order, keeping the log order for equal timestamps,
+ * and handled as they are live: duplicates of traded alerts are skipped and
+ * the price of each market alert is applied as a price tick. Nothing depends
+ * on the clock, so the same alerts and parameters always give the same result.
+ * @param alerts - Validated alerts with the log line they were read from
+ * @param backtestConfig - Trading parameters of the run
+ * @returns The trade history and analytics of the run
+ */
+export function runBacktest(
+  alerts: IBacktestAlert[],
+  backtestConfig: IBacktestConfig = {},
+): IBacktestResult {
+  const resolved = resolveBacktestConfig(backtestConfig);
+  const tradingSystem = new PaperTradingSystem({
+    initialBalance: resolved.initialBalance,
+    commission: resolved.commission,
+    marginRequirement: resolved.marginRequirement,
+    equitySnapshotInterval: config.equitySnapshotInterval,
+    costBasisMethod: resolved.costBasisMethod,
+    feeModel: new ScheduleFeeModel({ ...resolved.feeModel, percent: resolved.commission }),
+    slippageModel: createSlippageModel(resolved.slippageModel),
+    riskLimits: resolved.riskLimits,
+    positionSizing: resolved.positionSizing,
+    instruments: new InstrumentRegistry(resolved.instruments),
+  });
+  // Order ids are numbered, so fills record the same order ids on every run
+  let orderCount = 0;
+  const orderBook = new OrderBook(tradingSystem, () => {
+    orderCount += 1;
+    return `order-${orderCount}`;
+  });
+
+  const replayed = new Set<string>();
+  const failures: IBacktestFailure[] = [];
+  let duplicates = 0;
+
+  [...alerts]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(alert => {
+      const alertId = getAlertId(alert);
+      if (replayed.has(alertId)) {
+        duplicates += 1;
+        return;
+      }
+      replayed.add(alertId);
+
+      try {
+        if (executeAlert(tradingSystem, orderBook, alert)) {
+          return;
+        }
+      } catch (error) {
+        // Failed alerts are forgotten, as they are live, so a retry can trade
+        replayed.delete(alertId);
+        failures.push({ line: alert.line, alertId, message: (error as Error).message });
+        return;
+      }
+
+      // As for live alerts, the price of a market alert is the latest market price
+      const tick = { symbol: alert.symbol, price: alert.price, timestamp: alert.timestamp };
+      tradingSystem.processPriceTick(tick);
+      orderBook.processPriceTick(tick);
+    });
+
+  return {
+    ...buildTradeHistory(tradingSystem, BACKTEST_ACCOUNT_ID),
+    config: resolved,
+    alerts: alerts.length,
+    duplicates,
+    failures,
+    riskRejections: tradingSystem.getRiskRejections(),
+  };
+}
@@ -0,0 +1,167 @@
+import { AGGREGATE_ACCOUNT_ID, DEFAULT_ACCOUNT_ID, getAccounts } from './accountService';
+import { getTradingSystemInstance } from './webhookService';
+import { config } from '../config';
+import { IEquitySnapshot } from '../trading/paperTradingSystem';
+import { isInTimeRange, ITimeRange } from '../utils/time';
+
+/**
+ * Open, high, low and close of a value within a time bucket
+ */
+export interface IOhlc {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Equity, cash and exposure within one time bucket of the equity curve
+ */
+export interface IEquityBucket {
+  timestamp: number; // Start of the bucket
+  equity: IOhlc;
+  cash: IOhlc;
+  exposure: IOhlc;
+}
+
+/**
+ * Time range and bucket size of an equity curve request
+ */
+export interface IEquityCurveQuery extends ITimeRange {
+  interval: number; // Bucket size in milliseconds
+}
+
+/**
+ * Bucketed equity curve of an account
+ */
+export interface IEquityCurve {
+  account: string;
+  interval: number;
+  buckets: IEquityBucket[];
+}
+
+/**
+ * Start an OHLC bar at a value
+ */
+function openOhlc(value: number): IOhlc {
+  return { open: value, high: value, low: value, close: value };
+}
+
+/**
+ * Extend an OHLC bar with a later value
+ */
+function updateOhlc(ohlc: IOhlc, value: number): void {
+  ohlc.high = Math.max(ohlc.high, value);
+  ohlc.low = Math.min(ohlc.low, value);
+  ohlc.close = value;
+}
+
+/**
+ * Group time-ordered snapshots into fixed-size buckets. Buckets without
+ * snapshots are left out.
+ */
+function bucketSnapshots(snapshots: IEquitySnapshot[], interval: number): IEquityBucket[] {
+  const buckets: IEquityBucket[] = [];
+
+  snapshots.forEach(snapshot => {
+    const timestamp = Math.floor(snapshot.timestamp / interval) * interval;
+    const bucket = buckets[buckets.length - 1];
+
+    if (bucket && bucket.timestamp === timestamp) {
+      updateOhlc(bucket.equity, snapshot.equity);
+      updateOhlc(bucket.cash, snapshot.cash);
+      updateOhlc(bucket.exposure, snapshot.exposure);
+    } else {
+      buckets.push({
+        timestamp,
+        equity: openOhlc(snapshot.equity),
+        cash: openOhlc(snapshot.cash),
+        exposure: openOhlc(snapshot.exposure),
+      });
+    }
+  });
+
+  return buckets;
+}
+
+/**
+ * Combine the equity histories of every account. Each snapshot of one
+ * account is added to the latest values of the others; accounts count with
+ * their initial balance until their first snapshot.
+ */
+function getAggregateEquityHistory(): IEquitySnapshot[] {
+  const latest = new Map<string, IEquitySnapshot>();
+  const events: { account: string; snapshot: IEquitySnapshot }[] = [];
+
+  getAccounts().forEach(({ config, tradingSystem }) => {
+    const { initialBalance } = config;
+    latest.set(config.id, {
+      timestamp: 0,
+      equity: initialBalance,
+      cash: initialBalance,
+      exposure: 0,
+    });
+    tradingSystem
+      .getEquityHistory()
+      .forEach(snapshot => events.push({ account: config.id, snapshot }));
+  });
+
+  events.sort((a, b) => a.snapshot.timestamp - b.snapshot.timestamp);
+
+  return events.map(({ account, snapshot }) => {
+    latest.set(account, snapshot);
+
+    const combined = { timestamp: snapshot.timestamp, equity: 0, cash: 0, exposure: 0 };
+    latest.forEach(value => {
+      combined.equity += value.equity;
+      combined.cash += value.cash;
+      combined.exposure += value.exposure;
+    });
+    return combined;
+  });
+}
+
+/**
+ * Get the equity curve of an account as OHLC buckets of equity, cash and exposure
+ * @param query - Time range and bucket size
+ * @param accountId - The account to report on, or `all` for every account combined
+ * @returns The bucketed equity curve
+ */
+export function getEquityCurve(
+  query: IEquityCurveQuery,
+  accountId = DEFAULT_ACCOUNT_ID,
+): IEquityCurve {
+  const history =
+    accountId === AGGREGATE_ACCOUNT_ID
+      ? getAggregateEquityHistory()
+      : getTradingSystemInstance(accountId)
+          .getEquityHistory()
+          .sort((a, b) => a.timestamp - b.timestamp);
+
+  const inRange = history.filter(snapshot => isInTimeRange(snapshot.timestamp, query));
+
+  return {
+    account: accountId,
+    interval: query.interval,
+    buckets: bucketSnapshots(inRange, query.interval),
+  };
+}
+
+/**
+ * Sample the equity of every account once per EQUITY_SNAPSHOT_INTERVAL_MS,
+ * so the equity curve keeps going while an account sees no trades or prices
+ * @returns A function that stops sampling
+ */
+export function startEquitySampling(): () => void {
+  if (config.equitySnapshotInterval <= 0) {
+    return () => undefined;
+  }
+
+  const timer = setInterval(
+    () => getAccounts().forEach(account => account.tradingSystem.sampleEquity()),
+    config.equitySnapshotInterval,
+  );
+  // Sampling alone never keeps the process running
+  timer.unref();
+  return () => clearInterval(timer);
+}
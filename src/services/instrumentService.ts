@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+
+import { config } from '../config';
+import { IInstrument } from '../models/instrument.interface';
+import { InstrumentRegistry } from '../trading/instrumentRegistry';
+
+/**
+ * Read the instrument configuration file
+ */
+function loadInstruments(): IInstrument[] {
+  if (config.storageBackend === 'memory' || !fs.existsSync(config.instrumentsFile)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(config.instrumentsFile, 'utf8')) as IInstrument[];
+}
+
+/**
+ * Write the registered instruments back to the configuration file
+ */
+function saveInstruments(): void {
+  if (config.storageBackend === 'memory') {
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(config.instrumentsFile), { recursive: true });
+  fs.writeFileSync(config.instrumentsFile, JSON.stringify(registry.list(), null, 2));
+}
+
+// Every account trades against the same instruments
+const registry = new InstrumentRegistry(loadInstruments());
+
+/**
+ * Get the instrument registry shared by every account
+ * @returns The instrument registry
+ */
+export function getInstrumentRegistry(): InstrumentRegistry {
+  return registry;
+}
+
+/**
+ * Get every registered instrument
+ * @returns The instruments sorted by symbol
+ */
+export function getInstruments(): IInstrument[] {
+  return registry.list();
+}
+
+/**
+ * Get the instrument registered for a symbol
+ * @param symbol - The symbol to look up
+ * @returns The instrument, or undefined if the symbol is not registered
+ */
+export function getInstrument(symbol: string): IInstrument | undefined {
+  return registry.get(symbol);
+}
+
+/**
+ * Register an instrument or replace its terms. Open positions keep the
+ * multiplier they were opened with.
+ * @param instrument - The instrument to save
+ * @returns The saved instrument
+ */
+export function saveInstrument(instrument: IInstrument): IInstrument {
+  registry.set(instrument);
+  saveInstruments();
+  return instrument;
+}
+
+/**
+ * Remove the instrument of a symbol, so it trades as a spot asset again
+ * @param symbol - The symbol to remove
+ * @returns True if an instrument was removed
+ */
+export function deleteInstrument(symbol: string): boolean {
+  const deleted = registry.delete(symbol);
+  if (deleted) {
+    saveInstruments();
+  }
+  return deleted;
+}
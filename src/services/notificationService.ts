@@ -0,0 +1,230 @@
+import { IOrderRejection, IStreamEvent, subscribeToEvents } from './streamService';
+import { config } from '../config';
+import {
+  createNotificationSink,
+  INotification,
+  INotificationSink,
+  INotificationSinkConfig,
+  TNotificationEventType,
+} from '../notifications/notificationSink';
+import { ITrade } from '../trading/paperTradingSystem';
+import { IRiskHalt } from '../trading/riskEngine';
+import { validateNotificationSinks } from '../utils/validators';
+
+/**
+ * Outcome of delivering a notification to one sink
+ */
+export interface INotificationDelivery {
+  id: number;
+  sink: string;
+  type: TNotificationEventType;
+  account: string;
+  eventId: number; // Stream event the notification was made from
+  message: string;
+  status: 'DELIVERED' | 'FAILED';
+  attempts: number;
+  error?: string; // Error of the last attempt, when every attempt failed
+  timestamp: number; // When the delivery finished
+}
+
+/**
+ * A configured sink, with its settings resolved
+ */
+interface IActiveSink {
+  config: INotificationSinkConfig;
+  sink: INotificationSink;
+  maxAttempts: number;
+  backoffMs: number;
+}
+
+// Messages of sinks that do not set their own, with {{field}} placeholders
+const DEFAULT_TEMPLATES: Record<TNotificationEventType, string> = {
+  TRADE_EXECUTED: '[{{account}}] {{action}} {{quantity}} {{symbol}} at {{price}} ({{strategy}})',
+  ORDER_REJECTED: '[{{account}}] Order {{orderId}} to {{action}} {{symbol}} rejected: {{message}}',
+  RISK_REJECTED: '[{{account}}] {{action}} {{symbol}} blocked by {{rule}}: {{message}}',
+  ALERT_FAILED: '[{{account}}] {{action}} {{symbol}} alert failed: {{message}}',
+  RISK_HALTED:
+    '[{{account}}] Trading halted: {{period}} loss limit reached with realized P&L {{realizedPnl}}',
+};
+
+const MAX_DELIVERIES = 1000;
+
+const deliveries: INotificationDelivery[] = [];
+let activeSinks: IActiveSink[] = [];
+let lastDeliveryId = 0;
+
+/**
+ * Replace the notification sinks
+ * @param sinks - The sink configurations
+ */
+export function configureNotificationSinks(sinks: INotificationSinkConfig[]): void {
+  const validationResult = validateNotificationSinks(sinks);
+  if (!validationResult.valid) {
+    throw new Error(`Invalid notification sinks: ${(validationResult.errors ?? []).join('; ')}`);
+  }
+
+  activeSinks = sinks.map(sinkConfig => ({
+    config: sinkConfig,
+    sink: createNotificationSink(sinkConfig, config.notificationTimeoutMs),
+    maxAttempts: sinkConfig.maxAttempts ?? config.notificationMaxAttempts,
+    backoffMs: sinkConfig.backoffMs ?? config.notificationBackoffMs,
+  }));
+}
+
+configureNotificationSinks(config.notificationSinks);
+
+/**
+ * Get the configured sinks
+ */
+export function getNotificationSinks(): INotificationSinkConfig[] {
+  return activeSinks.map(({ config: sinkConfig }) => sinkConfig);
+}
+
+/**
+ * Get the recorded deliveries, oldest first
+ */
+export function getNotificationDeliveries(): INotificationDelivery[] {
+  return [...deliveries];
+}
+
+/**
+ * Get the notification type of a stream event, or undefined when no sink can
+ * subscribe to it. Rejections carry the risk rule when a limit blocked them
+ * and the order id when a resting order was rejected; any other rejection is
+ * an alert that failed.
+ */
+function getNotificationType(event: IStreamEvent): TNotificationEventType | undefined {
+  if (event.type === 'TRADE_EXECUTED' || event.type === 'RISK_HALTED') {
+    return event.type;
+  }
+  if (event.type !== 'ORDER_REJECTED') {
+    return undefined;
+  }
+
+  const rejection = event.data as IOrderRejection;
+  if (rejection.rule) {
+    return 'RISK_REJECTED';
+  }
+  return rejection.orderId ? 'ORDER_REJECTED' : 'ALERT_FAILED';
+}
+
+/**
+ * Fill the {{field}} placeholders of a template. Fields the event does not
+ * have are left empty.
+ */
+function renderTemplate(template: string, fields: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    const value = fields[name];
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * Record a delivery, keeping only the most recent in memory
+ */
+function recordDelivery(delivery: Omit<INotificationDelivery, 'id'>): INotificationDelivery {
+  lastDeliveryId += 1;
+  const recorded = { id: lastDeliveryId, ...delivery };
+  deliveries.push(recorded);
+  if (deliveries.length > MAX_DELIVERIES) {
+    deliveries.shift();
+  }
+  return recorded;
+}
+
+/**
+ * Deliver a notification to a sink, retrying failed attempts with
+ * exponential backoff
+ */
+async function deliver(
+  activeSink: IActiveSink,
+  notification: INotification,
+  eventId: number,
+): Promise<INotificationDelivery> {
+  const { sink, maxAttempts, backoffMs } = activeSink;
+  let error: string | undefined;
+  let attempts = 0;
+
+  while (attempts < maxAttempts) {
+    attempts += 1;
+    try {
+      await sink.deliver(notification);
+      error = undefined;
+      break;
+    } catch (attemptError) {
+      error = attemptError instanceof Error ? attemptError.message : String(attemptError);
+      if (attempts < maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, backoffMs * 2 ** (attempts - 1)));
+      }
+    }
+  }
+
+  if (error !== undefined) {
+    console.error(
+      `Notification ${eventId} could not be delivered to ${activeSink.config.name}: ${error}`,
+    );
+  }
+
+  return recordDelivery({
+    sink: activeSink.config.name,
+    type: notification.type,
+    account: notification.account,
+    eventId,
+    message: notification.message,
+    status: error === undefined ? 'DELIVERED' : 'FAILED',
+    attempts,
+    error,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Notify every sink subscribed to a stream event
+ * @param event - A published stream event
+ * @returns The delivery to each subscribed sink, once every delivery finished
+ */
+export function notify(event: IStreamEvent): Promise<INotificationDelivery[]> {
+  const type = getNotificationType(event);
+  if (!type) {
+    return Promise.resolve([]);
+  }
+
+  const details =
+    event.type === 'TRADE_EXECUTED'
+      ? (event.data as { trade: ITrade }).trade
+      : event.type === 'RISK_HALTED'
+      ? (event.data as { halt: IRiskHalt }).halt
+      : event.data;
+  const fields: Record<string, unknown> = {
+    ...details,
+    type,
+    account: event.account,
+    time: new Date(event.timestamp).toISOString(),
+  };
+
+  return Promise.all(
+    activeSinks
+      .filter(({ config: sinkConfig }) => !sinkConfig.events || sinkConfig.events.includes(type))
+      .map(activeSink => {
+        const template = activeSink.config.templates?.[type] ?? DEFAULT_TEMPLATES[type];
+        const notification: INotification = {
+          type,
+          account: event.account,
+          timestamp: event.timestamp,
+          message: renderTemplate(template, fields),
+          data: event.data,
+        };
+        return deliver(activeSink, notification, event.id);
+      }),
+  );
+}
+
+/**
+ * Send notifications for the trades and rejections published from now on
+ * @returns A function that stops sending them
+ */
+export function startNotifications(): () => void {
+  return subscribeToEvents(event => {
+    void notify(event);
+  });
+}
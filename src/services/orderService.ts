@@ -0,0 +1,88 @@
+import { DEFAULT_ACCOUNT_ID } from './accountService';
+import {
+  getOrderBookInstance,
+  IPriceTickResult,
+  processPriceTick,
+  processTradingViewWebhook,
+} from './webhookService';
+import { IOrder, IPriceTick } from '../models/order.interface';
+import { ITradingViewWebhook } from '../models/webhook.interface';
+import { IPortfolio } from '../trading/paperTradingSystem';
+
+/**
+ * Strategy of manual orders that do not name one
+ */
+export const MANUAL_STRATEGY = 'MANUAL';
+
+/**
+ * An order placed by hand: an alert whose strategy and timestamp may be left out
+ */
+export interface IManualOrderRequest extends Omit<ITradingViewWebhook, 'strategy' | 'timestamp'> {
+  strategy?: string; // Default MANUAL
+  timestamp?: number; // Default now
+}
+
+/**
+ * Feed price ticks to open positions and the order book of every account,
+ * executing any exits and fills they trigger
+ * @param ticks - Price observations in arrival order
+ * @returns Exit trades and orders filled, rejected or expired, per account
+ */
+export function processPriceTicks(ticks: IPriceTick[]): IPriceTickResult[] {
+  const resultsByAccount = new Map<string, IPriceTickResult>();
+
+  ticks
+    .flatMap(tick => processPriceTick(tick))
+    .forEach(result => {
+      const merged = resultsByAccount.get(result.account);
+      if (merged) {
+        merged.exits.push(...result.exits);
+        merged.orders.push(...result.orders);
+      } else {
+        resultsByAccount.set(result.account, result);
+      }
+    });
+
+  return [...resultsByAccount.values()];
+}
+
+/**
+ * Place a manual order in an account. It executes like a webhook alert,
+ * without deduplication or trading pauses, and its trades and resting order
+ * are tagged with `source: 'manual'`.
+ * @param request - The validated order
+ * @param accountId - The account to trade in
+ * @returns The updated portfolio, or the placed order for resting order types
+ */
+export function placeManualOrder(
+  request: IManualOrderRequest,
+  accountId = DEFAULT_ACCOUNT_ID,
+): Promise<IPortfolio | IOrder> {
+  const order: ITradingViewWebhook = {
+    ...request,
+    strategy: request.strategy ?? MANUAL_STRATEGY,
+    timestamp: request.timestamp ?? Date.now(),
+  };
+  return processTradingViewWebhook(order, accountId, { source: 'manual' });
+}
+
+/**
+ * Get the working orders of an account, optionally for a single symbol
+ */
+export function getWorkingOrders(symbol?: string, accountId = DEFAULT_ACCOUNT_ID): IOrder[] {
+  return getOrderBookInstance(accountId).getWorkingOrders(symbol);
+}
+
+/**
+ * Cancel a working order of an account by id
+ */
+export function cancelOrder(orderId: string, accountId = DEFAULT_ACCOUNT_ID): IOrder {
+  return getOrderBookInstance(accountId).cancelOrder(orderId);
+}
+
+/**
+ * Cancel all working orders of an account, optionally for a single symbol
+ */
+export function cancelAllOrders(symbol?: string, accountId = DEFAULT_ACCOUNT_ID): IOrder[] {
+  return getOrderBookInstance(accountId).cancelAll(symbol);
+}
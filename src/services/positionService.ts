@@ -0,0 +1,73 @@
+import { DEFAULT_ACCOUNT_ID } from './accountService';
+import { getTradingSystemInstance } from './webhookService';
+import {
+  IPosition,
+  IPositionValuation,
+  ITrade,
+  TExitLevelChanges,
+} from '../trading/paperTradingSystem';
+
+/**
+ * Get the open positions of an account marked to market, optionally for a single symbol
+ */
+export function getPositions(
+  symbol?: string,
+  accountId = DEFAULT_ACCOUNT_ID,
+): IPositionValuation[] {
+  return getTradingSystemInstance(accountId)
+    .getValuation()
+    .positions.filter(position => !symbol || position.symbol === symbol);
+}
+
+/**
+ * Get an open position of an account by id
+ */
+export function getPosition(
+  positionId: string,
+  accountId = DEFAULT_ACCOUNT_ID,
+): IPosition | undefined {
+  return getTradingSystemInstance(accountId).getPosition(positionId);
+}
+
+/**
+ * Close all or part of a position by hand, at the given price or the last
+ * known price of its symbol. The close is tagged with `source: 'manual'`.
+ * @param positionId - Id of the position
+ * @param request - The close price and quantity, both optional
+ * @param accountId - The account holding the position
+ * @returns The closing trade
+ */
+export function closePosition(
+  positionId: string,
+  request: { price?: number; quantity?: number },
+  accountId = DEFAULT_ACCOUNT_ID,
+): ITrade {
+  const tradingSystem = getTradingSystemInstance(accountId);
+  const position = tradingSystem.getPosition(positionId);
+  if (!position) {
+    throw new Error(`No open position found with id ${positionId}`);
+  }
+
+  // Positions are valued at their entry price until a price of their symbol is seen
+  const price = request.price ?? tradingSystem.getLastPrice(position.symbol) ?? position.entryPrice;
+  return tradingSystem.closePosition(
+    positionId,
+    { price, quantity: request.quantity, timestamp: Date.now() },
+    { source: 'manual' },
+  );
+}
+
+/**
+ * Set or remove the exit levels of a position
+ * @param positionId - Id of the position
+ * @param changes - The levels to set, or null to remove
+ * @param accountId - The account holding the position
+ * @returns The updated position
+ */
+export function updatePositionExitLevels(
+  positionId: string,
+  changes: TExitLevelChanges,
+  accountId = DEFAULT_ACCOUNT_ID,
+): IPosition {
+  return getTradingSystemInstance(accountId).updateExitLevels(positionId, changes, Date.now());
+}
@@ -0,0 +1,125 @@
+import { config } from '../config';
+import { TAlertAction } from '../models/webhook.interface';
+import { PaperTradingSystem, TTradingEvent } from '../trading/paperTradingSystem';
+import { TRiskRule } from '../trading/riskEngine';
+
+/**
+ * Kinds of events pushed to stream subscribers
+ * - TRADE_EXECUTED: `{ trade }`
+ * - ORDER_REJECTED: an alert or resting order that could not trade, see IOrderRejection
+ * - POSITION_CHANGED: `{ symbol, positions }`, the open lots on the symbol marked to market
+ * - EQUITY_UPDATED: `{ snapshot }`, the balance (`cash`), equity and exposure of the account
+ * - RISK_HALTED: `{ halt }`, the loss limit halted the account
+ */
+export type TStreamEventType = TTradingEvent['type'] | 'ORDER_REJECTED';
+
+/**
+ * An alert or resting order that could not trade
+ */
+export interface IOrderRejection {
+  symbol: string;
+  action: TAlertAction;
+  price: number;
+  quantity?: number;
+  strategy: string;
+  message: string;
+  rule?: TRiskRule; // Set when a risk limit blocked the trade
+  orderId?: string; // Set for resting orders
+}
+
+/**
+ * An event of one account, numbered in publication order across accounts
+ */
+export interface IStreamEvent {
+  id: number;
+  type: TStreamEventType;
+  account: string;
+  timestamp: number;
+  data: object;
+}
+
+/**
+ * Receives stream events as they are published
+ */
+export type TStreamListener = (event: IStreamEvent) => void;
+
+const recentEvents: IStreamEvent[] = [];
+const listeners = new Set<TStreamListener>();
+let lastEventId = 0;
+
+/**
+ * Publish an event to every subscriber, keeping the most recent events so
+ * reconnecting subscribers can catch up
+ * @param account - Account the event belongs to
+ * @param type - Kind of event
+ * @param data - Event details
+ * @returns The published event
+ */
+export function publishEvent(account: string, type: TStreamEventType, data: object): IStreamEvent {
+  lastEventId += 1;
+  const event: IStreamEvent = { id: lastEventId, type, account, timestamp: Date.now(), data };
+
+  recentEvents.push(event);
+  if (recentEvents.length > config.streamBufferSize) {
+    recentEvents.shift();
+  }
+
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error in stream listener:', error);
+    }
+  });
+  return event;
+}
+
+/**
+ * Publish an alert or resting order that could not trade
+ * @param account - Account the order was sent to
+ * @param rejection - The order and why it was rejected
+ * @returns The published event
+ */
+export function publishOrderRejection(account: string, rejection: IOrderRejection): IStreamEvent {
+  return publishEvent(account, 'ORDER_REJECTED', rejection);
+}
+
+/**
+ * Subscribe to events published from now on
+ * @param listener - Called with every published event
+ * @returns A function that ends the subscription
+ */
+export function subscribeToEvents(listener: TStreamListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get the events published after an event
+ * @param eventId - Id of the last event the subscriber received
+ * @returns The later events, oldest first, or undefined when some of them are
+ * no longer kept (or the id was never issued) and the subscriber has to reload
+ */
+export function getEventsSince(eventId: number): IStreamEvent[] | undefined {
+  const oldestKept = recentEvents[0]?.id ?? lastEventId + 1;
+  if (eventId > lastEventId || eventId < oldestKept - 1) {
+    return undefined;
+  }
+  return recentEvents.filter(event => event.id > eventId);
+}
+
+/**
+ * Publish the trades, position changes and equity snapshots of an account's
+ * trading system
+ * @param account - The account id
+ * @param tradingSystem - The account's trading system
+ * @returns A function that stops publishing
+ */
+export function publishTradingEvents(
+  account: string,
+  tradingSystem: PaperTradingSystem,
+): () => void {
+  return tradingSystem.subscribe(({ type, ...data }) => publishEvent(account, type, data));
+}
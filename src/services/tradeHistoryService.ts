@@ -1,5 +1,9 @@
-import { ITrade, IPosition } from '../trading/paperTradingSystem';
+import { AGGREGATE_ACCOUNT_ID, DEFAULT_ACCOUNT_ID, getAccounts } from './accountService';
 import { getTradingSystemInstance } from './webhookService';
+import { ITradeFilter, ITradeHistoryQuery, ITradePage } from '../models/tradeQuery.interface';
+import { IPositionValuation, ITrade, PaperTradingSystem } from '../trading/paperTradingSystem';
+import { isInTimeRange, ITimeRange } from '../utils/time';
+import { encodeTradeCursor } from '../utils/tradeQuery';
 
 /**
  * Interface for trade analytics data
@@ -15,129 +19,538 @@ export interface ITradeAnalytics {
   averageWin: number;
   averageLoss: number;
   totalCommission: number;
+  maxDrawdown: number; // Largest peak-to-trough fall of realized equity
+  maxDrawdownPercent: number; // Max drawdown as a percentage of the peak equity
+  maxDrawdownPeak: number | null; // Timestamp of the peak before the max drawdown
+  maxDrawdownTrough: number | null; // Timestamp of the trough of the max drawdown
+  sharpeRatio: number; // Mean over standard deviation of per-round-trip returns, not annualized
+  sortinoRatio: number; // Mean over downside deviation of per-round-trip returns, not annualized
+  profitFactor: number | null; // Total profit over total loss, null without losses
+  expectancy: number; // Average P&L per round-trip
+  largestWin: number;
+  largestLoss: number;
+  longestWinningStreak: number;
+  longestLosingStreak: number;
+  averageHoldingTime: number; // Milliseconds, weighted by the quantity closed
+}
+
+/**
+ * A trade tagged with its account in the aggregate view
+ */
+export interface IAccountTrade extends ITrade {
+  account?: string;
+}
+
+/**
+ * A position marked to market, tagged with its account in the aggregate view
+ */
+export interface IAccountPosition extends IPositionValuation {
+  account?: string;
 }
 
 /**
  * Interface for formatted trade history data
  */
 export interface ITradeHistoryData {
-  trades: ITrade[];
-  positions: IPosition[];
-  analytics: ITradeAnalytics;
+  account: string;
+  trades: IAccountTrade[]; // The requested page of matching trades
+  positions: IAccountPosition[]; // Open positions on the filtered symbols and strategies
+  analytics: ITradeAnalytics; // Calculated over every matching trade
   balance: number;
+  equity: number; // Cash plus the market value of open positions
+  pagination: ITradePage;
 }
 
 /**
- * Calculate profit/loss for a trade pair (buy and sell)
+ * Dimension trades are grouped by in an analytics breakdown
  */
-function calculateTradePnL(buyTrade: ITrade, sellTrade: ITrade): number {
-  const buyValue = buyTrade.price * buyTrade.quantity;
-  const sellValue = sellTrade.price * sellTrade.quantity;
-  return sellValue - buyValue - buyTrade.commission - sellTrade.commission;
+export type TAnalyticsGroupBy = 'strategy' | 'symbol';
+
+/**
+ * Metric groups are ranked by when comparing them
+ */
+export type TAnalyticsRanking = 'netProfitLoss' | 'winRate' | 'maxDrawdown';
+
+/**
+ * Filters and ranking of an analytics breakdown
+ */
+export interface IAnalyticsQuery extends ITimeRange {
+  rankBy?: TAnalyticsRanking;
 }
 
 /**
- * Calculate trade analytics from trade history
+ * Analytics of one strategy or symbol
  */
-function calculateAnalytics(trades: ITrade[]): ITradeAnalytics {
-  if (trades.length === 0) {
-    return {
-      totalTrades: 0,
-      winningTrades: 0,
-      losingTrades: 0,
-      winRate: 0,
-      totalProfit: 0,
-      totalLoss: 0,
-      netProfitLoss: 0,
-      averageWin: 0,
-      averageLoss: 0,
-      totalCommission: 0,
-    };
-  }
+export interface IGroupAnalytics {
+  name: string;
+  rank?: number; // Position when ranked, 1 being the best
+  analytics: ITradeAnalytics;
+}
 
-  // Group trades by symbol and strategy to match buy/sell pairs
-  const tradesBySymbol: { [key: string]: ITrade[] } = {};
-  
-  trades.forEach(trade => {
-    const key = `${trade.symbol}_${trade.strategy}`;
-    if (!tradesBySymbol[key]) {
-      tradesBySymbol[key] = [];
+/**
+ * Analytics broken down by strategy or symbol
+ */
+export interface IAnalyticsBreakdown extends IAnalyticsQuery {
+  account: string;
+  groupBy: TAnalyticsGroupBy;
+  groups: IGroupAnalytics[];
+}
+
+/**
+ * A realized round-trip: a closing trade and the P&L the lot ledger recorded for it
+ */
+interface IRoundTrip {
+  closedAt: number;
+  pnl: number;
+  holdingTime: number; // Milliseconds, weighted by the quantity closed from each lot
+}
+
+/**
+ * Round to cents
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Collect the round-trips realized by closing trades, in the order they were
+ * closed. Closing trades recorded before the lot ledger carry no realized P&L
+ * and are left out.
+ */
+function getRoundTrips(trades: IAccountTrade[]): IRoundTrip[] {
+  return trades
+    .filter(trade => trade.positionEffect === 'CLOSE' && trade.realizedPnl !== undefined)
+    .map(trade => ({
+      closedAt: trade.timestamp,
+      pnl: trade.realizedPnl as number,
+      holdingTime: trade.holdingTime ?? 0,
+    }))
+    .sort((a, b) => a.closedAt - b.closedAt);
+}
+
+/**
+ * Find the largest peak-to-trough fall of the realized equity curve, which
+ * starts at the initial balance and moves by each round-trip's P&L
+ */
+function calculateDrawdown(
+  roundTrips: IRoundTrip[],
+  initialBalance: number,
+): Pick<
+  ITradeAnalytics,
+  'maxDrawdown' | 'maxDrawdownPercent' | 'maxDrawdownPeak' | 'maxDrawdownTrough'
+> {
+  let equity = initialBalance;
+  let peak = { equity, timestamp: null as number | null };
+  const drawdown = {
+    maxDrawdown: 0,
+    maxDrawdownPercent: 0,
+    maxDrawdownPeak: null as number | null,
+    maxDrawdownTrough: null as number | null,
+  };
+
+  roundTrips.forEach(({ closedAt, pnl }) => {
+    equity += pnl;
+    if (equity > peak.equity) {
+      peak = { equity, timestamp: closedAt };
+    } else if (peak.equity - equity > drawdown.maxDrawdown) {
+      drawdown.maxDrawdown = peak.equity - equity;
+      drawdown.maxDrawdownPercent =
+        peak.equity > 0 ? ((peak.equity - equity) / peak.equity) * 100 : 0;
+      drawdown.maxDrawdownPeak = peak.timestamp;
+      drawdown.maxDrawdownTrough = closedAt;
     }
-    tradesBySymbol[key].push(trade);
   });
 
-  let winningTrades = 0;
-  let losingTrades = 0;
-  let totalProfit = 0;
-  let totalLoss = 0;
-  let totalCommission = 0;
-  const completedTradePairs: number[] = [];
-
-  // Calculate P&L for each symbol/strategy combination
-  Object.values(tradesBySymbol).forEach(symbolTrades => {
-    symbolTrades.sort((a, b) => a.timestamp - b.timestamp);
-    
-    let buyQueue: ITrade[] = [];
-    
-    symbolTrades.forEach(trade => {
-      totalCommission += trade.commission;
-      
-      if (trade.action === 'BUY') {
-        buyQueue.push(trade);
-      } else if (trade.action === 'SELL' && buyQueue.length > 0) {
-        // Match with the oldest buy trade (FIFO)
-        const buyTrade = buyQueue.shift()!;
-        const pnl = calculateTradePnL(buyTrade, trade);
-        
-        completedTradePairs.push(pnl);
-        
-        if (pnl > 0) {
-          winningTrades++;
-          totalProfit += pnl;
-        } else if (pnl < 0) {
-          losingTrades++;
-          totalLoss += Math.abs(pnl);
-        }
-      }
-    });
+  return drawdown;
+}
+
+/**
+ * Calculate the Sharpe and Sortino ratios of the returns each round-trip made
+ * on the realized equity before it
+ */
+function calculateRiskRatios(
+  roundTrips: IRoundTrip[],
+  initialBalance: number,
+): Pick<ITradeAnalytics, 'sharpeRatio' | 'sortinoRatio'> {
+  let equity = initialBalance;
+  const returns = roundTrips.map(({ pnl }) => {
+    const tripReturn = equity > 0 ? pnl / equity : 0;
+    equity += pnl;
+    return tripReturn;
   });
 
-  const totalCompletedTrades = completedTradePairs.length;
-  const winRate = totalCompletedTrades > 0 ? (winningTrades / totalCompletedTrades) * 100 : 0;
-  const averageWin = winningTrades > 0 ? totalProfit / winningTrades : 0;
-  const averageLoss = losingTrades > 0 ? totalLoss / losingTrades : 0;
+  if (returns.length < 2) {
+    return { sharpeRatio: 0, sortinoRatio: 0 };
+  }
+
+  const mean = returns.reduce((total, value) => total + value, 0) / returns.length;
+  const variance =
+    returns.reduce((total, value) => total + (value - mean) ** 2, 0) / (returns.length - 1);
+  const downsideVariance =
+    returns.reduce((total, value) => total + Math.min(value, 0) ** 2, 0) / returns.length;
+  const standardDeviation = Math.sqrt(variance);
+  const downsideDeviation = Math.sqrt(downsideVariance);
 
   return {
-    totalTrades: trades.length,
-    winningTrades,
-    losingTrades,
-    winRate: Math.round(winRate * 100) / 100,
-    totalProfit: Math.round(totalProfit * 100) / 100,
-    totalLoss: Math.round(totalLoss * 100) / 100,
-    netProfitLoss: Math.round((totalProfit - totalLoss) * 100) / 100,
-    averageWin: Math.round(averageWin * 100) / 100,
-    averageLoss: Math.round(averageLoss * 100) / 100,
-    totalCommission: Math.round(totalCommission * 100) / 100,
+    sharpeRatio: standardDeviation > 0 ? mean / standardDeviation : 0,
+    sortinoRatio: downsideDeviation > 0 ? mean / downsideDeviation : 0,
   };
 }
 
 /**
- * Get formatted trade history data for visualization
+ * Find the longest runs of consecutive winning and losing round-trips.
+ * A breakeven round-trip ends both runs.
  */
-export function getTradeHistory(): ITradeHistoryData {
-  const tradingSystem = getTradingSystemInstance();
-  const portfolio = tradingSystem.getPortfolio();
-  
-  const analytics = calculateAnalytics(portfolio.trades);
-  
+function calculateStreaks(
+  roundTrips: IRoundTrip[],
+): Pick<ITradeAnalytics, 'longestWinningStreak' | 'longestLosingStreak'> {
+  let winningStreak = 0;
+  let losingStreak = 0;
+  let longestWinningStreak = 0;
+  let longestLosingStreak = 0;
+
+  roundTrips.forEach(({ pnl }) => {
+    winningStreak = pnl > 0 ? winningStreak + 1 : 0;
+    losingStreak = pnl < 0 ? losingStreak + 1 : 0;
+    longestWinningStreak = Math.max(longestWinningStreak, winningStreak);
+    longestLosingStreak = Math.max(longestLosingStreak, losingStreak);
+  });
+
+  return { longestWinningStreak, longestLosingStreak };
+}
+
+/**
+ * Calculate trade analytics from trade history
+ * @param trades - The trades to analyze
+ * @param initialBalance - Starting equity for drawdown and return calculations
+ * @param range - Only analyze trades made and round-trips closed within this range
+ */
+function calculateAnalytics(
+  trades: IAccountTrade[],
+  initialBalance: number,
+  range: ITimeRange = {},
+): ITradeAnalytics {
+  const allRoundTrips = getRoundTrips(trades);
+  const roundTrips = allRoundTrips.filter(({ closedAt }) => isInTimeRange(closedAt, range));
+  const startingEquity = allRoundTrips
+    .filter(({ closedAt }) => range.from !== undefined && closedAt < range.from)
+    .reduce((equity, { pnl }) => equity + pnl, initialBalance);
+  const tradesInRange = trades.filter(({ timestamp }) => isInTimeRange(timestamp, range));
+
+  const wins = roundTrips.filter(({ pnl }) => pnl > 0).map(({ pnl }) => pnl);
+  const losses = roundTrips.filter(({ pnl }) => pnl < 0).map(({ pnl }) => Math.abs(pnl));
+  const totalProfit = wins.reduce((total, pnl) => total + pnl, 0);
+  const totalLoss = losses.reduce((total, pnl) => total + pnl, 0);
+  const totalCommission = tradesInRange.reduce((total, trade) => total + trade.commission, 0);
+
+  const totalCompletedTrades = roundTrips.length;
+  const winRate = totalCompletedTrades > 0 ? (wins.length / totalCompletedTrades) * 100 : 0;
+  const averageWin = wins.length > 0 ? totalProfit / wins.length : 0;
+  const averageLoss = losses.length > 0 ? totalLoss / losses.length : 0;
+  const expectancy =
+    totalCompletedTrades > 0 ? (totalProfit - totalLoss) / totalCompletedTrades : 0;
+  const averageHoldingTime =
+    totalCompletedTrades > 0
+      ? roundTrips.reduce((total, { holdingTime }) => total + holdingTime, 0) / totalCompletedTrades
+      : 0;
+
+  const drawdown = calculateDrawdown(roundTrips, startingEquity);
+  const { sharpeRatio, sortinoRatio } = calculateRiskRatios(roundTrips, startingEquity);
+
   return {
-    trades: portfolio.trades.map(trade => ({
-      ...trade,
-      // Format timestamp for display
-      timestamp: trade.timestamp,
-    })),
-    positions: portfolio.positions,
-    analytics,
+    totalTrades: tradesInRange.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: round(winRate),
+    totalProfit: round(totalProfit),
+    totalLoss: round(totalLoss),
+    netProfitLoss: round(totalProfit - totalLoss),
+    averageWin: round(averageWin),
+    averageLoss: round(averageLoss),
+    totalCommission: round(totalCommission),
+    maxDrawdown: round(drawdown.maxDrawdown),
+    maxDrawdownPercent: round(drawdown.maxDrawdownPercent),
+    maxDrawdownPeak: drawdown.maxDrawdownPeak,
+    maxDrawdownTrough: drawdown.maxDrawdownTrough,
+    sharpeRatio: round(sharpeRatio),
+    sortinoRatio: round(sortinoRatio),
+    profitFactor: totalLoss > 0 ? round(totalProfit / totalLoss) : null,
+    expectancy: round(expectancy),
+    largestWin: round(wins.reduce((largest, pnl) => Math.max(largest, pnl), 0)),
+    largestLoss: round(losses.reduce((largest, pnl) => Math.max(largest, pnl), 0)),
+    ...calculateStreaks(roundTrips),
+    averageHoldingTime: Math.round(averageHoldingTime),
+  };
+}
+
+/**
+ * Checks whether a trade passes the symbol, strategy, action and P&L filters.
+ * The time range is applied separately so analytics can start from the
+ * equity realized before it.
+ */
+function matchesFilter(trade: IAccountTrade, filter: ITradeFilter): boolean {
+  const { symbols, strategies, action, minPnl, maxPnl } = filter;
+  const pnlFiltered = minPnl !== undefined || maxPnl !== undefined;
+
+  return (
+    (!symbols || symbols.includes(trade.symbol)) &&
+    (!strategies || strategies.includes(trade.strategy)) &&
+    (!action || trade.action === action) &&
+    (!pnlFiltered ||
+      (trade.realizedPnl !== undefined &&
+        (minPnl === undefined || trade.realizedPnl >= minPnl) &&
+        (maxPnl === undefined || trade.realizedPnl <= maxPnl)))
+  );
+}
+
+/**
+ * Compare sort values; trades without a value (opening trades by realized
+ * P&L) sort before every other trade
+ */
+function compareSortValues(a: string | number | null, b: string | number | null): number {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Filter, sort and page trades. Trades with equal sort values keep their
+ * order in the history, so pages never overlap or skip trades.
+ * @param trades - Every trade of the history, in the order it was recorded
+ * @param query - Filters, sort order and page
+ * @returns The page of matching trades and where it lies
+ */
+function queryTrades(
+  trades: IAccountTrade[],
+  query: ITradeHistoryQuery,
+): { trades: IAccountTrade[]; pagination: ITradePage } {
+  const { sortBy = 'timestamp', order = 'asc', limit, cursor } = query;
+  const direction = order === 'asc' ? 1 : -1;
+  const sortValue = (trade: IAccountTrade): string | number | null => trade[sortBy] ?? null;
+
+  const matching = trades
+    .map((trade, index) => ({ trade, index, value: sortValue(trade) }))
+    .filter(({ trade }) => matchesFilter(trade, query) && isInTimeRange(trade.timestamp, query))
+    .sort((a, b) => direction * (compareSortValues(a.value, b.value) || a.index - b.index));
+
+  let offset = query.offset ?? 0;
+  if (cursor) {
+    const next = matching.findIndex(
+      entry =>
+        direction * (compareSortValues(entry.value, cursor.value) || entry.index - cursor.index) >
+        0,
+    );
+    offset = next === -1 ? matching.length : next;
+  }
+
+  const end = limit === undefined ? matching.length : offset + limit;
+  const page = matching.slice(offset, end);
+  const last = page[page.length - 1];
+
+  return {
+    trades: page.map(({ trade }) => trade),
+    pagination: {
+      total: matching.length,
+      offset,
+      limit,
+      nextCursor:
+        last && end < matching.length
+          ? encodeTradeCursor({ sortBy, order, value: last.value, index: last.index })
+          : undefined,
+    },
+  };
+}
+
+/**
+ * Build a trade history from every trade and open position of an account or
+ * of every account combined
+ */
+function assembleTradeHistory(
+  account: string,
+  trades: IAccountTrade[],
+  positions: IAccountPosition[],
+  portfolio: { balance: number; equity: number; initialBalance: number },
+  query: ITradeHistoryQuery,
+): ITradeHistoryData {
+  const { symbols, strategies, from, to } = query;
+  const filteredTrades = trades.filter(trade => matchesFilter(trade, query));
+  const page = queryTrades(trades, query);
+
+  return {
+    account,
+    trades: page.trades,
+    positions: positions.filter(
+      position =>
+        (!symbols || symbols.includes(position.symbol)) &&
+        (!strategies || strategies.includes(position.strategy)),
+    ),
+    analytics: calculateAnalytics(filteredTrades, portfolio.initialBalance, { from, to }),
     balance: Math.round(portfolio.balance * 100) / 100,
+    equity: Math.round(portfolio.equity * 100) / 100,
+    pagination: page.pagination,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Get formatted trade history data for visualization
+ * @param accountId - The account to report on, or `all` for every account combined
+ * @param query - Filters, sort order and page of the trades; analytics cover
+ * every matching trade
+ */
+export function getTradeHistory(
+  accountId = DEFAULT_ACCOUNT_ID,
+  query: ITradeHistoryQuery = {},
+): ITradeHistoryData {
+  if (accountId === AGGREGATE_ACCOUNT_ID) {
+    return getAggregateTradeHistory(query);
+  }
+
+  return buildTradeHistory(getTradingSystemInstance(accountId), accountId, query);
+}
+
+/**
+ * Build the trade history of a trading system: its trades, its positions
+ * marked to market and the analytics of its realized round-trips
+ * @param tradingSystem - The trading system to report on
+ * @param account - Name of the account it trades for
+ * @param query - Filters, sort order and page of the trades
+ * @returns The trade history data
+ */
+export function buildTradeHistory(
+  tradingSystem: PaperTradingSystem,
+  account: string,
+  query: ITradeHistoryQuery = {},
+): ITradeHistoryData {
+  const portfolio = tradingSystem.getPortfolio();
+  const valuation = tradingSystem.getValuation();
+
+  return assembleTradeHistory(
+    account,
+    portfolio.trades,
+    valuation.positions,
+    {
+      balance: portfolio.balance,
+      equity: valuation.equity,
+      initialBalance: tradingSystem.getInitialBalance(),
+    },
+    query,
+  );
+}
+
+/**
+ * Combine every account into one trade history. Trades and positions are
+ * tagged with their account.
+ */
+function getAggregateTradeHistory(query: ITradeHistoryQuery): ITradeHistoryData {
+  const trades: IAccountTrade[] = [];
+  const positions: IAccountPosition[] = [];
+  let balance = 0;
+  let equity = 0;
+  let initialBalance = 0;
+
+  getAccounts().forEach(({ config, tradingSystem }) => {
+    const portfolio = tradingSystem.getPortfolio();
+    const valuation = tradingSystem.getValuation();
+    trades.push(...portfolio.trades.map(trade => ({ ...trade, account: config.id })));
+    positions.push(...valuation.positions.map(position => ({ ...position, account: config.id })));
+    balance += portfolio.balance;
+    equity += valuation.equity;
+    initialBalance += config.initialBalance;
+  });
+
+  trades.sort((a, b) => a.timestamp - b.timestamp);
+
+  return assembleTradeHistory(
+    AGGREGATE_ACCOUNT_ID,
+    trades,
+    positions,
+    { balance, equity, initialBalance },
+    query,
+  );
+}
+
+/**
+ * Get the trades of an account, or of every account tagged with their account,
+ * together with the balance they started from
+ */
+function getAccountTrades(accountId: string): {
+  trades: IAccountTrade[];
+  initialBalance: number;
+} {
+  if (accountId !== AGGREGATE_ACCOUNT_ID) {
+    const tradingSystem = getTradingSystemInstance(accountId);
+    return {
+      trades: tradingSystem.getPortfolio().trades,
+      initialBalance: tradingSystem.getInitialBalance(),
+    };
+  }
+
+  const trades: IAccountTrade[] = [];
+  let initialBalance = 0;
+  getAccounts().forEach(({ config, tradingSystem }) => {
+    trades.push(
+      ...tradingSystem.getPortfolio().trades.map(trade => ({ ...trade, account: config.id })),
+    );
+    initialBalance += config.initialBalance;
+  });
+  trades.sort((a, b) => a.timestamp - b.timestamp);
+  return { trades, initialBalance };
+}
+
+/**
+ * Get the trades of a trade history request without building its analytics,
+ * such as for an export
+ * @param accountId - The account to report on, or `all` for every account combined
+ * @param query - Filters, sort order and page of the trades
+ * @returns The matching trades, sorted and paged
+ */
+export function getMatchingTrades(
+  accountId = DEFAULT_ACCOUNT_ID,
+  query: ITradeHistoryQuery = {},
+): IAccountTrade[] {
+  return queryTrades(getAccountTrades(accountId).trades, query).trades;
+}
+
+/**
+ * Get a full analytics block for each strategy or symbol. Groups are sorted
+ * by name, or ranked best first by net P&L, win rate or (smallest) drawdown.
+ * @param groupBy - Whether to group trades by strategy or by symbol
+ * @param query - Time range and ranking
+ * @param accountId - The account to report on, or `all` for every account combined
+ * @returns The analytics of each group
+ */
+export function getAnalyticsBreakdown(
+  groupBy: TAnalyticsGroupBy,
+  query: IAnalyticsQuery = {},
+  accountId = DEFAULT_ACCOUNT_ID,
+): IAnalyticsBreakdown {
+  const { trades, initialBalance } = getAccountTrades(accountId);
+
+  const tradesByGroup = new Map<string, IAccountTrade[]>();
+  trades.forEach(trade => {
+    const groupTrades = tradesByGroup.get(trade[groupBy]) ?? [];
+    groupTrades.push(trade);
+    tradesByGroup.set(trade[groupBy], groupTrades);
+  });
+
+  const groups: IGroupAnalytics[] = [...tradesByGroup.entries()]
+    .map(([name, groupTrades]) => ({
+      name,
+      analytics: calculateAnalytics(groupTrades, initialBalance, query),
+    }))
+    .filter(({ analytics }) => analytics.totalTrades > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const { rankBy } = query;
+  if (rankBy) {
+    // A smaller drawdown ranks higher; larger P&L and win rates rank higher
+    const direction = rankBy === 'maxDrawdown' ? 1 : -1;
+    groups.sort((a, b) => direction * (a.analytics[rankBy] - b.analytics[rankBy]));
+    groups.forEach((group, index) => {
+      group.rank = index + 1;
+    });
+  }
+
+  return { account: accountId, groupBy, ...query, groups };
+}
@@ -0,0 +1,180 @@
+import { getTradingSystemConfig, requireAccount } from './accountService';
+import { getInstrument } from './instrumentService';
+import { ITradingViewWebhook } from '../models/webhook.interface';
+import {
+  IExecutionOptions,
+  ITradeRequest,
+  PaperTradingSystem,
+} from '../trading/paperTradingSystem';
+import { IAlertLogRecord } from '../utils/alertLog';
+import { validateWebhook } from '../utils/validators';
+import { normalizeWebhookPayload } from '../utils/webhookPayload';
+
+/**
+ * A validated trade to import, with the line it was read from
+ */
+export interface IImportedTrade {
+  line: number;
+  trade: ITradeRequest;
+  options: IExecutionOptions; // The recorded commission, liquidity, order id and source
+}
+
+/**
+ * Outcome of an import: the trades replayed and the portfolio they rebuilt
+ */
+export interface ITradeImportResult {
+  account: string;
+  imported: number;
+  balance: number;
+  equity: number;
+  openPositions: number;
+}
+
+/**
+ * Read the commission, liquidity, order id and source a trade was recorded with
+ */
+function readExecutionOptions(row: Record<string, unknown>): {
+  options: IExecutionOptions;
+  errors: string[];
+} {
+  const options: IExecutionOptions = {};
+  const errors: string[] = [];
+
+  if (row.commission !== undefined) {
+    const commission = typeof row.commission === 'string' ? Number(row.commission) : row.commission;
+    if (typeof commission !== 'number' || !Number.isFinite(commission) || commission < 0) {
+      errors.push('Commission must be a non-negative number');
+    } else {
+      options.commission = commission;
+    }
+  }
+  if (row.liquidity !== undefined) {
+    if (row.liquidity === 'MAKER' || row.liquidity === 'TAKER') {
+      options.liquidity = row.liquidity;
+    } else {
+      errors.push('Liquidity must be one of MAKER or TAKER');
+    }
+  }
+  if (typeof row.orderId === 'string') {
+    options.orderId = row.orderId;
+  }
+  if (row.source !== undefined) {
+    if (row.source === 'manual') {
+      options.source = row.source;
+    } else {
+      errors.push('Source must be manual when set');
+    }
+  }
+
+  return { options, errors };
+}
+
+/**
+ * Normalize and validate exported trade rows, with the same rules as webhook
+ * alerts. Rows must be executed BUY or SELL trades with a quantity: EXIT
+ * alerts and resting orders have no fill to import.
+ * @param records - Rows read from an export or sent as JSON
+ * @returns The trades, and an error for every row that is not a valid trade
+ */
+export function parseImportedTrades(records: IAlertLogRecord[]): {
+  trades: IImportedTrade[];
+  errors: string[];
+} {
+  const trades: IImportedTrade[] = [];
+  const errors: string[] = [];
+
+  records.forEach(({ line, payload }) => {
+    const normalized = normalizeWebhookPayload(payload);
+    const validationResult = normalized.valid
+      ? validateWebhook(normalized.payload, getInstrument)
+      : normalized;
+    const rowErrors = [...(validationResult.errors ?? [])];
+
+    if (validationResult.valid) {
+      const row = normalized.payload as ITradingViewWebhook & Record<string, unknown>;
+      if (row.action === 'EXIT') {
+        rowErrors.push('Action must be one of BUY or SELL');
+      }
+      if (row.quantity === undefined) {
+        rowErrors.push('Quantity is required');
+      }
+      if ((row.orderType ?? 'MARKET') !== 'MARKET') {
+        rowErrors.push('Order type must be MARKET');
+      }
+
+      const { options, errors: optionErrors } = readExecutionOptions(row);
+      rowErrors.push(...optionErrors);
+      if (rowErrors.length === 0) {
+        const { symbol, action, price, quantity, strategy, timestamp } = row;
+        trades.push({
+          line,
+          trade: {
+            symbol,
+            action: action as ITradeRequest['action'],
+            price,
+            quantity,
+            strategy,
+            timestamp,
+          },
+          options,
+        });
+      }
+    }
+
+    errors.push(...rowErrors.map(error => `Line ${line}: ${error}`));
+  });
+
+  return { trades, errors };
+}
+
+/**
+ * Rebuild an account's positions and balance from imported trades. Trades
+ * are replayed in timestamp order, keeping the row order for equal
+ * timestamps, at their recorded price and commission, on a scratch trading
+ * system with the account's settings. Nothing is imported unless every
+ * trade executes; the account then adopts the scratch system's state and
+ * saves it once, without reporting the trades to the stream or notifications.
+ * @param accountId - The account to import into; it must have no trades yet
+ * @param trades - Validated trades with the line they were read from
+ * @returns The import result, or an error for every trade that could not execute
+ */
+export function importTrades(
+  accountId: string,
+  trades: IImportedTrade[],
+): { result?: ITradeImportResult; errors: string[] } {
+  const account = requireAccount(accountId);
+  if (account.tradingSystem.getPortfolio().trades.length > 0) {
+    throw new Error(`Account ${accountId} already has trades`);
+  }
+
+  const ordered = [...trades].sort((a, b) => a.trade.timestamp - b.trade.timestamp);
+  const scratch = new PaperTradingSystem(getTradingSystemConfig(account.config));
+  const errors: string[] = [];
+  ordered.forEach(({ line, trade, options }) => {
+    try {
+      scratch.executeTrade(trade, options);
+    } catch (error) {
+      errors.push(`Line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  // The account takes the scratch system's state as is, so the historical
+  // trades are neither executed again nor reported as new
+  const { tradingSystem } = account;
+  tradingSystem.adoptState(scratch);
+  const valuation = tradingSystem.getValuation();
+
+  return {
+    result: {
+      account: accountId,
+      imported: ordered.length,
+      balance: Math.round(valuation.balance * 100) / 100,
+      equity: Math.round(valuation.equity * 100) / 100,
+      openPositions: valuation.positions.length,
+    },
+    errors,
+  };
+}
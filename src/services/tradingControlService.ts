@@ -0,0 +1,250 @@
+import fs from 'fs';
+import path from 'path';
+
+import { getAccounts, requireAccount } from './accountService';
+import { config } from '../config';
+import {
+  IFlattenRequest,
+  IFlattenResult,
+  ITradingPause,
+  ITradingPauseRequest,
+} from '../models/tradingControl.interface';
+import { ITrade, PaperTradingSystem, TPositionSide } from '../trading/paperTradingSystem';
+import { logger } from '../utils/logger';
+
+/**
+ * Open positions of one symbol, strategy and side, closed together
+ */
+interface IPositionGroup {
+  symbol: string;
+  strategy: string;
+  side: TPositionSide;
+  quantity: number;
+  entryPrice: number; // Of the first lot, the close price when no price is known
+}
+
+const PAUSES_FILE = 'trading-pauses.json';
+
+/**
+ * Read the pauses in force when the server last stopped
+ */
+function loadPauses(): ITradingPause[] {
+  const pausesPath = path.join(config.dataDir, PAUSES_FILE);
+  if (config.storageBackend === 'memory' || !fs.existsSync(pausesPath)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(pausesPath, 'utf8')) as ITradingPause[];
+}
+
+/**
+ * Write the active pauses, so a restart does not resume paused trading
+ */
+function savePauses(): void {
+  if (config.storageBackend === 'memory') {
+    return;
+  }
+
+  fs.mkdirSync(config.dataDir, { recursive: true });
+  fs.writeFileSync(path.join(config.dataDir, PAUSES_FILE), JSON.stringify(pauses, null, 2));
+}
+
+const pauses: ITradingPause[] = loadPauses();
+
+/**
+ * Whether a pause is the one a request names
+ */
+function isSamePause(pause: ITradingPause, request: ITradingPauseRequest): boolean {
+  return pause.scope === request.scope && pause.value === request.value;
+}
+
+/**
+ * Describe what a pause applies to, such as `for strategy RSI`
+ * @param pause - The pause or pause request
+ * @returns The description
+ */
+export function describeTradingPause(pause: ITradingPauseRequest): string {
+  return pause.scope === 'GLOBAL'
+    ? 'globally'
+    : `for ${pause.scope.toLowerCase()} ${pause.value ?? ''}`;
+}
+
+/**
+ * Get the active pauses, oldest first
+ */
+export function getTradingPauses(): ITradingPause[] {
+  return pauses.map(pause => ({ ...pause }));
+}
+
+/**
+ * Cancel the working orders a pause applies to, so orders placed before it
+ * cannot fill while it is in force
+ * @returns The number of orders cancelled
+ */
+function cancelPausedOrders(pause: ITradingPause): number {
+  return getAccounts()
+    .filter(account => pause.scope !== 'ACCOUNT' || account.config.id === pause.value)
+    .reduce(
+      (total, account) =>
+        total +
+        account.orderBook.cancelAll(
+          pause.scope === 'SYMBOL' ? pause.value : undefined,
+          pause.scope === 'STRATEGY' ? pause.value : undefined,
+        ).length,
+      0,
+    );
+}
+
+/**
+ * Pause webhook execution for a scope and cancel the scope's working orders.
+ * Pausing a scope that is already paused replaces its reason.
+ * @param request - What to pause, and why
+ * @returns The active pause
+ */
+export function pauseTrading(request: ITradingPauseRequest): ITradingPause {
+  const pause: ITradingPause = {
+    scope: request.scope,
+    value: request.scope === 'GLOBAL' ? undefined : request.value,
+    reason: request.reason,
+    pausedAt: Date.now(),
+  };
+
+  const index = pauses.findIndex(existing => isSamePause(existing, pause));
+  if (index >= 0) {
+    pauses[index] = pause;
+  } else {
+    pauses.push(pause);
+  }
+  savePauses();
+
+  const cancelledOrders = cancelPausedOrders(pause);
+
+  logger.warn(`Trading paused ${describeTradingPause(pause)}`, {
+    reason: pause.reason,
+    cancelledOrders,
+  });
+  return { ...pause };
+}
+
+/**
+ * Resume webhook execution for a paused scope
+ * @param request - What to resume
+ * @returns The pause that was lifted, or undefined when the scope was not paused
+ */
+export function resumeTrading(request: ITradingPauseRequest): ITradingPause | undefined {
+  const index = pauses.findIndex(existing =>
+    isSamePause(existing, {
+      scope: request.scope,
+      value: request.scope === 'GLOBAL' ? undefined : request.value,
+    }),
+  );
+  if (index < 0) {
+    return undefined;
+  }
+
+  const [lifted] = pauses.splice(index, 1);
+  savePauses();
+
+  logger.info(`Trading resumed ${describeTradingPause(lifted)}`);
+  return lifted;
+}
+
+/**
+ * Find the pause that stops an alert from executing, checking the global
+ * pause first, then the account, the strategy and the symbol
+ * @param accountId - Account the alert trades in
+ * @param alert - The alert's symbol and strategy
+ * @returns The first matching pause, or undefined when the alert may execute
+ */
+export function findTradingPause(
+  accountId: string,
+  alert: { symbol: string; strategy: string },
+): ITradingPause | undefined {
+  const values: Record<ITradingPause['scope'], string | undefined> = {
+    GLOBAL: undefined,
+    ACCOUNT: accountId,
+    STRATEGY: alert.strategy,
+    SYMBOL: alert.symbol,
+  };
+
+  return (['GLOBAL', 'ACCOUNT', 'STRATEGY', 'SYMBOL'] as const)
+    .map(scope => pauses.find(pause => pause.scope === scope && pause.value === values[scope]))
+    .find(pause => pause !== undefined);
+}
+
+/**
+ * Close the positions of a trading system that match a flatten request, with
+ * one closing trade per symbol, strategy and side
+ */
+function flattenTradingSystem(
+  tradingSystem: PaperTradingSystem,
+  request: IFlattenRequest,
+  timestamp: number,
+): ITrade[] {
+  const groups = new Map<string, IPositionGroup>();
+  tradingSystem
+    .getPortfolio()
+    .positions.filter(
+      pos =>
+        (!request.symbol || pos.symbol === request.symbol) &&
+        (!request.strategy || pos.strategy === request.strategy),
+    )
+    .forEach(({ symbol, strategy, side, quantity, entryPrice }) => {
+      const key = JSON.stringify([symbol, strategy, side]);
+      const group = groups.get(key);
+      if (group) {
+        group.quantity += quantity;
+      } else {
+        groups.set(key, { symbol, strategy, side, quantity, entryPrice });
+      }
+    });
+
+  return [...groups.values()].map(({ symbol, strategy, side, quantity, entryPrice }) => {
+    // Positions are valued at their entry price until a price of their symbol is seen
+    const price =
+      request.prices?.[symbol] ??
+      (symbol === request.symbol ? request.price : undefined) ??
+      tradingSystem.getLastPrice(symbol) ??
+      entryPrice;
+
+    const { trades } = tradingSystem.executeTrade({
+      symbol,
+      action: side === 'LONG' ? 'SELL' : 'BUY',
+      price,
+      quantity,
+      strategy,
+      timestamp,
+    });
+    return trades[trades.length - 1];
+  });
+}
+
+/**
+ * Cancel matching working orders, then close open positions at a supplied
+ * price, or at the last known price of their symbol. Every close is an
+ * ordinary closing trade, recorded in the trade history and published like
+ * any other.
+ * @param request - The account, strategy and symbol to flatten, and the close prices
+ * @returns The cancelled orders and closing trades of every account that had either
+ */
+export function flattenPositions(request: IFlattenRequest): IFlattenResult[] {
+  const accounts = request.account ? [requireAccount(request.account)] : getAccounts();
+  const timestamp = Date.now();
+
+  // Working orders are cancelled first, so none can reopen a flattened position
+  const results = accounts
+    .map(account => ({
+      account: account.config.id,
+      cancelledOrders: account.orderBook.cancelAll(request.symbol, request.strategy),
+      trades: flattenTradingSystem(account.tradingSystem, request, timestamp),
+    }))
+    .filter(result => result.cancelledOrders.length > 0 || result.trades.length > 0);
+
+  logger.warn('Positions flattened', {
+    account: request.account,
+    strategy: request.strategy,
+    symbol: request.symbol,
+    cancelledOrders: results.reduce((total, result) => total + result.cancelledOrders.length, 0),
+    trades: results.reduce((total, result) => total + result.trades.length, 0),
+  });
+  return results;
+}
@@ -1,38 +1,186 @@
-import { ITradingViewWebhook } from '../models/webhook.interface';
-import { PaperTradingSystem } from '../trading/paperTradingSystem';
+import { DEFAULT_ACCOUNT_ID, getAccounts, requireAccount } from './accountService';
+import { publishOrderRejection } from './streamService';
 import { config } from '../config';
+import { IOrder, IPriceTick } from '../models/order.interface';
+import { ITradingViewWebhook } from '../models/webhook.interface';
+import { executeAlert, getAlertId } from '../trading/alertExecution';
+import { OrderBook } from '../trading/orderBook';
+import {
+  IExecutionOptions,
+  IPortfolio,
+  ITrade,
+  PaperTradingSystem,
+} from '../trading/paperTradingSystem';
+import { RiskRejectionError } from '../trading/riskEngine';
+import { IdempotencyCache } from '../utils/idempotencyCache';
+import { logger } from '../utils/logger';
+
+/**
+ * Outcome of applying a price tick to one account's positions and resting orders
+ */
+export interface IPriceTickResult {
+  account: string;
+  exits: ITrade[];
+  orders: IOrder[];
+}
+
+/**
+ * Result of processing an alert, flagged when it replays an earlier alert
+ */
+export interface IWebhookResult {
+  alertId: string;
+  duplicate: boolean;
+  result: IPortfolio | IOrder;
+}
 
-// Create a singleton instance of the paper trading system
-const tradingSystem = new PaperTradingSystem({
-  initialBalance: config.initialBalance,
-  commission: config.commission,
-});
+// Recently processed alerts, so retried or double-fired alerts trade only once
+const processedAlerts = new IdempotencyCache<IPortfolio | IOrder>(
+  config.dedupeMaxEntries,
+  config.dedupeWindowMs,
+);
 
 /**
- * Get the singleton instance of the trading system
+ * Get the trading system of an account
+ * @param accountId - The account id, defaults to the default account
  * @returns The paper trading system instance
  */
-export function getTradingSystemInstance(): PaperTradingSystem {
-  return tradingSystem;
+export function getTradingSystemInstance(accountId = DEFAULT_ACCOUNT_ID): PaperTradingSystem {
+  return requireAccount(accountId).tradingSystem;
 }
 
 /**
- * Process a TradingView webhook and execute the corresponding paper trade
+ * Get the order book of an account
+ * @param accountId - The account id, defaults to the default account
+ * @returns The order book instance
+ */
+export function getOrderBookInstance(accountId = DEFAULT_ACCOUNT_ID): OrderBook {
+  return requireAccount(accountId).orderBook;
+}
+
+/**
+ * Apply a price tick to every account: positions whose exit levels are
+ * reached are closed first, then resting orders the price satisfies are filled
+ * @param tick - The price observation
+ * @returns Exit trades and completed orders for each account the tick affected
+ */
+export function processPriceTick(tick: IPriceTick): IPriceTickResult[] {
+  const results = getAccounts()
+    .map(account => ({
+      account: account.config.id,
+      exits: account.tradingSystem.processPriceTick(tick),
+      orders: account.orderBook.processPriceTick(tick),
+    }))
+    .filter(result => result.exits.length > 0 || result.orders.length > 0);
+
+  results.forEach(result => publishRejectedOrders(result.account, result.orders));
+  return results;
+}
+
+/**
+ * Publish a stream event for every resting order that was rejected
+ */
+function publishRejectedOrders(accountId: string, orders: IOrder[]): void {
+  orders
+    .filter(order => order.status === 'REJECTED')
+    .forEach(order =>
+      publishOrderRejection(accountId, {
+        symbol: order.symbol,
+        action: order.action,
+        price: (order.limitPrice ?? order.stopPrice) as number,
+        quantity: order.quantity,
+        strategy: order.strategy,
+        message: order.reason ?? 'Order rejected',
+        orderId: order.id,
+      }),
+    );
+}
+
+/**
+ * Process a TradingView webhook and execute the corresponding paper trade.
+ * LIMIT, STOP and STOP_LIMIT alerts are placed in the order book instead of
+ * executing immediately. EXIT alerts close the strategy's open positions on
+ * the symbol. Entries without a quantity are sized by the trading system.
  * @param webhook - The validated webhook payload
- * @returns Result of the trade execution
+ * @param accountId - Account to trade in; defaults to the payload's `account`
+ * field and then to the default account
+ * @param options - Execution details to record on the trades and orders,
+ * such as the source of a manual order
+ * @returns The updated portfolio, or the placed order for resting order types
  */
-export async function processTradingViewWebhook(webhook: ITradingViewWebhook): Promise<unknown> {
-  console.log(`Processing webhook for ${webhook.symbol}: ${webhook.action} at ${webhook.price}`);
-  
-  // Execute the trade in the paper trading system
-  const result = tradingSystem.executeTrade({
+export async function processTradingViewWebhook(
+  webhook: ITradingViewWebhook,
+  accountId = webhook.account ?? DEFAULT_ACCOUNT_ID,
+  options: IExecutionOptions = {},
+): Promise<IPortfolio | IOrder> {
+  logger.info(options.source === 'manual' ? 'Processing manual order' : 'Processing webhook', {
+    account: accountId,
     symbol: webhook.symbol,
     action: webhook.action,
     price: webhook.price,
-    quantity: webhook.quantity,
-    strategy: webhook.strategy,
+  });
+
+  const { tradingSystem, orderBook } = requireAccount(accountId);
+  let order: IOrder | undefined;
+  try {
+    order = executeAlert(tradingSystem, orderBook, webhook, options);
+  } catch (error) {
+    publishOrderRejection(accountId, {
+      symbol: webhook.symbol,
+      action: webhook.action,
+      price: webhook.price,
+      quantity: webhook.quantity,
+      strategy: webhook.strategy,
+      message: (error as Error).message,
+      rule: error instanceof RiskRejectionError ? error.rejection.rule : undefined,
+    });
+    throw error;
+  }
+
+  if (order) {
+    publishRejectedOrders(accountId, [order]);
+    return Promise.resolve(order);
+  }
+
+  // The alert price is also the latest market price for positions and resting orders
+  processPriceTick({
+    symbol: webhook.symbol,
+    price: webhook.price,
     timestamp: webhook.timestamp,
   });
-  
-  return result;
-}
\ No newline at end of file
+
+  return Promise.resolve(tradingSystem.getPortfolio());
+}
+
+/**
+ * Process a TradingView webhook at most once per account. An alert seen
+ * within the dedupe window is not traded again; the original result is
+ * returned and flagged as a duplicate.
+ * @param webhook - The validated webhook payload
+ * @param accountId - Account to trade in; defaults to the payload's `account`
+ * field and then to the default account
+ * @returns The processing result and whether the alert was a duplicate
+ */
+export async function processTradingViewWebhookOnce(
+  webhook: ITradingViewWebhook,
+  accountId = webhook.account ?? DEFAULT_ACCOUNT_ID,
+): Promise<IWebhookResult> {
+  const alertId = getAlertId(webhook);
+  const key = `${accountId}:${alertId}`;
+
+  const previous = processedAlerts.get(key);
+  if (previous) {
+    logger.info('Ignoring duplicate alert', { account: accountId, alertId });
+    return { alertId, duplicate: true, result: await previous };
+  }
+
+  const pending = processTradingViewWebhook(webhook, accountId);
+  processedAlerts.set(key, pending);
+
+  try {
+    return { alertId, duplicate: false, result: await pending };
+  } catch (error) {
+    // Failed alerts are forgotten so a retry can succeed
+    processedAlerts.delete(key);
+    throw error;
+  }
+}
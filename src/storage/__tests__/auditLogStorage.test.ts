@@ -0,0 +1,69 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { IAuditEntry } from '../../models/audit.interface';
+import { RotatingFileAuditLog } from '../auditLogStorage';
+
+describe('RotatingFileAuditLog', () => {
+  let logDir: string;
+
+  const entry = (id: number): IAuditEntry => ({
+    id,
+    timestamp: 1625097600000 + id,
+    type: 'WEBHOOK_PROCESSED',
+    path: '/api/webhook',
+    status: 200,
+    message: 'Webhook processed successfully',
+  });
+  const entryBytes = Buffer.byteLength(`${JSON.stringify(entry(1))}\n`);
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it('should load appended entries after a restart', () => {
+    const log = new RotatingFileAuditLog(logDir, 1024 * 1024, 3);
+    log.append(entry(1));
+    log.append(entry(2));
+
+    expect(new RotatingFileAuditLog(logDir, 1024 * 1024, 3).load()).toEqual([entry(1), entry(2)]);
+  });
+
+  it('should rotate full files and drop the oldest beyond the file limit', () => {
+    // Two entries fit in a file
+    const log = new RotatingFileAuditLog(logDir, entryBytes * 2, 3);
+    for (let id = 1; id <= 9; id += 1) {
+      log.append(entry(id));
+    }
+
+    expect(fs.readdirSync(logDir).sort()).toEqual([
+      'audit.1.jsonl',
+      'audit.2.jsonl',
+      'audit.jsonl',
+    ]);
+    expect(log.load().map(({ id }) => id)).toEqual([5, 6, 7, 8, 9]);
+  });
+
+  it('should keep appending to the current file after a restart', () => {
+    new RotatingFileAuditLog(logDir, entryBytes * 2, 2).append(entry(1));
+    const restarted = new RotatingFileAuditLog(logDir, entryBytes * 2, 2);
+    restarted.append(entry(2));
+    restarted.append(entry(3));
+
+    expect(fs.readFileSync(path.join(logDir, 'audit.1.jsonl'), 'utf8').split('\n')).toHaveLength(3);
+    expect(restarted.load().map(({ id }) => id)).toEqual([1, 2, 3]);
+  });
+
+  it('should skip unreadable lines', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fs.writeFileSync(path.join(logDir, 'audit.jsonl'), `${JSON.stringify(entry(1))}\n{"id":`);
+
+    expect(new RotatingFileAuditLog(logDir, 1024, 2).load()).toEqual([entry(1)]);
+    jest.restoreAllMocks();
+  });
+});
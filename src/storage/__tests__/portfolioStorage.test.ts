@@ -0,0 +1,181 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { PaperTradingSystem } from '../../trading/paperTradingSystem';
+import { FilePortfolioStorage } from '../filePortfolioStorage';
+import { InMemoryPortfolioStorage, restorePortfolio } from '../portfolioStorage';
+
+describe('Portfolio storage', () => {
+  const config = { initialBalance: 10000, commission: 0.1, snapshotInterval: 2 };
+
+  const runTrades = (tradingSystem: PaperTradingSystem): void => {
+    tradingSystem.executeTrade({
+      symbol: 'BTCUSDT',
+      action: 'BUY',
+      price: 50000,
+      quantity: 0.1,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+      stopLoss: 45000,
+    });
+    tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'SELL',
+      price: 3000,
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097700000,
+    });
+    tradingSystem.executeTrade({
+      symbol: 'BTCUSDT',
+      action: 'SELL',
+      price: 52000,
+      quantity: 0.05,
+      strategy: 'TEST',
+      timestamp: 1625097800000,
+    });
+  };
+
+  describe('restorePortfolio', () => {
+    it('should return undefined when nothing is stored', () => {
+      expect(restorePortfolio({ journal: [] })).toBeUndefined();
+    });
+  });
+
+  describe('InMemoryPortfolioStorage', () => {
+    it('should restore the exact portfolio into a new trading system', () => {
+      const storage = new InMemoryPortfolioStorage();
+      const original = new PaperTradingSystem(config, storage);
+      runTrades(original);
+
+      const restored = new PaperTradingSystem(config, storage);
+
+      expect(restored.getPortfolio()).toEqual(original.getPortfolio());
+    });
+
+    it('should compact the journal when a snapshot is taken', () => {
+      const storage = new InMemoryPortfolioStorage();
+      runTrades(new PaperTradingSystem(config, storage));
+
+      const stored = storage.load();
+      expect(stored.snapshot?.sequence).toBe(2);
+      expect(stored.journal.map(entry => entry.sequence)).toEqual([3]);
+    });
+
+    it('should number positions stored without ids once and keep the numbers', () => {
+      const storage = new InMemoryPortfolioStorage();
+      runTrades(new PaperTradingSystem(config, storage));
+      const { snapshot, journal } = storage.load();
+      journal.forEach(entry => entry.positions.forEach(pos => delete (pos as { id?: string }).id));
+      const legacy = new InMemoryPortfolioStorage();
+      legacy.saveSnapshot(snapshot!);
+      journal.forEach(entry => legacy.append(entry));
+
+      const ids = new PaperTradingSystem(config, legacy)
+        .getPortfolio()
+        .positions.map(pos => pos.id);
+
+      expect(ids).toEqual(['position-legacy-1', 'position-legacy-2']);
+      expect(
+        new PaperTradingSystem(config, legacy).getPortfolio().positions.map(pos => pos.id),
+      ).toEqual(ids);
+    });
+    it('should keep a loss limit halt and its reset across restarts', () => {
+      const storage = new InMemoryPortfolioStorage();
+      const haltConfig = { ...config, commission: 0, riskLimits: { lossLimit: 50 } };
+      const entry = {
+        symbol: 'ETHUSDT',
+        action: 'BUY' as const,
+        price: 100,
+        quantity: 10,
+        strategy: 'TEST',
+        timestamp: 1000,
+      };
+      const original = new PaperTradingSystem(haltConfig, storage);
+      original.executeTrade(entry);
+      original.executeTrade({ ...entry, action: 'SELL', price: 94, timestamp: 2000 });
+
+      const halted = new PaperTradingSystem(haltConfig, storage);
+
+      expect(halted.getRiskStatus().halt).toEqual({
+        since: 2000,
+        period: 'DAILY',
+        realizedPnl: -60,
+      });
+      expect(() => halted.executeTrade({ ...entry, timestamp: 3000 })).toThrow(
+        'Account is halted: daily loss limit reached',
+      );
+
+      halted.resetRiskHalt();
+      const reset = new PaperTradingSystem(haltConfig, storage);
+      reset.executeTrade({ ...entry, timestamp: 3000 });
+
+      expect(reset.getRiskStatus().halt).toBeUndefined();
+      expect(reset.getPortfolio().positions).toHaveLength(1);
+    });
+  });
+
+  describe('FilePortfolioStorage', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'paper-trading-'));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should restore the exact portfolio after a restart', () => {
+      const original = new PaperTradingSystem(config, new FilePortfolioStorage(dataDir));
+      runTrades(original);
+
+      const restored = new PaperTradingSystem(config, new FilePortfolioStorage(dataDir));
+
+      expect(restored.getPortfolio()).toEqual(JSON.parse(JSON.stringify(original.getPortfolio())));
+      expect(fs.existsSync(path.join(dataDir, 'snapshot.json'))).toBe(true);
+    });
+
+    it('should keep journaling after a restore', () => {
+      runTrades(new PaperTradingSystem(config, new FilePortfolioStorage(dataDir)));
+
+      const restored = new PaperTradingSystem(config, new FilePortfolioStorage(dataDir));
+      restored.executeTrade({
+        symbol: 'ETHUSDT',
+        action: 'BUY',
+        price: 2900,
+        quantity: 1,
+        strategy: 'TEST',
+        timestamp: 1625097900000,
+      });
+
+      const reloaded = new PaperTradingSystem(config, new FilePortfolioStorage(dataDir));
+      expect(reloaded.getPortfolio().trades).toHaveLength(4);
+      expect(reloaded.getPortfolio().balance).toBeCloseTo(restored.getPortfolio().balance, 8);
+    });
+
+    it('should restore the equity history after a restart', () => {
+      const original = new PaperTradingSystem(config, new FilePortfolioStorage(dataDir));
+      runTrades(original);
+      original.sampleEquity(1625097900000);
+
+      const restored = new PaperTradingSystem(config, new FilePortfolioStorage(dataDir));
+
+      expect(restored.getEquityHistory()).toHaveLength(4);
+      expect(restored.getEquityHistory()).toEqual(
+        JSON.parse(JSON.stringify(original.getEquityHistory())),
+      );
+    });
+
+    it('should ignore an incomplete trailing journal line', () => {
+      const storage = new FilePortfolioStorage(dataDir);
+      runTrades(new PaperTradingSystem({ ...config, snapshotInterval: 100 }, storage));
+      fs.appendFileSync(path.join(dataDir, 'journal.jsonl'), '{"sequence":4,"tra');
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect(storage.load().journal).toHaveLength(3);
+    });
+  });
+});
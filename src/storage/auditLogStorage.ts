@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+
+import { IAuditEntry } from '../models/audit.interface';
+
+const LOG_FILE = 'audit.jsonl';
+
+/**
+ * Storage backend the audit log persists its entries to
+ */
+export interface IAuditLogStorage {
+  /**
+   * Loads the stored entries, oldest first
+   */
+  load(): IAuditEntry[];
+
+  /**
+   * Durably appends an entry
+   */
+  append(entry: IAuditEntry): void;
+}
+
+/**
+ * Rotating JSON-lines audit log. Entries are appended to `audit.jsonl`; when
+ * it would grow past `maxFileBytes` it is renamed to `audit.1.jsonl`, older
+ * files move up one number, and files beyond `maxFiles` are deleted, so the
+ * log never takes more than `maxFiles` times `maxFileBytes` on disk.
+ */
+export class RotatingFileAuditLog implements IAuditLogStorage {
+  private size: number;
+
+  /**
+   * Creates a new RotatingFileAuditLog
+   * @param logDir - Directory holding the log files, created if missing
+   * @param maxFileBytes - Size a file is rotated at
+   * @param maxFiles - Files kept, the current one included
+   */
+  constructor(
+    private readonly logDir: string,
+    private readonly maxFileBytes: number,
+    private readonly maxFiles: number,
+  ) {
+    fs.mkdirSync(logDir, { recursive: true });
+    const currentPath = this.getPath(0);
+    this.size = fs.existsSync(currentPath) ? fs.statSync(currentPath).size : 0;
+  }
+
+  public load(): IAuditEntry[] {
+    const entries: IAuditEntry[] = [];
+
+    for (let index = this.maxFiles - 1; index >= 0; index -= 1) {
+      const filePath = this.getPath(index);
+      if (!fs.existsSync(filePath)) {
+        continue;
+      }
+
+      fs.readFileSync(filePath, 'utf8')
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .forEach(line => {
+          try {
+            entries.push(JSON.parse(line) as IAuditEntry);
+          } catch (error) {
+            console.error(`Skipping unreadable audit entry in ${filePath}:`, error);
+          }
+        });
+    }
+    return entries;
+  }
+
+  public append(entry: IAuditEntry): void {
+    const line = `${JSON.stringify(entry)}\n`;
+    const lineBytes = Buffer.byteLength(line);
+
+    if (this.size > 0 && this.size + lineBytes > this.maxFileBytes) {
+      this.rotate();
+    }
+    fs.appendFileSync(this.getPath(0), line);
+    this.size += lineBytes;
+  }
+
+  /**
+   * Shifts every file up one number, dropping the oldest
+   */
+  private rotate(): void {
+    fs.rmSync(this.getPath(this.maxFiles - 1), { force: true });
+    for (let index = this.maxFiles - 2; index >= 0; index -= 1) {
+      if (fs.existsSync(this.getPath(index))) {
+        fs.renameSync(this.getPath(index), this.getPath(index + 1));
+      }
+    }
+    this.size = 0;
+  }
+
+  /**
+   * Path of the current file (0) or of a rotated one
+   */
+  private getPath(index: number): string {
+    return path.join(this.logDir, index === 0 ? LOG_FILE : `audit.${index}.jsonl`);
+  }
+}
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+
+import {
+  IJournalEntry,
+  IPortfolioSnapshot,
+  IPortfolioStorage,
+  IStoredPortfolio,
+} from './portfolioStorage';
+import { IEquitySnapshot } from '../trading/paperTradingSystem';
+
+const JOURNAL_FILE = 'journal.jsonl';
+const SNAPSHOT_FILE = 'snapshot.json';
+const EQUITY_FILE = 'equity.jsonl';
+
+/**
+ * File-based storage backend: an append-only JSON-lines journal next to a
+ * snapshot file in the data directory, and the equity snapshots in their own
+ * JSON-lines file. Writes are synchronous so a trade is on disk before it is
+ * acknowledged.
+ */
+export class FilePortfolioStorage implements IPortfolioStorage {
+  private readonly journalPath: string;
+  private readonly snapshotPath: string;
+  private readonly equityPath: string;
+
+  /**
+   * Creates a new FilePortfolioStorage
+   * @param dataDir - Directory holding the journal and snapshot, created if missing
+   */
+  constructor(dataDir: string) {
+    fs.mkdirSync(dataDir, { recursive: true });
+    this.journalPath = path.join(dataDir, JOURNAL_FILE);
+    this.snapshotPath = path.join(dataDir, SNAPSHOT_FILE);
+    this.equityPath = path.join(dataDir, EQUITY_FILE);
+  }
+
+  public load(): IStoredPortfolio {
+    const snapshot = fs.existsSync(this.snapshotPath)
+      ? (JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8')) as IPortfolioSnapshot)
+      : undefined;
+
+    return { snapshot, journal: this.readJournal() };
+  }
+
+  public append(entry: IJournalEntry): void {
+    fs.appendFileSync(this.journalPath, `${JSON.stringify(entry)}\n`);
+  }
+
+  public saveSnapshot(snapshot: IPortfolioSnapshot): void {
+    // Write to a temporary file first so a crash never leaves a partial snapshot
+    const tempPath = `${this.snapshotPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+    fs.renameSync(tempPath, this.snapshotPath);
+
+    // Entries up to the snapshot are skipped on load, so compacting is safe to interrupt
+    const remaining = this.readJournal().filter(entry => entry.sequence > snapshot.sequence);
+    fs.writeFileSync(
+      this.journalPath,
+      remaining.map(entry => `${JSON.stringify(entry)}\n`).join(''),
+    );
+  }
+
+  public loadEquityHistory(): IEquitySnapshot[] {
+    return readJsonLines<IEquitySnapshot>(this.equityPath, 'equity snapshot');
+  }
+
+  public appendEquity(snapshot: IEquitySnapshot): void {
+    fs.appendFileSync(this.equityPath, `${JSON.stringify(snapshot)}\n`);
+  }
+
+  public saveEquityHistory(snapshots: IEquitySnapshot[]): void {
+    const tempPath = `${this.equityPath}.tmp`;
+    fs.writeFileSync(tempPath, snapshots.map(snapshot => `${JSON.stringify(snapshot)}\n`).join(''));
+    fs.renameSync(tempPath, this.equityPath);
+  }
+
+  /**
+   * Reads the journal, ignoring a trailing line left incomplete by a crash
+   */
+  private readJournal(): IJournalEntry[] {
+    return readJsonLines<IJournalEntry>(this.journalPath, 'journal entry');
+  }
+}
+
+/**
+ * Reads a JSON-lines file, skipping lines that do not parse, such as a
+ * trailing line left incomplete by a crash
+ * @param filePath - The file to read; a missing file holds no lines
+ * @param label - What a line holds, for the log of skipped lines
+ * @returns The parsed lines in file order
+ */
+function readJsonLines<T>(filePath: string, label: string): T[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const items: T[] = [];
+  fs.readFileSync(filePath, 'utf8')
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .forEach(line => {
+      try {
+        items.push(JSON.parse(line) as T);
+      } catch (error) {
+        console.error(`Skipping unreadable ${label} in ${filePath}:`, error);
+      }
+    });
+  return items;
+}
@@ -0,0 +1,137 @@
+import { IEquitySnapshot, IPortfolio, IPosition, ITrade } from '../trading/paperTradingSystem';
+import { IRiskState } from '../trading/riskEngine';
+
+/**
+ * A journal entry recording one state change of the portfolio: the trades it
+ * added and the resulting balance and positions
+ */
+export interface IJournalEntry {
+  sequence: number;
+  timestamp: number;
+  trades: ITrade[];
+  balance: number;
+  positions: IPosition[];
+  risk?: IRiskState; // Loss limit state after the change; not set by older versions
+}
+
+/**
+ * A full copy of the portfolio as of a journal sequence number
+ */
+export interface IPortfolioSnapshot {
+  sequence: number;
+  portfolio: IPortfolio;
+  risk?: IRiskState;
+}
+
+/**
+ * Everything a storage backend holds: the latest snapshot, if any, and the
+ * journal entries written since
+ */
+export interface IStoredPortfolio {
+  snapshot?: IPortfolioSnapshot;
+  journal: IJournalEntry[];
+}
+
+/**
+ * Storage backend the paper trading system persists its portfolio to
+ */
+export interface IPortfolioStorage {
+  /**
+   * Loads the stored snapshot and journal
+   */
+  load(): IStoredPortfolio;
+
+  /**
+   * Durably appends an entry to the journal
+   */
+  append(entry: IJournalEntry): void;
+
+  /**
+   * Replaces the snapshot and discards the journal entries it covers
+   */
+  saveSnapshot(snapshot: IPortfolioSnapshot): void;
+
+  /**
+   * Loads the stored equity snapshots, oldest first
+   */
+  loadEquityHistory(): IEquitySnapshot[];
+
+  /**
+   * Durably appends an equity snapshot
+   */
+  appendEquity(snapshot: IEquitySnapshot): void;
+
+  /**
+   * Replaces the stored equity snapshots, dropping those left out
+   */
+  saveEquityHistory(snapshots: IEquitySnapshot[]): void;
+}
+
+/**
+ * Rebuilds the latest portfolio by replaying the journal on top of the snapshot
+ * @param stored - The stored snapshot and journal
+ * @returns The restored portfolio and its sequence number, or undefined if nothing is stored
+ */
+export function restorePortfolio(stored: IStoredPortfolio): IPortfolioSnapshot | undefined {
+  const { snapshot, journal } = stored;
+  const baseSequence = snapshot?.sequence ?? 0;
+  const entries = journal
+    .filter(entry => entry.sequence > baseSequence)
+    .sort((a, b) => a.sequence - b.sequence);
+
+  if (!snapshot && entries.length === 0) {
+    return undefined;
+  }
+
+  const restored: IPortfolioSnapshot = {
+    sequence: baseSequence,
+    portfolio: snapshot
+      ? { ...snapshot.portfolio, trades: [...snapshot.portfolio.trades] }
+      : { balance: 0, positions: [], trades: [] },
+    risk: snapshot?.risk,
+  };
+
+  entries.forEach(entry => {
+    restored.sequence = entry.sequence;
+    restored.portfolio.trades.push(...entry.trades);
+    restored.portfolio.balance = entry.balance;
+    restored.portfolio.positions = entry.positions;
+    restored.risk = entry.risk ?? restored.risk;
+  });
+
+  return restored;
+}
+
+/**
+ * In-memory storage backend, mainly for tests. Nothing survives a restart.
+ */
+export class InMemoryPortfolioStorage implements IPortfolioStorage {
+  private snapshot?: IPortfolioSnapshot;
+  private journal: IJournalEntry[] = [];
+  private equityHistory: IEquitySnapshot[] = [];
+
+  public load(): IStoredPortfolio {
+    return { snapshot: this.snapshot, journal: [...this.journal] };
+  }
+
+  public append(entry: IJournalEntry): void {
+    this.journal.push(JSON.parse(JSON.stringify(entry)) as IJournalEntry);
+  }
+
+  public saveSnapshot(snapshot: IPortfolioSnapshot): void {
+    this.snapshot = JSON.parse(JSON.stringify(snapshot)) as IPortfolioSnapshot;
+    this.journal = this.journal.filter(entry => entry.sequence > snapshot.sequence);
+  }
+
+  public loadEquityHistory(): IEquitySnapshot[] {
+    return this.equityHistory.map(snapshot => ({ ...snapshot }));
+  }
+
+  public appendEquity(snapshot: IEquitySnapshot): void {
+    this.equityHistory.push({ ...snapshot });
+  }
+
+  public saveEquityHistory(snapshots: IEquitySnapshot[]): void {
+    this.equityHistory = snapshots.map(snapshot => ({ ...snapshot }));
+  }
+}
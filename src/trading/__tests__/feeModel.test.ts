@@ -0,0 +1,52 @@
+import { IFill, ScheduleFeeModel } from '../feeModel';
+
+describe('ScheduleFeeModel', () => {
+  const fill: IFill = {
+    symbol: 'ES',
+    action: 'BUY',
+    price: 100,
+    quantity: 10,
+    liquidity: 'TAKER',
+  };
+
+  it('should add up percentage, per-unit and per-order fees', () => {
+    const feeModel = new ScheduleFeeModel({ percent: 0.1, perUnit: 0.5, perOrder: 2 });
+
+    expect(feeModel.calculate(fill)).toEqual({
+      percentage: 1,
+      perUnit: 5,
+      perOrder: 2,
+      total: 8,
+    });
+  });
+
+  it('should charge the maker rate on maker fills', () => {
+    const feeModel = new ScheduleFeeModel({ percent: 0.1, makerPercent: 0.02 });
+
+    expect(feeModel.calculate(fill).total).toBeCloseTo(1, 8);
+    expect(feeModel.calculate({ ...fill, liquidity: 'MAKER' }).total).toBeCloseTo(0.2, 8);
+  });
+
+  it('should clamp the total to the minimum and maximum', () => {
+    const feeModel = new ScheduleFeeModel({ perUnit: 0.01, minimum: 1, maximum: 5 });
+
+    expect(feeModel.calculate(fill).total).toBe(1);
+    expect(feeModel.calculate({ ...fill, quantity: 1000 }).total).toBe(5);
+  });
+
+  it('should apply per-symbol overrides over the defaults', () => {
+    const feeModel = new ScheduleFeeModel({
+      percent: 0.1,
+      perOrder: 1,
+      symbols: { ES: { percent: 0, perUnit: 2.25 } },
+    });
+
+    expect(feeModel.calculate(fill)).toEqual({
+      percentage: 0,
+      perUnit: 22.5,
+      perOrder: 1,
+      total: 23.5,
+    });
+    expect(feeModel.calculate({ ...fill, symbol: 'NQ' }).total).toBeCloseTo(2, 8);
+  });
+});
@@ -0,0 +1,29 @@
+import { InstrumentRegistry, isMultipleOf, roundToTick } from '../instrumentRegistry';
+
+describe('InstrumentRegistry', () => {
+  it('should register, list and remove instruments', () => {
+    const registry = new InstrumentRegistry([
+      { symbol: 'ES1!', assetClass: 'FUTURE', tickSize: 0.25, multiplier: 50 },
+    ]);
+    registry.set({ symbol: 'AAPL', assetClass: 'STOCK', lotSize: 1 });
+
+    expect(registry.list().map(instrument => instrument.symbol)).toEqual(['AAPL', 'ES1!']);
+    expect(registry.getMultiplier('ES1!')).toBe(50);
+    expect(registry.getMultiplier('BTCUSDT')).toBe(1);
+
+    expect(registry.delete('AAPL')).toBe(true);
+    expect(registry.get('AAPL')).toBeUndefined();
+  });
+
+  it('should check multiples despite floating-point error', () => {
+    expect(isMultipleOf(0.3, 0.1)).toBe(true);
+    expect(isMultipleOf(4501.75, 0.25)).toBe(true);
+    expect(isMultipleOf(4501.1, 0.25)).toBe(false);
+  });
+
+  it('should round prices to the tick against the trader', () => {
+    expect(roundToTick(4500.1, 0.25, 'BUY')).toBe(4500.25);
+    expect(roundToTick(4500.1, 0.25, 'SELL')).toBe(4500);
+    expect(roundToTick(1.1, 0.1, 'BUY')).toBe(1.1);
+  });
+});
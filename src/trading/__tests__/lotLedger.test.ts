@@ -0,0 +1,60 @@
+import { allocateClose } from '../lotLedger';
+import { IPosition } from '../paperTradingSystem';
+
+describe('allocateClose', () => {
+  let lotCount = 0;
+  const lot = (quantity: number, strategy = 'TEST'): IPosition => ({
+    id: `position-${(lotCount += 1)}`,
+    symbol: 'BTCUSDT',
+    side: 'LONG',
+    entryPrice: 100,
+    quantity,
+    timestamp: 0,
+    strategy,
+  });
+
+  it('should close the oldest lots first with FIFO', () => {
+    const lots = [lot(10), lot(5), lot(5)];
+
+    const allocations = allocateClose(lots, 'TEST', 12, 'FIFO');
+
+    expect(allocations).toEqual([
+      { lot: lots[0], quantity: 10 },
+      { lot: lots[1], quantity: 2 },
+    ]);
+  });
+
+  it('should close the newest lots first with LIFO', () => {
+    const lots = [lot(10), lot(5), lot(5)];
+
+    const allocations = allocateClose(lots, 'TEST', 12, 'LIFO');
+
+    expect(allocations).toEqual([
+      { lot: lots[2], quantity: 5 },
+      { lot: lots[1], quantity: 5 },
+      { lot: lots[0], quantity: 2 },
+    ]);
+  });
+
+  it('should close every lot pro rata with AVERAGE', () => {
+    const lots = [lot(10), lot(5)];
+
+    const allocations = allocateClose(lots, 'TEST', 6, 'AVERAGE');
+
+    expect(allocations).toEqual([
+      { lot: lots[0], quantity: 4 },
+      { lot: lots[1], quantity: 2 },
+    ]);
+  });
+
+  it("should prefer lots of the trade's own strategy", () => {
+    const lots = [lot(10, 'OTHER'), lot(5)];
+
+    expect(allocateClose(lots, 'TEST', 5, 'FIFO')).toEqual([{ lot: lots[1], quantity: 5 }]);
+    expect(allocateClose(lots, 'TEST', 6, 'FIFO')).toBeUndefined();
+    expect(allocateClose(lots, 'NEW', 12, 'FIFO')).toEqual([
+      { lot: lots[0], quantity: 10 },
+      { lot: lots[1], quantity: 2 },
+    ]);
+  });
+});
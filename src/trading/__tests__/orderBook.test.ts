@@ -0,0 +1,188 @@
+import { OrderBook } from '../orderBook';
+import { PaperTradingSystem } from '../paperTradingSystem';
+
+describe('OrderBook', () => {
+  let tradingSystem: PaperTradingSystem;
+  let orderBook: OrderBook;
+
+  const baseOrder = {
+    symbol: 'BTCUSDT',
+    quantity: 0.1,
+    strategy: 'TEST',
+    timestamp: 1625097600000,
+  };
+
+  beforeEach(() => {
+    tradingSystem = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0.1,
+    });
+    orderBook = new OrderBook(tradingSystem);
+  });
+
+  it('should rest a limit order until the price reaches the limit', () => {
+    const order = orderBook.placeOrder({
+      ...baseOrder,
+      action: 'BUY',
+      type: 'LIMIT',
+      limitPrice: 48000,
+      timeInForce: 'GTC',
+    });
+
+    expect(order.status).toBe('WORKING');
+    expect(orderBook.processPriceTick({ symbol: 'BTCUSDT', price: 49000, timestamp: 1 })).toEqual(
+      [],
+    );
+    expect(orderBook.getWorkingOrders()).toHaveLength(1);
+
+    const [filled] = orderBook.processPriceTick({
+      symbol: 'BTCUSDT',
+      price: 47900,
+      timestamp: 1625097700000,
+    });
+
+    expect(filled.status).toBe('FILLED');
+    expect(filled.fillPrice).toBe(47900);
+    expect(orderBook.getWorkingOrders()).toHaveLength(0);
+
+    const portfolio = tradingSystem.getPortfolio();
+    expect(portfolio.trades).toHaveLength(1);
+    expect(portfolio.trades[0].orderId).toBe(order.id);
+    expect(portfolio.positions[0].entryPrice).toBe(47900);
+  });
+
+  it('should trigger a sell stop when the price falls through the stop', () => {
+    tradingSystem.executeTrade({ ...baseOrder, action: 'BUY', price: 50000 });
+    orderBook.placeOrder({
+      ...baseOrder,
+      action: 'SELL',
+      type: 'STOP',
+      stopPrice: 45000,
+      timeInForce: 'GTC',
+    });
+
+    expect(orderBook.processPriceTick({ symbol: 'BTCUSDT', price: 46000, timestamp: 1 })).toEqual(
+      [],
+    );
+    const [filled] = orderBook.processPriceTick({
+      symbol: 'BTCUSDT',
+      price: 44000,
+      timestamp: 2,
+    });
+
+    expect(filled.status).toBe('FILLED');
+    expect(filled.fillPrice).toBe(44000);
+    expect(tradingSystem.getPortfolio().positions).toHaveLength(0);
+  });
+
+  it('should only fill a triggered stop-limit order within its limit', () => {
+    orderBook.placeOrder({
+      ...baseOrder,
+      action: 'BUY',
+      type: 'STOP_LIMIT',
+      stopPrice: 51000,
+      limitPrice: 51500,
+      timeInForce: 'GTC',
+    });
+
+    // Gaps through the stop above the limit: triggered but not filled
+    expect(orderBook.processPriceTick({ symbol: 'BTCUSDT', price: 52000, timestamp: 1 })).toEqual(
+      [],
+    );
+    expect(orderBook.getWorkingOrders()[0].triggered).toBe(true);
+
+    const [filled] = orderBook.processPriceTick({
+      symbol: 'BTCUSDT',
+      price: 51200,
+      timestamp: 2,
+    });
+    expect(filled.status).toBe('FILLED');
+    expect(filled.fillPrice).toBe(51200);
+  });
+
+  it('should cancel an IOC order that is not immediately marketable', () => {
+    orderBook.processPriceTick({ symbol: 'BTCUSDT', price: 50000, timestamp: 1 });
+
+    const missed = orderBook.placeOrder({
+      ...baseOrder,
+      action: 'BUY',
+      type: 'LIMIT',
+      limitPrice: 49000,
+      timeInForce: 'IOC',
+    });
+    const filled = orderBook.placeOrder({
+      ...baseOrder,
+      action: 'BUY',
+      type: 'LIMIT',
+      limitPrice: 50500,
+      timeInForce: 'IOC',
+    });
+
+    expect(missed.status).toBe('CANCELLED');
+    expect(filled.status).toBe('FILLED');
+    expect(filled.fillPrice).toBe(50000);
+    expect(orderBook.getWorkingOrders()).toHaveLength(0);
+  });
+
+  it('should expire DAY orders on the next trading day', () => {
+    orderBook.placeOrder({
+      ...baseOrder,
+      action: 'BUY',
+      type: 'LIMIT',
+      limitPrice: 40000,
+      timeInForce: 'DAY',
+    });
+
+    const [expired] = orderBook.processPriceTick({
+      symbol: 'BTCUSDT',
+      price: 39000,
+      timestamp: baseOrder.timestamp + 24 * 60 * 60 * 1000,
+    });
+
+    expect(expired.status).toBe('EXPIRED');
+    expect(tradingSystem.getPortfolio().trades).toHaveLength(0);
+  });
+
+  it('should reject a fill the trading system cannot execute', () => {
+    orderBook.placeOrder({
+      ...baseOrder,
+      action: 'BUY',
+      type: 'LIMIT',
+      quantity: 10,
+      limitPrice: 50000,
+      timeInForce: 'GTC',
+    });
+
+    const [rejected] = orderBook.processPriceTick({
+      symbol: 'BTCUSDT',
+      price: 50000,
+      timestamp: 1,
+    });
+
+    expect(rejected.status).toBe('REJECTED');
+    expect(rejected.reason).toContain('Insufficient balance');
+  });
+
+  it('should cancel working orders', () => {
+    const order = orderBook.placeOrder({
+      ...baseOrder,
+      action: 'BUY',
+      type: 'LIMIT',
+      limitPrice: 40000,
+      timeInForce: 'GTC',
+    });
+    orderBook.placeOrder({
+      ...baseOrder,
+      symbol: 'ETHUSDT',
+      action: 'BUY',
+      type: 'LIMIT',
+      limitPrice: 2000,
+      timeInForce: 'GTC',
+    });
+
+    expect(orderBook.cancelOrder(order.id).status).toBe('CANCELLED');
+    expect(() => orderBook.cancelOrder(order.id)).toThrow('No working order found');
+    expect(orderBook.cancelAll('ETHUSDT')).toHaveLength(1);
+    expect(orderBook.getWorkingOrders()).toHaveLength(0);
+  });
+});
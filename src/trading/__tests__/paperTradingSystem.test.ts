@@ -1,4 +1,8 @@
-import { PaperTradingSystem } from '../paperTradingSystem';
+import { ScheduleFeeModel } from '../feeModel';
+import { InstrumentRegistry } from '../instrumentRegistry';
+import { PaperTradingSystem, TTradingEvent } from '../paperTradingSystem';
+import { createSlippageModel } from '../slippageModel';
+import { InMemoryPortfolioStorage } from '../../storage/portfolioStorage';
 
 describe('PaperTradingSystem', () => {
   let tradingSystem: PaperTradingSystem;
@@ -83,16 +87,823 @@ describe('PaperTradingSystem', () => {
     expect(() => tradingSystem.executeTrade(trade)).toThrow('Insufficient balance');
   });
   
-  it('should throw an error when selling a non-existent position', () => {
-    const trade = {
+  it('should open a short position when selling a symbol with no position', () => {
+    const portfolio = tradingSystem.executeTrade({
       symbol: 'ETHUSDT', // We don't have this position
+      action: 'SELL',
+      price: 3000,
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+    });
+
+    // Check balance (10000 - 3000 - 3 = 6997)
+    // 3000 = margin at 100% of notional, 3 = commission
+    expect(portfolio.balance).toBeCloseTo(6997, 2);
+    expect(portfolio.positions).toHaveLength(1);
+    expect(portfolio.positions[0].side).toBe('SHORT');
+    expect(portfolio.positions[0].margin).toBe(3000);
+    expect(portfolio.trades[0].positionSide).toBe('SHORT');
+    expect(portfolio.trades[0].positionEffect).toBe('OPEN');
+  });
+
+  it('should cover a short position with a buy', () => {
+    tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'SELL',
+      price: 3000,
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+    });
+
+    const portfolio = tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'BUY',
+      price: 2500, // Price dropped, short is profitable
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097700000,
+    });
+
+    // Check balance (6997 + 3000 margin + 500 profit - 2.5 commission = 10494.5)
+    expect(portfolio.balance).toBeCloseTo(10494.5, 2);
+    expect(portfolio.positions).toHaveLength(0);
+    expect(portfolio.trades[1].action).toBe('BUY');
+    expect(portfolio.trades[1].positionSide).toBe('SHORT');
+    expect(portfolio.trades[1].positionEffect).toBe('CLOSE');
+  });
+
+  it('should release margin proportionally on a partial cover', () => {
+    tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'SELL',
+      price: 3000,
+      quantity: 2,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+    });
+
+    const portfolio = tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'BUY',
+      price: 3500, // Price rose, short is losing
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097700000,
+    });
+
+    // 10000 - 6000 - 6 = 3994 after opening; + 3000 margin - 500 loss - 3.5 commission
+    expect(portfolio.balance).toBeCloseTo(6490.5, 2);
+    expect(portfolio.positions).toHaveLength(1);
+    expect(portfolio.positions[0].quantity).toBe(1);
+    expect(portfolio.positions[0].margin).toBe(3000);
+  });
+
+  it('should apply the configured margin requirement to shorts', () => {
+    const marginSystem = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0,
+      marginRequirement: 150,
+    });
+
+    const portfolio = marginSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'SELL',
+      price: 3000,
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+    });
+
+    expect(portfolio.balance).toBe(5500);
+    expect(portfolio.positions[0].margin).toBe(4500);
+  });
+
+  it('should throw an error when short margin exceeds the balance', () => {
+    const trade = {
+      symbol: 'BTCUSDT',
       action: 'SELL' as const,
+      price: 100000,
+      quantity: 1,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+    };
+
+    expect(() => tradingSystem.executeTrade(trade)).toThrow('Insufficient balance');
+  });
+
+  it('should throw an error when selling more than the open long position', () => {
+    tradingSystem.executeTrade({
+      symbol: 'ETHUSDT',
+      action: 'BUY',
       price: 3000,
       quantity: 1,
       strategy: 'TEST',
       timestamp: 1625097600000,
+    });
+
+    const trade = {
+      symbol: 'ETHUSDT',
+      action: 'SELL' as const,
+      price: 3000,
+      quantity: 2,
+      strategy: 'TEST',
+      timestamp: 1625097700000,
     };
-    
+
     expect(() => tradingSystem.executeTrade(trade)).toThrow('No matching position found');
   });
-});
\ No newline at end of file
+
+  describe('exit levels', () => {
+    const entry = {
+      symbol: 'BTCUSDT',
+      price: 50000,
+      quantity: 0.1,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+    };
+
+    it('should store exit levels on the opened position', () => {
+      const portfolio = tradingSystem.executeTrade({
+        ...entry,
+        action: 'BUY',
+        stopLoss: 48000,
+        takeProfit: 55000,
+        trailingStopPercent: 5,
+      });
+
+      const position = portfolio.positions[0];
+      expect(position.stopLoss).toBe(48000);
+      expect(position.takeProfit).toBe(55000);
+      expect(position.trailingStopPrice).toBe(47500);
+    });
+
+    it('should close a long position at its stop-loss', () => {
+      tradingSystem.executeTrade({ ...entry, action: 'BUY', stopLoss: 48000 });
+
+      expect(
+        tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 49000, timestamp: 1 }),
+      ).toHaveLength(0);
+      const [exit] = tradingSystem.processPriceTick({
+        symbol: 'BTCUSDT',
+        price: 47900,
+        timestamp: 2,
+      });
+
+      expect(exit.action).toBe('SELL');
+      expect(exit.exitReason).toBe('STOP_LOSS');
+      expect(exit.price).toBe(47900);
+      expect(tradingSystem.getPortfolio().positions).toHaveLength(0);
+    });
+
+    it('should close a short position at its take-profit', () => {
+      tradingSystem.executeTrade({ ...entry, action: 'SELL', takeProfit: 45000 });
+
+      const [exit] = tradingSystem.processPriceTick({
+        symbol: 'BTCUSDT',
+        price: 45000,
+        timestamp: 2,
+      });
+
+      expect(exit.action).toBe('BUY');
+      expect(exit.positionSide).toBe('SHORT');
+      expect(exit.exitReason).toBe('TAKE_PROFIT');
+      // 10000 - 5000 margin - 5 commission + 5000 margin + 500 profit - 4.5 commission
+      expect(tradingSystem.getPortfolio().balance).toBeCloseTo(10490.5, 2);
+    });
+
+    it('should ratchet a trailing stop behind the best price', () => {
+      tradingSystem.executeTrade({ ...entry, action: 'BUY', trailingStopOffset: 1000 });
+
+      tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 53000, timestamp: 1 });
+      // A pullback does not lower the stop
+      tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 52500, timestamp: 2 });
+      expect(tradingSystem.getPortfolio().positions[0].trailingStopPrice).toBe(52000);
+
+      const [exit] = tradingSystem.processPriceTick({
+        symbol: 'BTCUSDT',
+        price: 51900,
+        timestamp: 3,
+      });
+
+      expect(exit.exitReason).toBe('TRAILING_STOP');
+      expect(exit.price).toBe(51900);
+    });
+
+    it('should journal trailing stop moves with the next trade, not on every tick', () => {
+      const storage = new InMemoryPortfolioStorage();
+      tradingSystem = new PaperTradingSystem({ initialBalance: 100000, commission: 0 }, storage);
+      tradingSystem.executeTrade({ ...entry, action: 'BUY', trailingStopOffset: 1000 });
+
+      tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 53000, timestamp: 1 });
+      tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 54000, timestamp: 2 });
+      expect(storage.load().journal).toHaveLength(1);
+
+      tradingSystem.executeTrade({ ...entry, symbol: 'ETHUSDT', action: 'BUY', price: 1000 });
+      const { journal } = storage.load();
+      expect(journal).toHaveLength(2);
+      expect(journal[1].positions[0]).toMatchObject({
+        symbol: 'BTCUSDT',
+        trailingStopPrice: 53000,
+      });
+    });
+
+    it('should ignore ticks for other symbols', () => {
+      tradingSystem.executeTrade({ ...entry, action: 'BUY', stopLoss: 48000 });
+
+      expect(
+        tradingSystem.processPriceTick({ symbol: 'ETHUSDT', price: 1000, timestamp: 1 }),
+      ).toHaveLength(0);
+      expect(tradingSystem.getPortfolio().positions).toHaveLength(1);
+    });
+  });
+
+  describe('mark to market', () => {
+    const entry = {
+      symbol: 'BTCUSDT',
+      price: 50000,
+      quantity: 0.1,
+      strategy: 'TEST',
+      timestamp: 1625097600000,
+    };
+
+    it('should value positions at their entry price before any tick', () => {
+      tradingSystem.executeTrade({ ...entry, action: 'BUY' });
+
+      const valuation = tradingSystem.getValuation();
+      expect(valuation.positions[0].marketPrice).toBe(50000);
+      expect(valuation.positions[0].unrealizedPnl).toBe(0);
+      expect(valuation.equity).toBeCloseTo(9995, 2);
+    });
+
+    it('should value a long position at the last price', () => {
+      tradingSystem.executeTrade({ ...entry, action: 'BUY' });
+      tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 51000, timestamp: 1 });
+
+      const valuation = tradingSystem.getValuation();
+      expect(tradingSystem.getLastPrice('BTCUSDT')).toBe(51000);
+      expect(valuation.positions[0]).toMatchObject({ marketPrice: 51000, marketValue: 5100 });
+      expect(valuation.positions[0].unrealizedPnl).toBeCloseTo(100, 2);
+      expect(valuation.positions[0].unrealizedPnlPercent).toBeCloseTo(2, 2);
+      // 4995 cash + 5100 market value
+      expect(valuation.equity).toBeCloseTo(10095, 2);
+    });
+
+    it('should value a short position against its margin', () => {
+      tradingSystem.executeTrade({ ...entry, action: 'SELL' });
+      tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 49000, timestamp: 1 });
+
+      const valuation = tradingSystem.getValuation();
+      expect(valuation.positions[0].marketValue).toBeCloseTo(-4900, 2);
+      expect(valuation.positions[0].unrealizedPnl).toBeCloseTo(100, 2);
+      // 4995 cash + 5000 margin + 100 unrealized profit
+      expect(valuation.equity).toBeCloseTo(10095, 2);
+    });
+
+    it('should not take the price of a rejected trade as the last price', () => {
+      tradingSystem.executeTrade({ ...entry, action: 'BUY' });
+
+      expect(() =>
+        tradingSystem.executeTrade({ ...entry, action: 'BUY', price: 1000000, quantity: 1 }),
+      ).toThrow('Insufficient balance to execute buy order');
+      expect(tradingSystem.getLastPrice('BTCUSDT')).toBe(50000);
+      expect(tradingSystem.getValuation().positions[0].marketPrice).toBe(50000);
+    });
+  });
+
+  describe('equity history', () => {
+    const entry = {
+      symbol: 'BTCUSDT',
+      action: 'BUY' as const,
+      price: 50000,
+      quantity: 0.1,
+      strategy: 'TEST',
+      timestamp: 0,
+    };
+
+    it('should record a snapshot after every trade', () => {
+      tradingSystem.executeTrade(entry);
+
+      expect(tradingSystem.getEquityHistory()).toEqual([
+        { timestamp: 0, equity: expect.closeTo(9995, 2), cash: 4995, exposure: 5000 },
+      ]);
+    });
+
+    it('should record snapshots on ticks at most once per interval', () => {
+      tradingSystem.executeTrade(entry);
+      [30000, 60000, 90000, 120000].forEach(timestamp =>
+        tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 51000, timestamp }),
+      );
+
+      const history = tradingSystem.getEquityHistory();
+      expect(history.map(snapshot => snapshot.timestamp)).toEqual([0, 60000, 120000]);
+      expect(history[1].equity).toBeCloseTo(10095, 2);
+      expect(history[1].exposure).toBeCloseTo(5100, 2);
+    });
+
+    it('should sample the equity of an idle account at most once per interval', () => {
+      tradingSystem.sampleEquity(0);
+      tradingSystem.sampleEquity(30000);
+      tradingSystem.sampleEquity(60000);
+
+      expect(tradingSystem.getEquityHistory()).toEqual([
+        { timestamp: 0, equity: 10000, cash: 10000, exposure: 0 },
+        { timestamp: 60000, equity: 10000, cash: 10000, exposure: 0 },
+      ]);
+    });
+  });
+
+  describe('lot ledger', () => {
+    const lot = {
+      symbol: 'BTCUSDT',
+      quantity: 10,
+      strategy: 'TEST',
+    };
+
+    const openLots = (system: PaperTradingSystem): void => {
+      system.executeTrade({ ...lot, action: 'BUY', price: 100, timestamp: 0 });
+      system.executeTrade({ ...lot, action: 'BUY', price: 200, timestamp: 1000 });
+    };
+
+    it('should close across lots and record the realized P&L with FIFO', () => {
+      tradingSystem = new PaperTradingSystem({ initialBalance: 10000, commission: 0 });
+      openLots(tradingSystem);
+
+      const portfolio = tradingSystem.executeTrade({
+        ...lot,
+        action: 'SELL',
+        price: 150,
+        quantity: 15,
+        timestamp: 3000,
+      });
+
+      // 10 @ 100 and 5 @ 200 closed at 150
+      expect(portfolio.trades[2].realizedPnl).toBe(250);
+      // (10 * 3000 + 5 * 2000) / 15
+      expect(portfolio.trades[2].holdingTime).toBeCloseTo(2666.67, 2);
+      expect(portfolio.positions).toEqual([
+        expect.objectContaining({ entryPrice: 200, quantity: 5 }),
+      ]);
+      expect(portfolio.balance).toBe(10000 - 3000 + 15 * 150);
+    });
+
+    it('should close the newest lots first with LIFO', () => {
+      tradingSystem = new PaperTradingSystem({
+        initialBalance: 10000,
+        commission: 0,
+        costBasisMethod: 'LIFO',
+      });
+      openLots(tradingSystem);
+
+      const portfolio = tradingSystem.executeTrade({
+        ...lot,
+        action: 'SELL',
+        price: 150,
+        quantity: 5,
+        timestamp: 3000,
+      });
+
+      expect(portfolio.trades[2].realizedPnl).toBe(-250);
+      expect(portfolio.positions.map(position => position.quantity)).toEqual([10, 5]);
+    });
+
+    it('should realize the average cost with AVERAGE', () => {
+      tradingSystem = new PaperTradingSystem({
+        initialBalance: 10000,
+        commission: 0,
+        costBasisMethod: 'AVERAGE',
+      });
+      openLots(tradingSystem);
+
+      const portfolio = tradingSystem.executeTrade({
+        ...lot,
+        action: 'SELL',
+        price: 160,
+        quantity: 10,
+        timestamp: 3000,
+      });
+
+      // Average cost 150
+      expect(portfolio.trades[2].realizedPnl).toBeCloseTo(100, 8);
+      expect(portfolio.positions.map(position => position.quantity)).toEqual([5, 5]);
+    });
+
+    it('should include opening and closing commission in the realized P&L', () => {
+      tradingSystem.executeTrade({ ...lot, action: 'BUY', price: 100, timestamp: 0 });
+
+      const portfolio = tradingSystem.executeTrade({
+        ...lot,
+        action: 'SELL',
+        price: 110,
+        quantity: 5,
+        timestamp: 1000,
+      });
+
+      // 50 profit - 0.5 of the 1.0 opening commission - 0.55 closing commission
+      expect(portfolio.trades[1].realizedPnl).toBeCloseTo(48.95, 8);
+      expect(portfolio.positions[0].entryCommission).toBeCloseTo(0.5, 8);
+    });
+  });
+
+  describe('fees and slippage', () => {
+    const trade = {
+      symbol: 'ES',
+      quantity: 2,
+      strategy: 'TEST',
+      timestamp: 0,
+    };
+
+    beforeEach(() => {
+      tradingSystem = new PaperTradingSystem({
+        initialBalance: 10000,
+        commission: 0,
+        feeModel: new ScheduleFeeModel({ perUnit: 2, perOrder: 1 }),
+        slippageModel: createSlippageModel({ type: 'FIXED_TICKS', ticks: 1, tickSize: 0.5 }),
+      });
+    });
+
+    it('should record the requested price, the fill price and the fee breakdown', () => {
+      const portfolio = tradingSystem.executeTrade({ ...trade, action: 'BUY', price: 100 });
+
+      expect(portfolio.trades[0]).toMatchObject({
+        price: 100.5,
+        requestedPrice: 100,
+        liquidity: 'TAKER',
+        commission: 5,
+        fees: { percentage: 0, perUnit: 4, perOrder: 1, total: 5 },
+      });
+      expect(portfolio.positions[0].entryPrice).toBe(100.5);
+      expect(portfolio.balance).toBe(10000 - 201 - 5);
+      // Positions are marked at the requested price, not the fill
+      expect(tradingSystem.getLastPrice('ES')).toBe(100);
+    });
+
+    it('should realize the P&L at the fill prices net of fees', () => {
+      tradingSystem.executeTrade({ ...trade, action: 'BUY', price: 100 });
+      const portfolio = tradingSystem.executeTrade({ ...trade, action: 'SELL', price: 110 });
+
+      // Filled 100.5 and 109.5, less 5 fees each way
+      expect(portfolio.trades[1].price).toBe(109.5);
+      expect(portfolio.trades[1].realizedPnl).toBeCloseTo(8, 8);
+      expect(portfolio.balance).toBeCloseTo(10008, 8);
+    });
+
+    it('should not slip maker fills', () => {
+      const portfolio = tradingSystem.executeTrade(
+        { ...trade, action: 'BUY', price: 100 },
+        { liquidity: 'MAKER' },
+      );
+
+      expect(portfolio.trades[0].price).toBe(100);
+      expect(portfolio.trades[0].liquidity).toBe('MAKER');
+    });
+
+    it('should slip stop exits but not take-profit exits', () => {
+      tradingSystem.executeTrade({ ...trade, action: 'BUY', price: 100, stopLoss: 95 });
+      tradingSystem.executeTrade({ ...trade, action: 'BUY', price: 100, takeProfit: 105 });
+
+      const [stopExit] = tradingSystem.processPriceTick({ symbol: 'ES', price: 95, timestamp: 1 });
+      const [profitExit] = tradingSystem.processPriceTick({
+        symbol: 'ES',
+        price: 105,
+        timestamp: 2,
+      });
+
+      expect(stopExit).toMatchObject({ price: 94.5, requestedPrice: 95, liquidity: 'TAKER' });
+      expect(profitExit).toMatchObject({ price: 105, requestedPrice: 105, liquidity: 'MAKER' });
+    });
+
+    it('should fill recorded commissions at the requested price', () => {
+      const portfolio = tradingSystem.executeTrade(
+        { ...trade, action: 'BUY', price: 100 },
+        { commission: 1.25 },
+      );
+
+      expect(portfolio.trades[0]).toMatchObject({
+        price: 100,
+        commission: 1.25,
+        fees: { percentage: 0, perUnit: 0, perOrder: 1.25, total: 1.25 },
+      });
+      expect(portfolio.balance).toBe(10000 - 200 - 1.25);
+    });
+  });
+
+  describe('position sizing', () => {
+    const entry = {
+      symbol: 'BTCUSDT',
+      action: 'BUY' as const,
+      price: 300,
+      strategy: 'TEST',
+      timestamp: 0,
+    };
+
+    beforeEach(() => {
+      tradingSystem = new PaperTradingSystem({
+        initialBalance: 10000,
+        commission: 0,
+        positionSizing: { lotSize: 0.1 },
+      });
+    });
+
+    it('should size entries without a quantity from the equity', () => {
+      const portfolio = tradingSystem.executeTrade({
+        ...entry,
+        sizeMode: 'EQUITY_PERCENT',
+        sizeValue: 10,
+      });
+
+      // 1000 / 300 = 3.33, rounded down to 0.1 lots
+      expect(portfolio.trades[0].quantity).toBe(3.3);
+    });
+
+    it('should size by the risk between the price and the stop-loss', () => {
+      const portfolio = tradingSystem.executeTrade({
+        ...entry,
+        sizeMode: 'RISK_PERCENT',
+        sizeValue: 1,
+        stopLoss: 290,
+      });
+
+      // Risking 100 at 10 per unit
+      expect(portfolio.trades[0].quantity).toBe(10);
+    });
+
+    it('should close the whole position when a closing trade omits the quantity', () => {
+      tradingSystem.executeTrade({ ...entry, quantity: 2 });
+      tradingSystem.executeTrade({ ...entry, quantity: 1.5 });
+
+      const portfolio = tradingSystem.executeTrade({ ...entry, action: 'SELL', price: 310 });
+
+      expect(portfolio.trades[2].quantity).toBe(3.5);
+      expect(portfolio.positions).toHaveLength(0);
+    });
+
+    it('should require a quantity or sizeMode to open a position', () => {
+      expect(() => tradingSystem.executeTrade(entry)).toThrow(
+        'Quantity or sizeMode is required to open a position on BTCUSDT',
+      );
+    });
+  });
+
+  describe('instruments', () => {
+    const future = {
+      symbol: 'ES1!',
+      action: 'BUY' as const,
+      price: 4500,
+      quantity: 2,
+      strategy: 'TEST',
+      timestamp: 0,
+    };
+
+    beforeEach(() => {
+      tradingSystem = new PaperTradingSystem({
+        initialBalance: 1000000,
+        commission: 0,
+        instruments: new InstrumentRegistry([
+          { symbol: 'ES1!', assetClass: 'FUTURE', tickSize: 0.25, lotSize: 1, multiplier: 50 },
+        ]),
+        slippageModel: createSlippageModel({ type: 'BPS', bps: 1 }),
+      });
+    });
+
+    it('should value positions and realize P&L with the contract multiplier', () => {
+      tradingSystem.executeTrade(future, { liquidity: 'MAKER' });
+
+      tradingSystem.processPriceTick({ symbol: 'ES1!', price: 4510, timestamp: 1 });
+      expect(tradingSystem.getValuation().positions[0]).toMatchObject({
+        marketValue: 451000,
+        unrealizedPnl: 1000,
+      });
+
+      const portfolio = tradingSystem.executeTrade(
+        { ...future, action: 'SELL', price: 4520, timestamp: 2 },
+        { liquidity: 'MAKER' },
+      );
+      expect(portfolio.trades[1].realizedPnl).toBe(2000);
+      expect(portfolio.balance).toBe(1002000);
+    });
+
+    it('should round slipped fills to the tick size', () => {
+      const portfolio = tradingSystem.executeTrade(future);
+
+      // 4500 + 1 bp = 4500.45, up to the next 0.25 tick
+      expect(portfolio.trades[0].price).toBe(4500.5);
+    });
+
+    it('should slip fixed ticks of the instrument tick size', () => {
+      tradingSystem = new PaperTradingSystem({
+        initialBalance: 1000000,
+        commission: 0,
+        instruments: new InstrumentRegistry([
+          { symbol: 'ES1!', assetClass: 'FUTURE', tickSize: 0.25, multiplier: 50 },
+        ]),
+        slippageModel: createSlippageModel({ type: 'FIXED_TICKS', ticks: 2 }),
+      });
+
+      expect(tradingSystem.executeTrade(future).trades[0].price).toBe(4500.5);
+    });
+
+    it('should reject quantities that are not whole lots', () => {
+      expect(() => tradingSystem.executeTrade({ ...future, quantity: 1.5 })).toThrow(
+        'Quantity 1.5 of ES1! is not a multiple of its lot size 1',
+      );
+    });
+
+    it('should size entries in whole contracts', () => {
+      const portfolio = tradingSystem.executeTrade(
+        { ...future, quantity: undefined, sizeMode: 'CASH', sizeValue: 500000 },
+        { liquidity: 'MAKER' },
+      );
+
+      // 500000 / (4500 * 50) = 2.2 contracts
+      expect(portfolio.trades[0].quantity).toBe(2);
+    });
+  });
+
+  describe('events', () => {
+    const entry = {
+      symbol: 'BTCUSDT',
+      action: 'BUY' as const,
+      price: 100,
+      quantity: 10,
+      strategy: 'TEST',
+      timestamp: 0,
+      stopLoss: 90,
+    };
+
+    it('should report trades, position changes and equity snapshots', () => {
+      const events: TTradingEvent[] = [];
+      tradingSystem.subscribe(event => events.push(event));
+
+      tradingSystem.executeTrade(entry);
+
+      expect(events.map(event => event.type)).toEqual([
+        'TRADE_EXECUTED',
+        'POSITION_CHANGED',
+        'EQUITY_UPDATED',
+      ]);
+      expect(events[0]).toEqual({
+        type: 'TRADE_EXECUTED',
+        trade: tradingSystem.getPortfolio().trades[0],
+      });
+      expect(events[1]).toMatchObject({
+        symbol: 'BTCUSDT',
+        positions: [expect.objectContaining({ quantity: 10, marketPrice: 100 })],
+      });
+      expect(events[2]).toMatchObject({ snapshot: { timestamp: 0, cash: 8999 } });
+    });
+
+    it('should report exits triggered by price ticks', () => {
+      tradingSystem.executeTrade(entry);
+      const events: TTradingEvent[] = [];
+      tradingSystem.subscribe(event => events.push(event));
+
+      tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 89, timestamp: 1000 });
+
+      expect(events.map(event => event.type)).toEqual([
+        'TRADE_EXECUTED',
+        'POSITION_CHANGED',
+        'EQUITY_UPDATED',
+      ]);
+      expect(events[0]).toMatchObject({ trade: { exitReason: 'STOP_LOSS', price: 89 } });
+      expect(events[1]).toMatchObject({ positions: [] });
+    });
+
+    it('should stop reporting to removed listeners', () => {
+      const listener = jest.fn();
+      const unsubscribe = tradingSystem.subscribe(listener);
+      unsubscribe();
+
+      tradingSystem.executeTrade(entry);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep trading when a listener fails', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      tradingSystem.subscribe(() => {
+        throw new Error('listener failed');
+      });
+
+      tradingSystem.executeTrade(entry);
+
+      expect(tradingSystem.getPortfolio().positions).toHaveLength(1);
+      jest.restoreAllMocks();
+    });
+
+    it('should adopt the state of another system silently and save it once', () => {
+      tradingSystem.executeTrade(entry);
+      const storage = new InMemoryPortfolioStorage();
+      const adopting = new PaperTradingSystem({ initialBalance: 10000, commission: 0.1 }, storage);
+      const listener = jest.fn();
+      adopting.subscribe(listener);
+
+      adopting.adoptState(tradingSystem);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(adopting.getPortfolio()).toEqual(tradingSystem.getPortfolio());
+      expect(adopting.getLastPrice('BTCUSDT')).toBe(100);
+      expect(storage.load().journal).toHaveLength(0);
+
+      const restarted = new PaperTradingSystem({ initialBalance: 10000, commission: 0.1 }, storage);
+      expect(restarted.getPortfolio()).toEqual(tradingSystem.getPortfolio());
+      expect(restarted.getEquityHistory()).toEqual(tradingSystem.getEquityHistory());
+    });
+  });
+
+  describe('position management', () => {
+    const lot = {
+      symbol: 'BTCUSDT',
+      quantity: 10,
+      strategy: 'TEST',
+    };
+
+    beforeEach(() => {
+      tradingSystem = new PaperTradingSystem({ initialBalance: 10000, commission: 0 });
+      tradingSystem.executeTrade({ ...lot, action: 'BUY', price: 100, timestamp: 0 });
+      tradingSystem.executeTrade({ ...lot, action: 'BUY', price: 200, timestamp: 1000 });
+    });
+
+    it('should number positions by their opening trade and keep ids through partial closes', () => {
+      tradingSystem.executeTrade({
+        ...lot,
+        action: 'SELL',
+        price: 150,
+        quantity: 5,
+        timestamp: 2000,
+      });
+
+      expect(tradingSystem.getPortfolio().positions).toEqual([
+        expect.objectContaining({ id: 'position-1', quantity: 5 }),
+        expect.objectContaining({ id: 'position-2', quantity: 10 }),
+      ]);
+      expect(tradingSystem.getPosition('position-2')).toMatchObject({ entryPrice: 200 });
+      expect(tradingSystem.getPosition('position-9')).toBeUndefined();
+    });
+
+    it('should close part of a chosen position whatever the cost-basis method', () => {
+      const trade = tradingSystem.closePosition(
+        'position-2',
+        { price: 250, quantity: 4, timestamp: 3000 },
+        { source: 'manual' },
+      );
+
+      expect(trade).toMatchObject({
+        action: 'SELL',
+        quantity: 4,
+        price: 250,
+        positionEffect: 'CLOSE',
+        realizedPnl: 200,
+        source: 'manual',
+      });
+      expect(tradingSystem.getPortfolio().positions.map(pos => pos.quantity)).toEqual([10, 6]);
+
+      tradingSystem.closePosition('position-2', { price: 250, timestamp: 4000 });
+      expect(tradingSystem.getPortfolio().positions.map(pos => pos.id)).toEqual(['position-1']);
+      expect(tradingSystem.getPortfolio().balance).toBe(10000 - 3000 + 10 * 250);
+    });
+
+    it('should refuse to close more than the open quantity or an unknown position', () => {
+      expect(() =>
+        tradingSystem.closePosition('position-1', { price: 100, quantity: 11, timestamp: 0 }),
+      ).toThrow('Quantity 11 exceeds the open quantity 10 of position position-1');
+      expect(() => tradingSystem.closePosition('position-9', { price: 100, timestamp: 0 })).toThrow(
+        'No open position found with id position-9',
+      );
+    });
+
+    it('should set and remove exit levels, restarting the trailing stop at the last price', () => {
+      tradingSystem.processPriceTick({ symbol: 'BTCUSDT', price: 220, timestamp: 2000 });
+
+      const updated = tradingSystem.updateExitLevels(
+        'position-2',
+        { stopLoss: 180, trailingStopOffset: 15 },
+        3000,
+      );
+      expect(updated).toMatchObject({
+        stopLoss: 180,
+        trailingStopOffset: 15,
+        trailingStopPrice: 205,
+      });
+
+      const switched = tradingSystem.updateExitLevels(
+        'position-2',
+        { stopLoss: null, trailingStopPercent: 10 },
+        4000,
+      );
+      expect(switched.stopLoss).toBeUndefined();
+      expect(switched.trailingStopOffset).toBeUndefined();
+      expect(switched.trailingStopPrice).toBe(198);
+
+      const [exit] = tradingSystem.processPriceTick({
+        symbol: 'BTCUSDT',
+        price: 197,
+        timestamp: 5000,
+      });
+      expect(exit).toMatchObject({ exitReason: 'TRAILING_STOP', strategy: 'TEST', quantity: 10 });
+      expect(tradingSystem.getPortfolio().positions.map(pos => pos.id)).toEqual(['position-1']);
+    });
+  });
+});
+
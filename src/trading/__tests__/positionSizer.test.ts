@@ -0,0 +1,51 @@
+import { PositionSizer } from '../positionSizer';
+
+describe('PositionSizer', () => {
+  const request = {
+    symbol: 'ETHUSDT',
+    price: 200,
+    sizeMode: 'CASH' as const,
+    sizeValue: 1000,
+  };
+
+  it('should size by cash amount, equity percentage and risk', () => {
+    const sizer = new PositionSizer();
+
+    expect(sizer.size(request, 10000)).toBe(5);
+    expect(sizer.size({ ...request, sizeMode: 'EQUITY_PERCENT', sizeValue: 20 }, 10000)).toBe(10);
+    expect(
+      sizer.size({ ...request, sizeMode: 'RISK_PERCENT', sizeValue: 2, stopLoss: 190 }, 10000),
+    ).toBe(20);
+  });
+
+  it('should round to the lot size of the symbol', () => {
+    const sizer = new PositionSizer({
+      lotSize: 0.01,
+      symbols: { ETHUSDT: { lotSize: 3, rounding: 'NEAREST' } },
+    });
+
+    expect(sizer.size({ ...request, sizeValue: 1300 }, 10000)).toBe(6);
+    expect(sizer.size({ ...request, symbol: 'BTCUSDT', sizeValue: 1001 }, 10000)).toBe(5);
+  });
+
+  it('should round up when configured and guard against floating-point error', () => {
+    expect(new PositionSizer({ lotSize: 2, rounding: 'UP' }).size(request, 10000)).toBe(6);
+    expect(new PositionSizer({ lotSize: 0.1 }).size({ ...request, sizeValue: 60 }, 10000)).toBe(
+      0.3,
+    );
+  });
+
+  it('should reject sizes below the minimum quantity', () => {
+    const sizer = new PositionSizer({ lotSize: 1, minQuantity: 10 });
+
+    expect(() => sizer.size(request, 10000)).toThrow(
+      'Sized quantity for ETHUSDT is below the minimum of 10',
+    );
+  });
+
+  it('should reject risk sizing without a stop-loss distance', () => {
+    expect(() =>
+      new PositionSizer().size({ ...request, sizeMode: 'RISK_PERCENT', stopLoss: 200 }, 10000),
+    ).toThrow('RISK_PERCENT sizing for ETHUSDT needs a stop-loss away from the price');
+  });
+});
@@ -0,0 +1,126 @@
+import { PaperTradingSystem } from '../paperTradingSystem';
+import { RiskRejectionError } from '../riskEngine';
+
+describe('RiskEngine', () => {
+  const trade = {
+    symbol: 'BTCUSDT',
+    action: 'BUY' as const,
+    price: 100,
+    quantity: 10,
+    strategy: 'TEST',
+    timestamp: 0,
+  };
+
+  const rejectionOf = (system: PaperTradingSystem, request = trade): RiskRejectionError => {
+    try {
+      system.executeTrade(request);
+    } catch (error) {
+      return error as RiskRejectionError;
+    }
+    throw new Error('Trade was not rejected');
+  };
+
+  it('should cap the position on a symbol as a percentage of equity', () => {
+    const system = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0,
+      riskLimits: { maxPositionPercent: 15 },
+    });
+
+    system.executeTrade(trade);
+    const error = rejectionOf(system);
+
+    expect(error).toBeInstanceOf(RiskRejectionError);
+    expect(error.rejection).toMatchObject({ rule: 'MAX_POSITION_SIZE', symbol: 'BTCUSDT' });
+    expect(system.getPortfolio().positions).toHaveLength(1);
+    expect(system.getRiskRejections()).toEqual([error.rejection]);
+  });
+
+  it('should cap gross exposure, open positions and symbol quantity', () => {
+    const exposure = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0,
+      riskLimits: { maxGrossExposurePercent: 15 },
+    });
+    exposure.executeTrade(trade);
+    expect(rejectionOf(exposure, { ...trade, symbol: 'ETHUSDT' }).rejection.rule).toBe(
+      'MAX_GROSS_EXPOSURE',
+    );
+
+    const positions = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0,
+      riskLimits: { maxOpenPositions: 1 },
+    });
+    positions.executeTrade(trade);
+    positions.executeTrade(trade);
+    expect(rejectionOf(positions, { ...trade, symbol: 'ETHUSDT' }).rejection.rule).toBe(
+      'MAX_OPEN_POSITIONS',
+    );
+
+    const quantity = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0,
+      riskLimits: { maxSymbolQuantity: { BTCUSDT: 15 } },
+    });
+    quantity.executeTrade(trade);
+    expect(rejectionOf(quantity).rejection.rule).toBe('MAX_SYMBOL_QUANTITY');
+  });
+
+  it('should always allow closing trades', () => {
+    const system = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0,
+      riskLimits: { maxSymbolQuantity: { BTCUSDT: 10 } },
+    });
+
+    system.executeTrade(trade);
+    system.executeTrade({ ...trade, action: 'SELL' });
+
+    expect(system.getPortfolio().positions).toHaveLength(0);
+  });
+
+  it('should halt the account once the daily loss limit is reached until reset', () => {
+    const system = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0,
+      riskLimits: { lossLimit: 50 },
+    });
+
+    system.executeTrade(trade);
+    system.executeTrade({ ...trade, action: 'SELL', price: 94, timestamp: 1000 });
+
+    expect(system.getRiskStatus().halt).toEqual({ since: 1000, period: 'DAILY', realizedPnl: -60 });
+    expect(rejectionOf(system, { ...trade, timestamp: 2000 }).rejection.rule).toBe('LOSS_LIMIT');
+
+    // Still halted on the next day until reset
+    expect(rejectionOf(system, { ...trade, timestamp: 86400000 }).rejection.rule).toBe(
+      'LOSS_LIMIT',
+    );
+
+    system.resetRiskHalt();
+    system.executeTrade({ ...trade, timestamp: 3000 });
+    system.executeTrade({ ...trade, action: 'SELL', price: 99, timestamp: 4000 });
+
+    // Losses before the halt no longer count after the reset
+    expect(system.getRiskStatus().halt).toBeUndefined();
+  });
+
+  it('should count losses over the UTC week with a weekly limit', () => {
+    const system = new PaperTradingSystem({
+      initialBalance: 10000,
+      commission: 0,
+      riskLimits: { lossLimit: 50, lossLimitPeriod: 'WEEKLY' },
+    });
+    // Monday 5 July 2021 and Wednesday 7 July 2021
+    const monday = Date.UTC(2021, 6, 5);
+    const wednesday = Date.UTC(2021, 6, 7);
+
+    system.executeTrade({ ...trade, timestamp: monday });
+    system.executeTrade({ ...trade, action: 'SELL', price: 97, timestamp: monday + 1 });
+    system.executeTrade({ ...trade, timestamp: wednesday });
+    system.executeTrade({ ...trade, action: 'SELL', price: 97, timestamp: wednesday + 1 });
+
+    expect(system.getRiskStatus().halt).toMatchObject({ period: 'WEEKLY', realizedPnl: -60 });
+  });
+});
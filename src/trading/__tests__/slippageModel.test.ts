@@ -0,0 +1,54 @@
+import { createSlippageModel, ISlippageRequest } from '../slippageModel';
+
+describe('createSlippageModel', () => {
+  const buy: ISlippageRequest = { symbol: 'ES', action: 'BUY', price: 100, quantity: 10 };
+  const sell: ISlippageRequest = { ...buy, action: 'SELL' };
+
+  it('should fill at the requested price without slippage', () => {
+    const model = createSlippageModel({ type: 'NONE' });
+
+    expect(model.apply(buy)).toBe(100);
+    expect(model.apply(sell)).toBe(100);
+  });
+
+  it('should move the price by a fixed number of ticks against the trader', () => {
+    const model = createSlippageModel({ type: 'FIXED_TICKS', ticks: 2, tickSize: 0.25 });
+
+    expect(model.apply(buy)).toBe(100.5);
+    expect(model.apply(sell)).toBe(99.5);
+  });
+
+  it('should move the price by ticks of the instrument unless the model sets a tick size', () => {
+    const model = createSlippageModel({ type: 'FIXED_TICKS', ticks: 2 });
+
+    expect(model.apply({ ...buy, tickSize: 0.25 })).toBe(100.5);
+    expect(model.apply({ ...sell, price: 1.1, tickSize: 0.0001 })).toBeCloseTo(1.0998, 8);
+    expect(model.apply(buy)).toBeCloseTo(100.02, 8);
+    expect(
+      createSlippageModel({ type: 'FIXED_TICKS', ticks: 2, tickSize: 1 }).apply({
+        ...buy,
+        tickSize: 0.25,
+      }),
+    ).toBe(102);
+  });
+
+  it('should move the price by basis points', () => {
+    const model = createSlippageModel({ type: 'BPS', bps: 10 });
+
+    expect(model.apply(buy)).toBeCloseTo(100.1, 8);
+    expect(model.apply(sell)).toBeCloseTo(99.9, 8);
+  });
+
+  it('should move the price in proportion to the quantity up to the cap', () => {
+    const model = createSlippageModel({ type: 'VOLUME', bpsPerUnit: 1, maxBps: 50 });
+
+    expect(model.apply(buy)).toBeCloseTo(100.1, 8);
+    expect(model.apply({ ...buy, quantity: 1000 })).toBeCloseTo(100.5, 8);
+  });
+
+  it('should never fill a sell below zero', () => {
+    const model = createSlippageModel({ type: 'FIXED_TICKS', ticks: 10, tickSize: 1 });
+
+    expect(model.apply({ ...sell, price: 5 })).toBe(0);
+  });
+});
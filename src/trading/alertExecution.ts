@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+
+import { OrderBook } from './orderBook';
+import { IExecutionOptions, PaperTradingSystem } from './paperTradingSystem';
+import { IOrder } from '../models/order.interface';
+import { ITradingViewWebhook } from '../models/webhook.interface';
+
+/**
+ * Execute an alert against a trading system and its order book: resting
+ * order types are placed in the order book, EXIT alerts close the strategy's
+ * positions and other alerts trade at market. The alert price is not applied
+ * as a price tick.
+ * @param tradingSystem - The trading system to trade in
+ * @param orderBook - The order book resting orders are placed in
+ * @param webhook - The validated webhook payload
+ * @param options - Execution details to record on the trades and orders
+ * @returns The placed order for resting order types, otherwise undefined
+ */
+export function executeAlert(
+  tradingSystem: PaperTradingSystem,
+  orderBook: OrderBook,
+  webhook: ITradingViewWebhook,
+  options: IExecutionOptions = {},
+): IOrder | undefined {
+  const orderType = webhook.orderType ?? 'MARKET';
+  if (orderType !== 'MARKET' && webhook.action !== 'EXIT') {
+    // Resting entries without a quantity are sized at their limit or stop price when placed
+    const quantity =
+      webhook.quantity ??
+      tradingSystem.sizePosition({
+        ...webhook,
+        action: webhook.action,
+        price: webhook.limitPrice ?? webhook.stopPrice ?? webhook.price,
+      });
+
+    return orderBook.placeOrder({
+      symbol: webhook.symbol,
+      action: webhook.action,
+      type: orderType,
+      quantity,
+      limitPrice: webhook.limitPrice,
+      stopPrice: webhook.stopPrice,
+      timeInForce: webhook.timeInForce ?? 'GTC',
+      strategy: webhook.strategy,
+      timestamp: webhook.timestamp,
+      stopLoss: webhook.stopLoss,
+      takeProfit: webhook.takeProfit,
+      trailingStopPercent: webhook.trailingStopPercent,
+      trailingStopOffset: webhook.trailingStopOffset,
+      source: options.source,
+    });
+  }
+
+  if (webhook.action === 'EXIT') {
+    exitPositions(tradingSystem, webhook, options);
+  } else {
+    // Execute the trade in the paper trading system
+    tradingSystem.executeTrade(
+      {
+        symbol: webhook.symbol,
+        action: webhook.action,
+        price: webhook.price,
+        quantity: webhook.quantity,
+        strategy: webhook.strategy,
+        timestamp: webhook.timestamp,
+        stopLoss: webhook.stopLoss,
+        takeProfit: webhook.takeProfit,
+        trailingStopPercent: webhook.trailingStopPercent,
+        trailingStopOffset: webhook.trailingStopOffset,
+        sizeMode: webhook.sizeMode,
+        sizeValue: webhook.sizeValue,
+      },
+      options,
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Close every open position the alert's strategy holds on the symbol at the alert price
+ */
+function exitPositions(
+  tradingSystem: PaperTradingSystem,
+  webhook: ITradingViewWebhook,
+  options: IExecutionOptions,
+): void {
+  const positions = tradingSystem
+    .getPortfolio()
+    .positions.filter(pos => pos.symbol === webhook.symbol && pos.strategy === webhook.strategy);
+
+  if (positions.length === 0) {
+    throw new Error(`No open position to exit for ${webhook.symbol}`);
+  }
+
+  // One closing trade per side, so the whole exit realizes its P&L in a single trade
+  (['LONG', 'SHORT'] as const).forEach(side => {
+    const quantity = positions
+      .filter(pos => pos.side === side)
+      .reduce((total, pos) => total + pos.quantity, 0);
+    if (quantity > 0) {
+      tradingSystem.executeTrade(
+        {
+          symbol: webhook.symbol,
+          action: side === 'LONG' ? 'SELL' : 'BUY',
+          price: webhook.price,
+          quantity,
+          strategy: webhook.strategy,
+          timestamp: webhook.timestamp,
+        },
+        options,
+      );
+    }
+  });
+}
+
+/**
+ * Identify an alert by its `alertId`, or by a hash of its trade fields when
+ * the sender does not provide one
+ * @param webhook - The webhook payload
+ * @returns The idempotency key of the alert
+ */
+export function getAlertId(webhook: ITradingViewWebhook): string {
+  if (webhook.alertId) {
+    return webhook.alertId;
+  }
+
+  const { symbol, action, price, quantity, strategy, timestamp } = webhook;
+  return createHash('sha256')
+    .update(JSON.stringify([symbol, action, price, quantity, strategy, timestamp]))
+    .digest('hex');
+}
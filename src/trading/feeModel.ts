@@ -0,0 +1,91 @@
+import { TTradeAction } from '../models/webhook.interface';
+
+/**
+ * Whether a fill added liquidity (a resting limit order) or took it
+ */
+export type TLiquidity = 'MAKER' | 'TAKER';
+
+/**
+ * A fill to calculate fees for, at its filled price
+ */
+export interface IFill {
+  symbol: string;
+  action: TTradeAction;
+  price: number;
+  quantity: number;
+  liquidity: TLiquidity;
+  multiplier?: number; // Contract multiplier, default 1
+}
+
+/**
+ * Fees charged on a fill. `total` is the sum of the components after the
+ * schedule's minimum and maximum are applied.
+ */
+export interface IFeeBreakdown {
+  percentage: number; // Percentage of the notional, at the maker or taker rate
+  perUnit: number; // Per share or contract
+  perOrder: number; // Flat fee per order
+  total: number;
+}
+
+/**
+ * Fee schedule. Every component is optional and they add up.
+ */
+export interface IFeeSchedule {
+  percent?: number; // Percentage of the notional, the taker rate when makerPercent is set
+  makerPercent?: number; // Percentage of the notional for maker fills
+  perUnit?: number; // Fee per share or contract
+  perOrder?: number; // Flat fee per order
+  minimum?: number; // Minimum total fee per order
+  maximum?: number; // Maximum total fee per order
+}
+
+/**
+ * Fee schedule with per-symbol overrides, which replace the components they set
+ */
+export interface IFeeModelConfig extends IFeeSchedule {
+  symbols?: Record<string, IFeeSchedule>;
+}
+
+/**
+ * Calculates the fees charged on a fill
+ */
+export interface IFeeModel {
+  calculate(fill: IFill): IFeeBreakdown;
+}
+
+/**
+ * Fee model charging a configurable schedule of percentage, per-unit and
+ * per-order fees, with per-symbol overrides
+ */
+export class ScheduleFeeModel implements IFeeModel {
+  /**
+   * Creates a new ScheduleFeeModel
+   * @param config - The default fee schedule and per-symbol overrides
+   */
+  constructor(private readonly config: IFeeModelConfig) {}
+
+  /**
+   * Calculates the fees charged on a fill
+   * @param fill - The fill at its filled price
+   * @returns The fee breakdown
+   */
+  public calculate(fill: IFill): IFeeBreakdown {
+    const { symbols, ...defaults } = this.config;
+    const schedule: IFeeSchedule = { ...defaults, ...symbols?.[fill.symbol] };
+
+    const rate =
+      fill.liquidity === 'MAKER' ? schedule.makerPercent ?? schedule.percent : schedule.percent;
+    const notional = fill.price * fill.quantity * (fill.multiplier ?? 1);
+    const percentage = notional * ((rate ?? 0) / 100);
+    const perUnit = fill.quantity * (schedule.perUnit ?? 0);
+    const perOrder = schedule.perOrder ?? 0;
+
+    const total = Math.min(
+      Math.max(percentage + perUnit + perOrder, schedule.minimum ?? 0),
+      schedule.maximum ?? Infinity,
+    );
+
+    return { percentage, perUnit, perOrder, total };
+  }
+}
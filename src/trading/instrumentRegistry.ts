@@ -0,0 +1,92 @@
+import { IInstrument } from '../models/instrument.interface';
+import { TTradeAction } from '../models/webhook.interface';
+
+// Guards multiple checks against floating-point error, e.g. 0.3 / 0.1 = 2.9999999999999996
+const INCREMENT_EPSILON = 1e-9;
+
+/**
+ * Checks whether a value is a whole multiple of an increment
+ * @param value - The price or quantity to check
+ * @param increment - The tick or lot size
+ * @returns True if the value is on the increment grid
+ */
+export function isMultipleOf(value: number, increment: number): boolean {
+  const steps = value / increment;
+  return Math.abs(steps - Math.round(steps)) < INCREMENT_EPSILON * Math.max(1, Math.abs(steps));
+}
+
+/**
+ * Rounds a price to a whole tick against the trader: buys round up, sells down
+ * @param price - The price to round
+ * @param tickSize - The tick size of the instrument
+ * @param action - Direction of the fill
+ * @returns The price on the tick grid
+ */
+export function roundToTick(price: number, tickSize: number, action: TTradeAction): number {
+  const ticks = price / tickSize;
+  const wholeTicks =
+    action === 'BUY' ? Math.ceil(ticks - INCREMENT_EPSILON) : Math.floor(ticks + INCREMENT_EPSILON);
+  return parseFloat((wholeTicks * tickSize).toPrecision(12));
+}
+
+/**
+ * Registry of the instruments with known trading rules. Symbols without an
+ * entry trade as spot assets with a multiplier of 1 and no tick or lot size.
+ */
+export class InstrumentRegistry {
+  private readonly instruments = new Map<string, IInstrument>();
+
+  /**
+   * Creates a new InstrumentRegistry
+   * @param instruments - Instruments to register initially
+   */
+  constructor(instruments: IInstrument[] = []) {
+    instruments.forEach(instrument => this.set(instrument));
+  }
+
+  /**
+   * Gets the instrument registered for a symbol
+   * @param symbol - The symbol to look up
+   * @returns The instrument, or undefined if the symbol is not registered
+   */
+  public get(symbol: string): IInstrument | undefined {
+    const instrument = this.instruments.get(symbol);
+    return instrument && { ...instrument };
+  }
+
+  /**
+   * Gets every registered instrument
+   * @returns The instruments sorted by symbol
+   */
+  public list(): IInstrument[] {
+    return [...this.instruments.values()]
+      .sort((a, b) => a.symbol.localeCompare(b.symbol))
+      .map(instrument => ({ ...instrument }));
+  }
+
+  /**
+   * Registers an instrument, replacing any earlier entry for its symbol
+   * @param instrument - The instrument to register
+   */
+  public set(instrument: IInstrument): void {
+    this.instruments.set(instrument.symbol, { ...instrument });
+  }
+
+  /**
+   * Removes the instrument of a symbol
+   * @param symbol - The symbol to remove
+   * @returns True if an instrument was removed
+   */
+  public delete(symbol: string): boolean {
+    return this.instruments.delete(symbol);
+  }
+
+  /**
+   * Gets the contract multiplier of a symbol
+   * @param symbol - The symbol to look up
+   * @returns The multiplier, 1 for unregistered symbols
+   */
+  public getMultiplier(symbol: string): number {
+    return this.instruments.get(symbol)?.multiplier ?? 1;
+  }
+}
@@ -0,0 +1,93 @@
+import { IPosition } from './paperTradingSystem';
+
+/**
+ * How a closing trade picks the open lots it closes
+ * - FIFO: oldest lots first
+ * - LIFO: newest lots first
+ * - AVERAGE: every lot pro rata, so each close realizes the average cost
+ */
+export type TCostBasisMethod = 'FIFO' | 'LIFO' | 'AVERAGE';
+
+/**
+ * Quantity a closing trade takes from one open lot
+ */
+export interface ILotAllocation {
+  lot: IPosition;
+  quantity: number;
+}
+
+// Lots whose quantity falls below this after a pro-rata close are fully closed
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * Selects the lots a closing trade of a strategy may draw on: the
+ * strategy's own lots when there are any, otherwise every lot
+ */
+function closablePool(lots: IPosition[], strategy: string): IPosition[] {
+  const ownLots = lots.filter(lot => lot.strategy === strategy);
+  return ownLots.length > 0 ? ownLots : lots;
+}
+
+/**
+ * Gets the quantity a closing trade of a strategy can close
+ * @param lots - Open lots on the symbol and side being closed
+ * @param strategy - Strategy of the closing trade
+ * @returns The total quantity of the lots it may draw on
+ */
+export function getClosableQuantity(lots: IPosition[], strategy: string): number {
+  return closablePool(lots, strategy).reduce((total, lot) => total + lot.quantity, 0);
+}
+
+/**
+ * Selects the lots a closing trade closes. Lots of the trade's own strategy
+ * are used when there are any; otherwise lots of every strategy qualify.
+ * @param lots - Open lots on the symbol and side being closed, oldest first
+ * @param strategy - Strategy of the closing trade
+ * @param quantity - Quantity to close
+ * @param method - Cost-basis method
+ * @returns How much to close from each lot, or undefined if the lots hold too little
+ */
+export function allocateClose(
+  lots: IPosition[],
+  strategy: string,
+  quantity: number,
+  method: TCostBasisMethod,
+): ILotAllocation[] | undefined {
+  const pool = closablePool(lots, strategy);
+  const available = getClosableQuantity(lots, strategy);
+
+  if (available < quantity - QUANTITY_EPSILON) {
+    return undefined;
+  }
+
+  if (method === 'AVERAGE') {
+    const fraction = Math.min(quantity / available, 1);
+    return pool.map(lot => ({
+      lot,
+      quantity: fraction === 1 ? lot.quantity : lot.quantity * fraction,
+    }));
+  }
+
+  const ordered = method === 'LIFO' ? [...pool].reverse() : pool;
+  const allocations: ILotAllocation[] = [];
+  let remaining = quantity;
+
+  for (const lot of ordered) {
+    if (remaining <= QUANTITY_EPSILON) break;
+
+    const allocated = Math.min(remaining, lot.quantity);
+    allocations.push({ lot, quantity: allocated });
+    remaining -= allocated;
+  }
+
+  return allocations;
+}
+
+/**
+ * Checks whether a lot has been closed completely
+ * @param lot - The lot to check
+ * @returns True if no meaningful quantity is left
+ */
+export function isLotClosed(lot: IPosition): boolean {
+  return lot.quantity <= QUANTITY_EPSILON;
+}
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+
+import { PaperTradingSystem } from './paperTradingSystem';
+import { IOrder, IOrderRequest, IPriceTick } from '../models/order.interface';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Order book holding resting limit, stop and stop-limit orders per symbol.
+ * Orders are filled against the paper trading system when a price tick
+ * satisfies their trigger and limit conditions.
+ */
+export class OrderBook {
+  private readonly orders = new Map<string, IOrder[]>();
+  private readonly lastPrices = new Map<string, number>();
+
+  /**
+   * Creates a new OrderBook
+   * @param tradingSystem - The trading system fills are executed against
+   * @param createOrderId - Generates the id of each placed order, default a random UUID
+   */
+  constructor(
+    private readonly tradingSystem: PaperTradingSystem,
+    private readonly createOrderId: () => string = randomUUID,
+  ) {}
+
+  /**
+   * Places a resting order. IOC orders are checked once against the last
+   * known price and cancelled if they cannot be filled immediately.
+   * @param request - The order to place
+   * @returns The placed order with its current status
+   */
+  public placeOrder(request: IOrderRequest): IOrder {
+    const order: IOrder = {
+      ...request,
+      id: this.createOrderId(),
+      status: 'WORKING',
+      triggered: false,
+      updatedAt: request.timestamp,
+    };
+
+    if (order.timeInForce === 'IOC') {
+      const lastPrice = this.lastPrices.get(order.symbol);
+      if (lastPrice === undefined || !this.isFillable(order, lastPrice)) {
+        return this.finalize(order, 'CANCELLED', request.timestamp, 'IOC order was not marketable');
+      }
+      return this.fill(order, lastPrice, request.timestamp);
+    }
+
+    const symbolOrders = this.orders.get(order.symbol) ?? [];
+    symbolOrders.push(order);
+    this.orders.set(order.symbol, symbolOrders);
+
+    return { ...order };
+  }
+
+  /**
+   * Cancels a working order
+   * @param orderId - Id of the order to cancel
+   * @returns The cancelled order
+   */
+  public cancelOrder(orderId: string): IOrder {
+    for (const symbolOrders of this.orders.values()) {
+      const index = symbolOrders.findIndex(order => order.id === orderId);
+      if (index !== -1) {
+        const [order] = symbolOrders.splice(index, 1);
+        return this.finalize(order, 'CANCELLED', Date.now(), 'Cancelled by request');
+      }
+    }
+
+    throw new Error(`No working order found with id ${orderId}`);
+  }
+
+  /**
+   * Cancels every working order, optionally limited to one symbol and strategy
+   * @param symbol - Only cancel orders for this symbol
+   * @param strategy - Only cancel orders of this strategy
+   * @returns The cancelled orders
+   */
+  public cancelAll(symbol?: string, strategy?: string): IOrder[] {
+    return this.getWorkingOrders(symbol)
+      .filter(order => !strategy || order.strategy === strategy)
+      .map(order => this.cancelOrder(order.id));
+  }
+
+  /**
+   * Gets the working orders, optionally limited to one symbol
+   * @param symbol - Only return orders for this symbol
+   * @returns The working orders in placement order
+   */
+  public getWorkingOrders(symbol?: string): IOrder[] {
+    const books = symbol ? [this.orders.get(symbol) ?? []] : [...this.orders.values()];
+    return books.flat().map(order => ({ ...order }));
+  }
+
+  /**
+   * Gets the last price seen for a symbol
+   * @param symbol - The symbol to look up
+   * @returns The last price, or undefined if no tick has been seen
+   */
+  public getLastPrice(symbol: string): number | undefined {
+    return this.lastPrices.get(symbol);
+  }
+
+  /**
+   * Processes a price tick: expires stale DAY orders, triggers stops and
+   * fills every order for the symbol that the price satisfies.
+   * @param tick - The price observation
+   * @returns Orders that were filled, rejected or expired by this tick
+   */
+  public processPriceTick(tick: IPriceTick): IOrder[] {
+    const { symbol, price, timestamp } = tick;
+    this.lastPrices.set(symbol, price);
+
+    const symbolOrders = this.orders.get(symbol);
+    if (!symbolOrders) {
+      return [];
+    }
+
+    const completed: IOrder[] = [];
+    const working: IOrder[] = [];
+
+    symbolOrders.forEach(order => {
+      if (order.timeInForce === 'DAY' && this.isPastTradingDay(order, timestamp)) {
+        completed.push(this.finalize(order, 'EXPIRED', timestamp, 'DAY order expired'));
+      } else if (this.isFillable(order, price)) {
+        completed.push(this.fill(order, price, timestamp));
+      } else {
+        working.push(order);
+      }
+    });
+
+    if (working.length > 0) {
+      this.orders.set(symbol, working);
+    } else {
+      this.orders.delete(symbol);
+    }
+
+    return completed;
+  }
+
+  /**
+   * Checks whether an order can fill at the given price, marking stop
+   * orders as triggered once their stop price has been reached
+   */
+  private isFillable(order: IOrder, price: number): boolean {
+    const isBuy = order.action === 'BUY';
+
+    if ((order.type === 'STOP' || order.type === 'STOP_LIMIT') && !order.triggered) {
+      const stopPrice = order.stopPrice as number;
+      const stopHit = isBuy ? price >= stopPrice : price <= stopPrice;
+      if (!stopHit) {
+        return false;
+      }
+      order.triggered = true;
+    }
+
+    if (order.type === 'STOP') {
+      return true;
+    }
+
+    const limitPrice = order.limitPrice as number;
+    return isBuy ? price <= limitPrice : price >= limitPrice;
+  }
+
+  /**
+   * Executes an order against the trading system at the given price. Limit
+   * orders that rested in the book add liquidity; everything else takes it.
+   */
+  private fill(order: IOrder, price: number, timestamp: number): IOrder {
+    const liquidity = order.type === 'LIMIT' && order.timeInForce !== 'IOC' ? 'MAKER' : 'TAKER';
+    let fillPrice: number;
+
+    try {
+      const { trades } = this.tradingSystem.executeTrade(
+        {
+          symbol: order.symbol,
+          action: order.action,
+          price,
+          quantity: order.quantity,
+          strategy: order.strategy,
+          timestamp,
+          stopLoss: order.stopLoss,
+          takeProfit: order.takeProfit,
+          trailingStopPercent: order.trailingStopPercent,
+          trailingStopOffset: order.trailingStopOffset,
+        },
+        { orderId: order.id, liquidity, source: order.source },
+      );
+      fillPrice = trades[trades.length - 1].price;
+    } catch (error) {
+      return this.finalize(order, 'REJECTED', timestamp, (error as Error).message);
+    }
+
+    order.fillPrice = fillPrice;
+    return this.finalize(order, 'FILLED', timestamp);
+  }
+
+  /**
+   * Moves an order to a terminal status
+   */
+  private finalize(
+    order: IOrder,
+    status: IOrder['status'],
+    timestamp: number,
+    reason?: string,
+  ): IOrder {
+    order.status = status;
+    order.updatedAt = timestamp;
+    if (reason) {
+      order.reason = reason;
+    }
+    return { ...order };
+  }
+
+  /**
+   * A DAY order expires once a tick arrives on a later UTC day than it was placed
+   */
+  private isPastTradingDay(order: IOrder, timestamp: number): boolean {
+    return Math.floor(timestamp / MS_PER_DAY) > Math.floor(order.timestamp / MS_PER_DAY);
+  }
+}
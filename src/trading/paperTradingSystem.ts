@@ -1,4 +1,39 @@
-import { ITradingViewWebhook } from '../models/webhook.interface';
+import { IFeeBreakdown, IFeeModel, ScheduleFeeModel, TLiquidity } from './feeModel';
+import { InstrumentRegistry, isMultipleOf, roundToTick } from './instrumentRegistry';
+import {
+  allocateClose,
+  getClosableQuantity,
+  ILotAllocation,
+  isLotClosed,
+  TCostBasisMethod,
+} from './lotLedger';
+import { IPositionSizingConfig, PositionSizer } from './positionSizer';
+import {
+  IRiskHalt,
+  IRiskLimits,
+  IRiskRejection,
+  RiskEngine,
+  RiskRejectionError,
+} from './riskEngine';
+import { ISlippageModel, NoSlippage } from './slippageModel';
+import { IBracketParameters, IPriceTick, TOrderSource } from '../models/order.interface';
+import { ITradingViewWebhook, TTradeAction } from '../models/webhook.interface';
+import { IPortfolioStorage, restorePortfolio } from '../storage/portfolioStorage';
+
+/**
+ * Direction of an open position
+ */
+export type TPositionSide = 'LONG' | 'SHORT';
+
+/**
+ * Whether a trade opened a new position or closed (part of) an existing one
+ */
+export type TPositionEffect = 'OPEN' | 'CLOSE';
+
+/**
+ * Why a position was closed automatically by one of its exit levels
+ */
+export type TExitReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP';
 
 /**
  * Configuration for the paper trading system
@@ -6,6 +41,15 @@ import { ITradingViewWebhook } from '../models/webhook.interface';
 export interface IPaperTradingConfig {
   initialBalance: number;
   commission: number;
+  marginRequirement?: number; // Collateral held against shorts, as a percentage of notional
+  snapshotInterval?: number; // Journal entries between storage snapshots
+  equitySnapshotInterval?: number; // Minimum milliseconds between equity snapshots on price ticks
+  costBasisMethod?: TCostBasisMethod; // How closing trades pick the lots they close, default FIFO
+  feeModel?: IFeeModel; // Fees charged per fill, default `commission` percent of the notional
+  slippageModel?: ISlippageModel; // Fill price of orders taking liquidity, default no slippage
+  riskLimits?: IRiskLimits; // Pre-trade checks on opening trades, default none
+  positionSizing?: IPositionSizingConfig; // Lot rules for entries sized by the engine
+  instruments?: InstrumentRegistry; // Tick size, lot size and multiplier per symbol, default spot
 }
 
 /**
@@ -18,14 +62,21 @@ export interface IPortfolio {
 }
 
 /**
- * Position interface representing an open position
+ * Position interface representing an open position. Every opening trade
+ * creates its own position, which is a lot in the ledger closing trades draw on.
  */
-export interface IPosition {
+export interface IPosition extends IBracketParameters {
+  id: string; // `position-<number of the opening trade>`, kept through partial closes
   symbol: string;
+  side: TPositionSide;
   entryPrice: number;
   quantity: number;
   timestamp: number;
   strategy: string;
+  margin?: number; // Collateral currently held against a short position
+  trailingStopPrice?: number; // Current level of the trailing stop, if one is set
+  entryCommission?: number; // Opening commission of the remaining quantity, not yet realized
+  multiplier?: number; // Contract multiplier at entry, default 1
 }
 
 /**
@@ -33,91 +84,259 @@ export interface IPosition {
  */
 export interface ITrade {
   symbol: string;
-  action: 'BUY' | 'SELL';
-  price: number;
+  action: TTradeAction;
+  price: number; // Fill price, after slippage
   quantity: number;
   timestamp: number;
   strategy: string;
-  commission: number;
+  commission: number; // Total fees, the same as `fees.total`
+  positionSide: TPositionSide;
+  positionEffect: TPositionEffect;
+  orderId?: string; // Resting order that produced this fill, if any
+  exitReason?: TExitReason; // Set when an exit level closed the position
+  requestedPrice?: number; // Price the fill was requested at, before slippage
+  liquidity?: TLiquidity;
+  fees?: IFeeBreakdown;
+  source?: TOrderSource; // Set on trades placed by hand rather than by an alert
+  realizedPnl?: number; // Closing trades: P&L net of opening and closing commission
+  holdingTime?: number; // Closing trades: milliseconds the closed lots were held, quantity-weighted
+}
+
+/**
+ * An open position valued at the last known price of its symbol
+ */
+export interface IPositionValuation extends IPosition {
+  marketPrice: number; // Last known price, or the entry price before any price is seen
+  marketValue: number; // Signed notional at the market price, negative for shorts
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number; // Unrealized P&L as a percentage of the entry notional
+}
+
+/**
+ * The portfolio marked to market
+ */
+export interface IPortfolioValuation {
+  balance: number;
+  equity: number; // Cash plus the value of open positions
+  exposure: number; // Gross market value of open positions, longs and shorts alike
+  positions: IPositionValuation[];
 }
 
+/**
+ * Equity, cash and exposure of the portfolio at a point in time
+ */
+export interface IEquitySnapshot {
+  timestamp: number;
+  equity: number;
+  cash: number;
+  exposure: number;
+}
+
+/**
+ * A market trade to execute. Exit alerts are resolved to a direction first.
+ */
+export interface ITradeRequest extends ITradingViewWebhook {
+  action: TTradeAction;
+}
+
+/**
+ * A market trade with its quantity resolved
+ */
+export interface ISizedTradeRequest extends ITradeRequest {
+  quantity: number;
+}
+
+/**
+ * A change the trading system reports to its listeners
+ * - TRADE_EXECUTED: a trade was executed, including exits triggered by price ticks
+ * - POSITION_CHANGED: the open lots on a symbol changed, including trailing stop moves
+ * - EQUITY_UPDATED: an equity snapshot was recorded
+ * - RISK_HALTED: a closing trade reached the loss limit and halted the account
+ */
+export type TTradingEvent =
+  | { type: 'TRADE_EXECUTED'; trade: ITrade }
+  | { type: 'POSITION_CHANGED'; symbol: string; positions: IPositionValuation[] }
+  | { type: 'EQUITY_UPDATED'; snapshot: IEquitySnapshot }
+  | { type: 'RISK_HALTED'; halt: IRiskHalt };
+
+/**
+ * Receives the changes of a trading system as they happen
+ */
+export type TTradingEventListener = (event: TTradingEvent) => void;
+
+/**
+ * Optional execution details recorded on the resulting trade
+ */
+export interface IExecutionOptions {
+  orderId?: string;
+  liquidity?: TLiquidity; // Resting limit orders add liquidity, default TAKER
+  commission?: number; // Fees of a fill made elsewhere, such as an imported trade: filled as is
+  source?: TOrderSource;
+}
+
+/**
+ * A close of all or part of one position
+ */
+export interface IPositionCloseRequest {
+  price: number;
+  quantity?: number; // Default the whole open quantity
+  timestamp: number;
+}
+
+/**
+ * Changes to the exit levels of a position. A number sets a level, null
+ * removes it and a level left out is kept.
+ */
+export type TExitLevelChanges = { [K in keyof IBracketParameters]?: number | null };
+
+const DEFAULT_MARGIN_REQUIREMENT = 100;
+const DEFAULT_SNAPSHOT_INTERVAL = 100;
+const DEFAULT_EQUITY_SNAPSHOT_INTERVAL = 60 * 1000;
+const MAX_EQUITY_SNAPSHOTS = 10000;
+const MAX_RISK_REJECTIONS = 1000;
+
 /**
  * Paper Trading System implementation
  * Simulates trading without using real money
  */
 export class PaperTradingSystem {
   private portfolio: IPortfolio;
-  private readonly commission: number;
+  private readonly initialBalance: number;
+  private readonly feeModel: IFeeModel;
+  private readonly slippageModel: ISlippageModel;
+  private readonly riskEngine: RiskEngine;
+  private readonly positionSizer: PositionSizer;
+  private readonly instruments: InstrumentRegistry;
+  private readonly marginRequirement: number;
+  private readonly snapshotInterval: number;
+  private readonly equitySnapshotInterval: number;
+  private readonly costBasisMethod: TCostBasisMethod;
+  private sequence = 0;
+  private readonly lastPrices = new Map<string, number>();
+  private readonly equityHistory: IEquitySnapshot[] = [];
+  private storedEquitySnapshots = 0; // Equity snapshots in storage, dropped ones included
+  private readonly riskRejections: IRiskRejection[] = [];
+  private readonly listeners: TTradingEventListener[] = [];
 
   /**
-   * Creates a new PaperTradingSystem
+   * Creates a new PaperTradingSystem. When a storage backend is given, the
+   * portfolio is restored from it and every change is journaled to it.
    * @param config - Configuration for the paper trading system
+   * @param storage - Optional storage backend to persist the portfolio to
    */
-  constructor(config: IPaperTradingConfig) {
+  constructor(config: IPaperTradingConfig, private readonly storage?: IPortfolioStorage) {
     this.portfolio = {
       balance: config.initialBalance,
       positions: [],
       trades: [],
     };
-    this.commission = config.commission;
+    this.initialBalance = config.initialBalance;
+    this.feeModel = config.feeModel ?? new ScheduleFeeModel({ percent: config.commission });
+    this.slippageModel = config.slippageModel ?? new NoSlippage();
+    this.riskEngine = new RiskEngine(config.riskLimits);
+    this.positionSizer = new PositionSizer(config.positionSizing);
+    this.instruments = config.instruments ?? new InstrumentRegistry();
+    this.marginRequirement = config.marginRequirement ?? DEFAULT_MARGIN_REQUIREMENT;
+    this.snapshotInterval = config.snapshotInterval ?? DEFAULT_SNAPSHOT_INTERVAL;
+    this.equitySnapshotInterval = config.equitySnapshotInterval ?? DEFAULT_EQUITY_SNAPSHOT_INTERVAL;
+    this.costBasisMethod = config.costBasisMethod ?? 'FIFO';
+
+    if (storage) {
+      const equityHistory = storage.loadEquityHistory();
+      this.equityHistory.push(...equityHistory.slice(-MAX_EQUITY_SNAPSHOTS));
+      this.storedEquitySnapshots = equityHistory.length;
+    }
+
+    const restored = storage && restorePortfolio(storage.load());
+    if (restored) {
+      this.portfolio = restored.portfolio;
+      this.sequence = restored.sequence;
+      if (restored.risk) {
+        this.riskEngine.restoreState(restored.risk);
+      }
+      // Until new prices arrive, the last traded prices are the best known prices
+      this.portfolio.trades.forEach(({ symbol, price }) => this.lastPrices.set(symbol, price));
+
+      // Positions stored before they had ids get one, saved at once so it stays the same
+      const unnumbered = this.portfolio.positions.filter(pos => !pos.id);
+      if (storage && unnumbered.length > 0) {
+        unnumbered.forEach((pos, index) => {
+          pos.id = `position-legacy-${index + 1}`;
+        });
+        storage.saveSnapshot({
+          sequence: this.sequence,
+          portfolio: this.getPortfolio(),
+          risk: this.riskEngine.getState(),
+        });
+      }
+    }
   }
 
   /**
-   * Executes a paper trade based on the webhook data
+   * Executes a paper trade based on the webhook data.
+   * A BUY covers an open short on the symbol, otherwise it opens a long.
+   * A SELL closes an open long on the symbol, otherwise it opens a short.
+   * Closing trades draw on the open lots by the configured cost-basis method
+   * and record the P&L they realize. Trades taking liquidity fill at the
+   * price moved by the slippage model; fees are charged on the fill price.
+   * Opening trades must pass the risk limits first, otherwise they are
+   * recorded as rejected and a RiskRejectionError is thrown. A trade without
+   * a quantity closes the whole position it may close, or opens a position
+   * sized by its `sizeMode`. Registered instruments set the lot size of
+   * explicit quantities and the contract multiplier of values and P&L.
    * @param trade - The trade to execute
+   * @param options - Optional execution details to record on the trade
    * @returns The updated portfolio
    */
-  public executeTrade(trade: ITradingViewWebhook): IPortfolio {
-    const { symbol, action, price, quantity, strategy, timestamp } = trade;
-    
-    // Calculate commission
-    const tradeValue = price * quantity;
-    const commissionAmount = tradeValue * (this.commission / 100);
-    
-    if (action === 'BUY') {
-      // Check if we have enough balance
-      if (this.portfolio.balance < tradeValue + commissionAmount) {
-        throw new Error('Insufficient balance to execute buy order');
-      }
-      
-      // Add position
-      this.portfolio.positions.push({
-        symbol,
-        entryPrice: price,
-        quantity,
-        timestamp,
-        strategy,
-      });
-      
-      // Update balance
-      this.portfolio.balance -= (tradeValue + commissionAmount);
-    } else if (action === 'SELL') {
-      // Find matching position
-      const positionIndex = this.portfolio.positions.findIndex(
-        (pos) => pos.symbol === symbol && pos.quantity >= quantity
+  public executeTrade(trade: ITradeRequest, options: IExecutionOptions = {}): IPortfolio {
+    const { symbol, action, strategy, timestamp } = trade;
+
+    // A trade in the opposite direction of an open position closes it
+    const closingSide: TPositionSide = action === 'BUY' ? 'SHORT' : 'LONG';
+    const lots = this.portfolio.positions.filter(
+      pos => pos.symbol === symbol && pos.side === closingSide,
+    );
+    const hasOpposingPosition = lots.length > 0;
+
+    const quantity =
+      trade.quantity ??
+      (hasOpposingPosition ? getClosableQuantity(lots, strategy) : this.sizePosition(trade));
+    const sized: ISizedTradeRequest = { ...trade, quantity };
+
+    const lotSize = this.instruments.get(symbol)?.lotSize;
+    if (trade.quantity !== undefined && lotSize !== undefined && !isMultipleOf(quantity, lotSize)) {
+      throw new Error(
+        `Quantity ${quantity} of ${symbol} is not a multiple of its lot size ${lotSize}`,
       );
-      
-      if (positionIndex === -1) {
+    }
+
+    const liquidity = options.liquidity ?? 'TAKER';
+    const { price, fees } = this.fill(sized, liquidity, options.commission);
+    const commissionAmount = fees.total;
+
+    let positionSide: TPositionSide;
+    let positionEffect: TPositionEffect;
+    let closed: Pick<ITrade, 'realizedPnl' | 'holdingTime'> = {};
+
+    if (hasOpposingPosition) {
+      const allocations = allocateClose(lots, strategy, quantity, this.costBasisMethod);
+
+      if (!allocations) {
         throw new Error(`No matching position found for ${symbol}`);
       }
-      
-      const position = this.portfolio.positions[positionIndex];
-      
-      // Update balance
-      this.portfolio.balance += price * quantity - commissionAmount;
-      
-      // Update position
-      if (position.quantity === quantity) {
-        // Remove position if fully sold
-        this.portfolio.positions.splice(positionIndex, 1);
-      } else {
-        // Reduce position quantity if partially sold
-        this.portfolio.positions[positionIndex].quantity -= quantity;
-      }
+
+      closed = this.closeLots(allocations, price, timestamp, commissionAmount);
+      positionSide = closingSide;
+      positionEffect = 'CLOSE';
+    } else {
+      this.checkRisk(sized, options);
+      positionSide = action === 'BUY' ? 'LONG' : 'SHORT';
+      positionEffect = 'OPEN';
+      this.openPosition({ ...sized, price }, positionSide, commissionAmount);
     }
-    
+
     // Record the trade
-    this.portfolio.trades.push({
+    const executedTrade: ITrade = {
       symbol,
       action,
       price,
@@ -125,11 +344,122 @@ export class PaperTradingSystem {
       timestamp,
       strategy,
       commission: commissionAmount,
-    });
-    
+      positionSide,
+      positionEffect,
+      orderId: options.orderId,
+      requestedPrice: trade.price,
+      liquidity,
+      fees,
+      source: options.source,
+      ...closed,
+    };
+    this.portfolio.trades.push(executedTrade);
+    // Only an accepted trade moves the last known price
+    this.lastPrices.set(symbol, trade.price);
+    const halt =
+      positionEffect === 'CLOSE'
+        ? this.riskEngine.updateLossLimit(this.portfolio.trades, timestamp)
+        : undefined;
+    this.persist([executedTrade], timestamp);
+    this.emit({ type: 'TRADE_EXECUTED', trade: executedTrade });
+    this.emitPositionChanged(symbol);
+    this.recordEquity(timestamp);
+    this.emitHalt(halt);
+
     return this.getPortfolio();
   }
 
+  /**
+   * Processes a price tick: moves trailing stops and closes every position on
+   * the symbol whose stop-loss, trailing stop or take-profit the price reaches.
+   * @param tick - The price observation
+   * @returns The exit trades executed by this tick
+   */
+  public processPriceTick(tick: IPriceTick): ITrade[] {
+    const { symbol, price, timestamp } = tick;
+    this.lastPrices.set(symbol, price);
+    const exits: ITrade[] = [];
+    let trailingStopMoved = false;
+
+    this.portfolio.positions
+      .filter(pos => pos.symbol === symbol)
+      .forEach(position => {
+        const previousTrailingStop = position.trailingStopPrice;
+        const exitReason = this.checkExitLevels(position, price);
+        if (!exitReason) {
+          trailingStopMoved ||= position.trailingStopPrice !== previousTrailingStop;
+          return;
+        }
+
+        const { side, quantity, strategy } = position;
+        const action = side === 'LONG' ? 'SELL' : 'BUY';
+        // A take-profit rests like a limit order; stops fill at market
+        const liquidity = exitReason === 'TAKE_PROFIT' ? 'MAKER' : 'TAKER';
+        const fill = this.fill({ symbol, action, price, quantity }, liquidity);
+        const closed = this.closeLots(
+          [{ lot: position, quantity }],
+          fill.price,
+          timestamp,
+          fill.fees.total,
+        );
+
+        const exitTrade: ITrade = {
+          symbol,
+          action,
+          price: fill.price,
+          quantity,
+          timestamp,
+          strategy,
+          commission: fill.fees.total,
+          positionSide: side,
+          positionEffect: 'CLOSE',
+          exitReason,
+          requestedPrice: price,
+          liquidity,
+          fees: fill.fees,
+          ...closed,
+        };
+        this.portfolio.trades.push(exitTrade);
+        exits.push(exitTrade);
+        this.emit({ type: 'TRADE_EXECUTED', trade: exitTrade });
+      });
+
+    const halt =
+      exits.length > 0
+        ? this.riskEngine.updateLossLimit(this.portfolio.trades, timestamp)
+        : undefined;
+    // Trailing stops only move in memory; the next journal entry or snapshot
+    // saves them, so the journal grows with trades rather than with ticks
+    if (exits.length > 0) {
+      this.persist(exits, timestamp);
+    }
+    if (exits.length > 0 || trailingStopMoved) {
+      this.emitPositionChanged(symbol);
+    }
+
+    if (exits.length > 0) {
+      this.recordEquity(timestamp);
+    } else {
+      this.sampleEquity(timestamp);
+    }
+    this.emitHalt(halt);
+
+    return exits;
+  }
+
+  /**
+   * Records an equity snapshot unless one was recorded less than
+   * `equitySnapshotInterval` before, so the equity curve of an account
+   * without trades or price ticks keeps going when sampled on a timer
+   * @param timestamp - Time of the sample, default now
+   */
+  public sampleEquity(timestamp = Date.now()): void {
+    const lastSnapshot = this.equityHistory[this.equityHistory.length - 1];
+    if (!lastSnapshot || timestamp - lastSnapshot.timestamp >= this.equitySnapshotInterval) {
+      this.recordEquity(timestamp);
+    }
+  }
+
   /**
    * Gets the current portfolio state
    * @returns The current portfolio
@@ -137,8 +467,601 @@ export class PaperTradingSystem {
   public getPortfolio(): IPortfolio {
     return {
       ...this.portfolio,
-      positions: [...this.portfolio.positions],
+      positions: this.portfolio.positions.map(pos => ({ ...pos })),
       trades: [...this.portfolio.trades],
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Gets the balance the account started with
+   * @returns The initial balance
+   */
+  public getInitialBalance(): number {
+    return this.initialBalance;
+  }
+
+  /**
+   * Gets an open position by id
+   * @param positionId - Id of the position
+   * @returns The position, or undefined if no open position has that id
+   */
+  public getPosition(positionId: string): IPosition | undefined {
+    const position = this.portfolio.positions.find(pos => pos.id === positionId);
+    return position && { ...position };
+  }
+
+  /**
+   * Closes all or part of one position, whatever the cost-basis method, with
+   * a closing trade of the position's strategy. The fill is priced like any
+   * other: slippage applies to closes taking liquidity.
+   * @param positionId - Id of the position to close
+   * @param request - The close price and time, and the quantity to close
+   * @param options - Optional execution details to record on the trade
+   * @returns The closing trade
+   */
+  public closePosition(
+    positionId: string,
+    request: IPositionCloseRequest,
+    options: IExecutionOptions = {},
+  ): ITrade {
+    const position = this.portfolio.positions.find(pos => pos.id === positionId);
+    if (!position) {
+      throw new Error(`No open position found with id ${positionId}`);
+    }
+
+    const { symbol, side, strategy } = position;
+    const { timestamp } = request;
+    const quantity = request.quantity ?? position.quantity;
+    if (quantity > position.quantity) {
+      throw new Error(
+        `Quantity ${quantity} exceeds the open quantity ${position.quantity} of position ${positionId}`,
+      );
+    }
+    const lotSize = this.instruments.get(symbol)?.lotSize;
+    if (
+      request.quantity !== undefined &&
+      lotSize !== undefined &&
+      !isMultipleOf(quantity, lotSize)
+    ) {
+      throw new Error(
+        `Quantity ${quantity} of ${symbol} is not a multiple of its lot size ${lotSize}`,
+      );
+    }
+
+    this.lastPrices.set(symbol, request.price);
+    const action = side === 'LONG' ? 'SELL' : 'BUY';
+    const liquidity = options.liquidity ?? 'TAKER';
+    const { price, fees } = this.fill(
+      { symbol, action, price: request.price, quantity },
+      liquidity,
+      options.commission,
+    );
+    const closed = this.closeLots([{ lot: position, quantity }], price, timestamp, fees.total);
+
+    const closingTrade: ITrade = {
+      symbol,
+      action,
+      price,
+      quantity,
+      timestamp,
+      strategy,
+      commission: fees.total,
+      positionSide: side,
+      positionEffect: 'CLOSE',
+      orderId: options.orderId,
+      requestedPrice: request.price,
+      liquidity,
+      fees,
+      source: options.source,
+      ...closed,
+    };
+    this.portfolio.trades.push(closingTrade);
+    const halt = this.riskEngine.updateLossLimit(this.portfolio.trades, timestamp);
+    this.persist([closingTrade], timestamp);
+    this.emit({ type: 'TRADE_EXECUTED', trade: closingTrade });
+    this.emitPositionChanged(symbol);
+    this.recordEquity(timestamp);
+    this.emitHalt(halt);
+
+    return closingTrade;
+  }
+
+  /**
+   * Changes the exit levels of an open position. Setting a trailing stop
+   * replaces the other kind, and the trailing stop restarts from the last
+   * known price. The new levels are checked from the next price tick on.
+   * @param positionId - Id of the position
+   * @param changes - The levels to set or remove
+   * @param timestamp - When the change was made
+   * @returns The updated position
+   */
+  public updateExitLevels(
+    positionId: string,
+    changes: TExitLevelChanges,
+    timestamp: number,
+  ): IPosition {
+    const position = this.portfolio.positions.find(pos => pos.id === positionId);
+    if (!position) {
+      throw new Error(`No open position found with id ${positionId}`);
+    }
+
+    const fields = ['stopLoss', 'takeProfit', 'trailingStopPercent', 'trailingStopOffset'] as const;
+    fields.forEach(field => {
+      const value = changes[field];
+      if (value !== undefined) {
+        position[field] = value ?? undefined;
+      }
+    });
+    if (typeof changes.trailingStopPercent === 'number') {
+      position.trailingStopOffset = undefined;
+    } else if (typeof changes.trailingStopOffset === 'number') {
+      position.trailingStopPercent = undefined;
+    }
+    if (changes.trailingStopPercent !== undefined || changes.trailingStopOffset !== undefined) {
+      const marketPrice = this.lastPrices.get(position.symbol) ?? position.entryPrice;
+      position.trailingStopPrice = this.trailingStopLevel(position, position.side, marketPrice);
+    }
+
+    this.persist([], timestamp);
+    this.emitPositionChanged(position.symbol);
+    return { ...position };
+  }
+
+  /**
+   * Gets the last price seen for a symbol, from a trade or a price tick
+   * @param symbol - The symbol to look up
+   * @returns The last price, or undefined if no price has been seen
+   */
+  public getLastPrice(symbol: string): number | undefined {
+    return this.lastPrices.get(symbol);
+  }
+
+  /**
+   * Marks the portfolio to market: values every open position at the last
+   * known price of its symbol and calculates the total equity. Positions on
+   * symbols without a known price are valued at their entry price.
+   * @returns The portfolio valuation
+   */
+  public getValuation(): IPortfolioValuation {
+    const positions = this.portfolio.positions.map(position => {
+      const { side, entryPrice, quantity, multiplier = 1 } = position;
+      const marketPrice = this.lastPrices.get(position.symbol) ?? entryPrice;
+      const direction = side === 'LONG' ? 1 : -1;
+      const unrealizedPnl = direction * (marketPrice - entryPrice) * quantity * multiplier;
+
+      return {
+        ...position,
+        marketPrice,
+        marketValue: direction * marketPrice * quantity * multiplier,
+        unrealizedPnl,
+        unrealizedPnlPercent: (unrealizedPnl / (entryPrice * quantity * multiplier)) * 100,
+      };
+    });
+
+    // Longs are worth their market value; shorts return their margin plus their P&L
+    const equity = positions.reduce(
+      (total, position) =>
+        total +
+        (position.side === 'LONG'
+          ? position.marketValue
+          : (position.margin ?? 0) + position.unrealizedPnl),
+      this.portfolio.balance,
+    );
+
+    const exposure = positions.reduce(
+      (total, position) => total + Math.abs(position.marketValue),
+      0,
+    );
+
+    return { balance: this.portfolio.balance, equity, exposure, positions };
+  }
+
+  /**
+   * Gets the recorded equity snapshots. A snapshot is taken after every trade
+   * and on price ticks or samples at most once per `equitySnapshotInterval`.
+   * With a storage backend the snapshots survive restarts.
+   * @returns The snapshots in time order, oldest first
+   */
+  public getEquityHistory(): IEquitySnapshot[] {
+    return this.equityHistory.map(snapshot => ({ ...snapshot }));
+  }
+
+  /**
+   * Sizes an entry by its `sizeMode` against the current equity, rounded to
+   * the lot rules of the symbol
+   * @param trade - The entry to size
+   * @returns The quantity to trade
+   */
+  public sizePosition(trade: ITradeRequest): number {
+    const { symbol, price, sizeMode, sizeValue, stopLoss } = trade;
+    if (!sizeMode || sizeValue === undefined) {
+      throw new Error(`Quantity or sizeMode is required to open a position on ${symbol}`);
+    }
+
+    const { multiplier, lotSize } = this.instruments.get(symbol) ?? {};
+    return this.positionSizer.size(
+      { symbol, price, sizeMode, sizeValue, stopLoss, multiplier, lotSize },
+      this.getValuation().equity,
+    );
+  }
+
+  /**
+   * Gets the trades the risk engine rejected
+   * @returns The most recent rejections, oldest first
+   */
+  public getRiskRejections(): IRiskRejection[] {
+    return this.riskRejections.map(rejection => ({ ...rejection }));
+  }
+
+  /**
+   * Gets the risk limits and whether the loss limit has halted the account
+   * @returns The limits and the current halt, if any
+   */
+  public getRiskStatus(): { limits: IRiskLimits; halt?: IRiskHalt } {
+    return { limits: this.riskEngine.getLimits(), halt: this.riskEngine.getHalt() };
+  }
+
+  /**
+   * Lifts a loss limit halt so the account can open positions again. The
+   * halt and its reset are journaled, so a restart does not undo either.
+   */
+  public resetRiskHalt(): void {
+    this.riskEngine.reset();
+    this.persist([], Date.now());
+  }
+
+  /**
+   * Takes over the portfolio, last prices and equity history of another
+   * trading system, such as one that replayed imported trades, and saves
+   * them as one snapshot. Nothing is reported to listeners: the trades were
+   * executed elsewhere and are not new.
+   * @param source - The trading system whose state to adopt
+   */
+  public adoptState(source: PaperTradingSystem): void {
+    this.portfolio = source.getPortfolio();
+    source.lastPrices.forEach((price, symbol) => this.lastPrices.set(symbol, price));
+    this.equityHistory.splice(0, this.equityHistory.length, ...source.getEquityHistory());
+
+    if (this.storage) {
+      this.sequence += 1;
+      this.storage.saveSnapshot({
+        sequence: this.sequence,
+        portfolio: this.getPortfolio(),
+        risk: this.riskEngine.getState(),
+      });
+      this.storage.saveEquityHistory(this.equityHistory);
+      this.storedEquitySnapshots = this.equityHistory.length;
+    }
+  }
+
+  /**
+   * Registers a listener for the trades, position changes and equity
+   * snapshots of this trading system
+   * @param listener - Called synchronously with every change
+   * @returns A function that removes the listener
+   */
+  public subscribe(listener: TTradingEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Reports a change to every listener. A failing listener is logged and
+   * never interrupts trading.
+   */
+  private emit(event: TTradingEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in ${event.type} listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Reports a loss limit halt, once the trade that triggered it was reported
+   */
+  private emitHalt(halt: IRiskHalt | undefined): void {
+    if (halt) {
+      this.emit({ type: 'RISK_HALTED', halt });
+    }
+  }
+
+  /**
+   * Reports the open lots on a symbol, marked to market
+   */
+  private emitPositionChanged(symbol: string): void {
+    if (this.listeners.length === 0) {
+      return;
+    }
+
+    const positions = this.getValuation().positions.filter(pos => pos.symbol === symbol);
+    this.emit({ type: 'POSITION_CHANGED', symbol, positions });
+  }
+
+  /**
+   * Checks an opening trade against the risk limits, recording and throwing
+   * a rejection when it breaks one
+   */
+  private checkRisk(trade: ISizedTradeRequest, options: IExecutionOptions): void {
+    const breach = this.riskEngine.check(
+      trade,
+      this.getValuation(),
+      this.instruments.getMultiplier(trade.symbol),
+    );
+    if (!breach) {
+      return;
+    }
+
+    const { symbol, action, price, quantity, strategy, timestamp } = trade;
+    const rejection: IRiskRejection = {
+      ...breach,
+      symbol,
+      action,
+      price,
+      quantity,
+      strategy,
+      timestamp,
+      orderId: options.orderId,
+    };
+    this.riskRejections.push(rejection);
+    if (this.riskRejections.length > MAX_RISK_REJECTIONS) {
+      this.riskRejections.shift();
+    }
+
+    throw new RiskRejectionError(rejection);
+  }
+
+  /**
+   * Journals a state change to the storage backend, snapshotting the full
+   * portfolio every `snapshotInterval` entries
+   */
+  private persist(trades: ITrade[], timestamp: number): void {
+    if (!this.storage) {
+      return;
+    }
+
+    this.sequence += 1;
+    this.storage.append({
+      sequence: this.sequence,
+      timestamp,
+      trades,
+      balance: this.portfolio.balance,
+      positions: this.portfolio.positions,
+      risk: this.riskEngine.getState(),
+    });
+
+    if (this.sequence % this.snapshotInterval === 0) {
+      this.storage.saveSnapshot({
+        sequence: this.sequence,
+        portfolio: this.getPortfolio(),
+        risk: this.riskEngine.getState(),
+      });
+    }
+  }
+
+  /**
+   * Prices a fill: orders taking liquidity are moved by the slippage model,
+   * onto the instrument's tick grid, then fees are calculated on the fill price.
+   * A fill with recorded fees keeps its price and is charged those fees.
+   */
+  private fill(
+    request: Pick<ITrade, 'symbol' | 'action' | 'price' | 'quantity'>,
+    liquidity: TLiquidity,
+    recordedFees?: number,
+  ): { price: number; fees: IFeeBreakdown } {
+    if (recordedFees !== undefined) {
+      return {
+        price: request.price,
+        fees: { percentage: 0, perUnit: 0, perOrder: recordedFees, total: recordedFees },
+      };
+    }
+
+    const { tickSize, multiplier } = this.instruments.get(request.symbol) ?? {};
+    let price =
+      liquidity === 'TAKER' ? this.slippageModel.apply({ ...request, tickSize }) : request.price;
+    if (tickSize !== undefined && price !== request.price) {
+      price = roundToTick(price, tickSize, request.action);
+    }
+
+    const fees = this.feeModel.calculate({ ...request, price, liquidity, multiplier });
+    return { price, fees };
+  }
+
+  /**
+   * Records, persists and reports an equity snapshot, dropping the oldest
+   * beyond the size bound. Storage is rewritten with the kept snapshots once
+   * it holds twice as many.
+   */
+  private recordEquity(timestamp: number): void {
+    const { balance, equity, exposure } = this.getValuation();
+    const snapshot = { timestamp, equity, cash: balance, exposure };
+    this.equityHistory.push(snapshot);
+
+    if (this.equityHistory.length > MAX_EQUITY_SNAPSHOTS) {
+      this.equityHistory.shift();
+    }
+    if (this.storage) {
+      this.storage.appendEquity(snapshot);
+      this.storedEquitySnapshots += 1;
+      if (this.storedEquitySnapshots >= 2 * MAX_EQUITY_SNAPSHOTS) {
+        this.storage.saveEquityHistory(this.equityHistory);
+        this.storedEquitySnapshots = this.equityHistory.length;
+      }
+    }
+    this.emit({ type: 'EQUITY_UPDATED', snapshot: { ...snapshot } });
+  }
+
+  /**
+   * Opens a new long or short position and reserves its cost from the balance.
+   * Longs pay the full notional; shorts post the configured margin as collateral.
+   */
+  private openPosition(
+    trade: ISizedTradeRequest,
+    side: TPositionSide,
+    commissionAmount: number,
+  ): void {
+    const { symbol, price, quantity, strategy, timestamp } = trade;
+    // Numbered by the trade about to be recorded, so replaying the same trades gives the same ids
+    const id = `position-${this.portfolio.trades.length + 1}`;
+    const multiplier = this.instruments.getMultiplier(symbol);
+    const tradeValue = price * quantity * multiplier;
+    const exitLevels: IBracketParameters = {
+      stopLoss: trade.stopLoss,
+      takeProfit: trade.takeProfit,
+      trailingStopPercent: trade.trailingStopPercent,
+      trailingStopOffset: trade.trailingStopOffset,
+    };
+
+    if (side === 'LONG') {
+      // Check if we have enough balance
+      if (this.portfolio.balance < tradeValue + commissionAmount) {
+        throw new Error('Insufficient balance to execute buy order');
+      }
+
+      this.portfolio.positions.push({
+        id,
+        symbol,
+        side,
+        entryPrice: price,
+        quantity,
+        timestamp,
+        strategy,
+        ...exitLevels,
+        trailingStopPrice: this.trailingStopLevel(exitLevels, side, price),
+        entryCommission: commissionAmount,
+        multiplier,
+      });
+      this.portfolio.balance -= tradeValue + commissionAmount;
+      return;
+    }
+
+    const margin = tradeValue * (this.marginRequirement / 100);
+    if (this.portfolio.balance < margin + commissionAmount) {
+      throw new Error('Insufficient balance to cover short margin requirement');
+    }
+
+    this.portfolio.positions.push({
+      id,
+      symbol,
+      side,
+      entryPrice: price,
+      quantity,
+      timestamp,
+      strategy,
+      margin,
+      ...exitLevels,
+      trailingStopPrice: this.trailingStopLevel(exitLevels, side, price),
+      entryCommission: commissionAmount,
+      multiplier,
+    });
+    this.portfolio.balance -= margin + commissionAmount;
+  }
+
+  /**
+   * Closes the allocated quantity of each lot and pays the closing commission.
+   * Selling a long credits the proceeds; covering a short releases its margin
+   * together with the realized profit or loss.
+   * @returns The realized P&L, net of opening and closing commission, and the
+   * quantity-weighted holding time of the closed lots
+   */
+  private closeLots(
+    allocations: ILotAllocation[],
+    price: number,
+    timestamp: number,
+    commissionAmount: number,
+  ): Required<Pick<ITrade, 'realizedPnl' | 'holdingTime'>> {
+    let realizedPnl = -commissionAmount;
+    let weightedHoldingTime = 0;
+    let closedQuantity = 0;
+
+    allocations.forEach(({ lot, quantity }) => {
+      const fraction = quantity / lot.quantity;
+      const entryCommission = (lot.entryCommission ?? 0) * fraction;
+      const multiplier = lot.multiplier ?? 1;
+      const pnl =
+        (lot.side === 'LONG' ? price - lot.entryPrice : lot.entryPrice - price) *
+        quantity *
+        multiplier;
+
+      // Update balance
+      if (lot.side === 'LONG') {
+        this.portfolio.balance += price * quantity * multiplier;
+      } else {
+        const releasedMargin = (lot.margin ?? 0) * fraction;
+        this.portfolio.balance += releasedMargin + pnl;
+        lot.margin = (lot.margin ?? 0) - releasedMargin;
+      }
+
+      realizedPnl += pnl - entryCommission;
+      weightedHoldingTime += (timestamp - lot.timestamp) * quantity;
+      closedQuantity += quantity;
+
+      // Reduce the lot, removing it once fully closed
+      lot.quantity -= quantity;
+      lot.entryCommission = (lot.entryCommission ?? 0) - entryCommission;
+      if (isLotClosed(lot)) {
+        this.portfolio.positions.splice(this.portfolio.positions.indexOf(lot), 1);
+      }
+    });
+
+    this.portfolio.balance -= commissionAmount;
+
+    return { realizedPnl, holdingTime: weightedHoldingTime / closedQuantity };
+  }
+
+  /**
+   * Moves the trailing stop with the price and checks whether any exit level
+   * has been reached. Stops are checked before the take-profit.
+   */
+  private checkExitLevels(position: IPosition, price: number): TExitReason | undefined {
+    const isLong = position.side === 'LONG';
+    const reachedStop = (level: number): boolean => (isLong ? price <= level : price >= level);
+
+    const trailingLevel = this.trailingStopLevel(position, position.side, price);
+    if (trailingLevel !== undefined && position.trailingStopPrice !== undefined) {
+      position.trailingStopPrice = isLong
+        ? Math.max(position.trailingStopPrice, trailingLevel)
+        : Math.min(position.trailingStopPrice, trailingLevel);
+    }
+
+    if (position.stopLoss !== undefined && reachedStop(position.stopLoss)) {
+      return 'STOP_LOSS';
+    }
+    if (position.trailingStopPrice !== undefined && reachedStop(position.trailingStopPrice)) {
+      return 'TRAILING_STOP';
+    }
+    if (
+      position.takeProfit !== undefined &&
+      (isLong ? price >= position.takeProfit : price <= position.takeProfit)
+    ) {
+      return 'TAKE_PROFIT';
+    }
+    return undefined;
+  }
+
+  /**
+   * Calculates where a trailing stop sits relative to a reference price
+   */
+  private trailingStopLevel(
+    levels: IBracketParameters,
+    side: TPositionSide,
+    price: number,
+  ): number | undefined {
+    const direction = side === 'LONG' ? -1 : 1;
+
+    if (levels.trailingStopPercent !== undefined) {
+      return price * (1 + (direction * levels.trailingStopPercent) / 100);
+    }
+    if (levels.trailingStopOffset !== undefined) {
+      return price + direction * levels.trailingStopOffset;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,105 @@
+import { TSizeMode } from '../models/webhook.interface';
+
+/**
+ * How sized quantities are rounded to whole lots
+ */
+export type TLotRounding = 'DOWN' | 'NEAREST' | 'UP';
+
+/**
+ * Lot size and rounding rules of a symbol
+ */
+export interface ILotRules {
+  lotSize?: number; // Quantities are multiples of this, default unrounded
+  rounding?: TLotRounding; // Default DOWN, so a size never exceeds its budget
+  minQuantity?: number; // Smallest tradable quantity, default one lot
+}
+
+/**
+ * Lot rules with per-symbol overrides, which replace the rules they set
+ */
+export interface IPositionSizingConfig extends ILotRules {
+  symbols?: Record<string, ILotRules>;
+}
+
+/**
+ * An entry to size
+ */
+export interface ISizingRequest {
+  symbol: string;
+  price: number;
+  sizeMode: TSizeMode;
+  sizeValue: number;
+  stopLoss?: number;
+  multiplier?: number; // Contract multiplier, default 1
+  lotSize?: number; // Lot size of the instrument, unless the lot rules set one for the symbol
+}
+
+// Guards rounding against floating-point error, e.g. 0.3 / 0.1 = 2.9999999999999996
+const LOT_EPSILON = 1e-9;
+
+/**
+ * Computes entry quantities from the equity of an account and rounds them
+ * to the lot rules of the symbol
+ */
+export class PositionSizer {
+  /**
+   * Creates a new PositionSizer
+   * @param config - The default lot rules and per-symbol overrides
+   */
+  constructor(private readonly config: IPositionSizingConfig = {}) {}
+
+  /**
+   * Sizes an entry
+   * @param request - The entry with its sizing mode and value
+   * @param equity - Current equity of the account
+   * @returns The quantity, rounded to whole lots
+   */
+  public size(request: ISizingRequest, equity: number): number {
+    const { symbol, price, sizeMode, sizeValue, stopLoss, multiplier = 1 } = request;
+    let quantity: number;
+
+    if (sizeMode === 'CASH') {
+      quantity = sizeValue / (price * multiplier);
+    } else if (sizeMode === 'EQUITY_PERCENT') {
+      quantity = (equity * (sizeValue / 100)) / (price * multiplier);
+    } else {
+      const riskPerUnit = stopLoss === undefined ? 0 : Math.abs(price - stopLoss) * multiplier;
+      if (riskPerUnit === 0) {
+        throw new Error(`RISK_PERCENT sizing for ${symbol} needs a stop-loss away from the price`);
+      }
+      quantity = (equity * (sizeValue / 100)) / riskPerUnit;
+    }
+
+    return this.roundToLots(symbol, quantity, request.lotSize);
+  }
+
+  /**
+   * Rounds a quantity to the symbol's lot size, failing below the minimum
+   */
+  private roundToLots(symbol: string, quantity: number, instrumentLotSize?: number): number {
+    const { symbols, ...defaults } = this.config;
+    const rules: ILotRules = {
+      ...defaults,
+      lotSize: instrumentLotSize ?? defaults.lotSize,
+      ...symbols?.[symbol],
+    };
+    let rounded = quantity;
+
+    if (rules.lotSize !== undefined) {
+      const lots = quantity / rules.lotSize;
+      const wholeLots =
+        rules.rounding === 'UP'
+          ? Math.ceil(lots - LOT_EPSILON)
+          : rules.rounding === 'NEAREST'
+          ? Math.round(lots)
+          : Math.floor(lots + LOT_EPSILON);
+      rounded = parseFloat((wholeLots * rules.lotSize).toPrecision(12));
+    }
+
+    const minimum = rules.minQuantity ?? rules.lotSize ?? 0;
+    if (rounded <= 0 || rounded < minimum) {
+      throw new Error(`Sized quantity for ${symbol} is below the minimum of ${minimum}`);
+    }
+    return rounded;
+  }
+}
@@ -0,0 +1,238 @@
+import { IPortfolioValuation, ISizedTradeRequest, ITrade } from './paperTradingSystem';
+
+/**
+ * Period over which realized losses count towards the loss limit, in UTC
+ */
+export type TLossLimitPeriod = 'DAILY' | 'WEEKLY';
+
+/**
+ * Pre-trade risk rules
+ * - MAX_POSITION_SIZE: position on one symbol as a percentage of equity
+ * - MAX_GROSS_EXPOSURE: gross exposure of all positions as a percentage of equity
+ * - MAX_OPEN_POSITIONS: number of symbols with open positions
+ * - MAX_SYMBOL_QUANTITY: open quantity on one symbol
+ * - LOSS_LIMIT: the account is halted after its realized loss limit was reached
+ */
+export type TRiskRule =
+  | 'MAX_POSITION_SIZE'
+  | 'MAX_GROSS_EXPOSURE'
+  | 'MAX_OPEN_POSITIONS'
+  | 'MAX_SYMBOL_QUANTITY'
+  | 'LOSS_LIMIT';
+
+/**
+ * Risk limits of an account. Every limit is optional; only opening trades
+ * are checked, so positions can always be reduced.
+ */
+export interface IRiskLimits {
+  maxPositionPercent?: number; // Largest position on a symbol, percent of equity
+  maxGrossExposurePercent?: number; // Largest gross exposure, percent of equity
+  maxOpenPositions?: number; // Most symbols with open positions at once
+  maxSymbolQuantity?: Record<string, number>; // Largest open quantity per symbol
+  lossLimit?: number; // Realized loss per period that halts the account
+  lossLimitPeriod?: TLossLimitPeriod; // Default DAILY
+}
+
+/**
+ * A trade the risk engine refused, with the rule that blocked it
+ */
+export interface IRiskRejection {
+  rule: TRiskRule;
+  message: string;
+  symbol: string;
+  action: ISizedTradeRequest['action'];
+  price: number;
+  quantity: number;
+  strategy: string;
+  timestamp: number;
+  orderId?: string;
+}
+
+/**
+ * Why and since when an account is halted
+ */
+export interface IRiskHalt {
+  since: number;
+  period: TLossLimitPeriod;
+  realizedPnl: number; // Realized P&L of the period when the limit was reached
+}
+
+/**
+ * Loss limit state of an account that must survive a restart
+ */
+export interface IRiskState {
+  halt?: IRiskHalt;
+  resetAfter?: number; // Time of the last lifted halt
+}
+
+/**
+ * Thrown when the risk engine refuses a trade
+ */
+export class RiskRejectionError extends Error {
+  constructor(public readonly rejection: IRiskRejection) {
+    super(rejection.message);
+    this.name = 'RiskRejectionError';
+  }
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the UTC day or week (from Monday) containing a timestamp
+ */
+function periodStart(timestamp: number, period: TLossLimitPeriod): number {
+  const day = Math.floor(timestamp / MS_PER_DAY);
+  // 1 January 1970 was a Thursday, three days after a Monday
+  const days = period === 'WEEKLY' ? day - ((day + 3) % 7) : day;
+  return days * MS_PER_DAY;
+}
+
+/**
+ * Pre-trade risk checks of an account, and the halt its loss limit triggers
+ */
+export class RiskEngine {
+  private halt?: IRiskHalt;
+  private resetAfter?: number; // Losses up to a lifted halt no longer count
+
+  /**
+   * Creates a new RiskEngine
+   * @param limits - The risk limits to enforce
+   */
+  constructor(private readonly limits: IRiskLimits = {}) {}
+
+  /**
+   * Checks an opening trade against the risk limits
+   * @param trade - The trade about to open or add to a position
+   * @param valuation - The portfolio marked to market, including the trade's price
+   * @param multiplier - Contract multiplier of the symbol
+   * @returns The rule the trade breaks and why, or undefined if it may proceed
+   */
+  public check(
+    trade: ISizedTradeRequest,
+    valuation: IPortfolioValuation,
+    multiplier = 1,
+  ): Pick<IRiskRejection, 'rule' | 'message'> | undefined {
+    const { symbol, price, quantity } = trade;
+    const { maxPositionPercent, maxGrossExposurePercent, maxOpenPositions } = this.limits;
+    const side = trade.action === 'BUY' ? 'LONG' : 'SHORT';
+    const notional = price * quantity * multiplier;
+    const position = valuation.positions.filter(pos => pos.symbol === symbol && pos.side === side);
+
+    if (this.halt) {
+      return {
+        rule: 'LOSS_LIMIT',
+        message: `Account is halted: ${this.halt.period.toLowerCase()} loss limit reached`,
+      };
+    }
+
+    const maxQuantity = this.limits.maxSymbolQuantity?.[symbol];
+    const openQuantity = position.reduce((total, pos) => total + pos.quantity, 0);
+    if (maxQuantity !== undefined && openQuantity + quantity > maxQuantity) {
+      return {
+        rule: 'MAX_SYMBOL_QUANTITY',
+        message: `Quantity on ${symbol} would be ${
+          openQuantity + quantity
+        }, above the limit of ${maxQuantity}`,
+      };
+    }
+
+    const openSymbols = new Set(valuation.positions.map(pos => pos.symbol));
+    if (
+      maxOpenPositions !== undefined &&
+      !openSymbols.has(symbol) &&
+      openSymbols.size >= maxOpenPositions
+    ) {
+      return {
+        rule: 'MAX_OPEN_POSITIONS',
+        message: `Positions are open on ${openSymbols.size} symbols, the limit is ${maxOpenPositions}`,
+      };
+    }
+
+    const positionValue = position.reduce((total, pos) => total + Math.abs(pos.marketValue), 0);
+    const positionPercent = ((positionValue + notional) / valuation.equity) * 100;
+    if (maxPositionPercent !== undefined && positionPercent > maxPositionPercent) {
+      return {
+        rule: 'MAX_POSITION_SIZE',
+        message: `Position on ${symbol} would be ${positionPercent.toFixed(
+          2,
+        )}% of equity, above the limit of ${maxPositionPercent}%`,
+      };
+    }
+
+    const exposurePercent = ((valuation.exposure + notional) / valuation.equity) * 100;
+    if (maxGrossExposurePercent !== undefined && exposurePercent > maxGrossExposurePercent) {
+      return {
+        rule: 'MAX_GROSS_EXPOSURE',
+        message: `Gross exposure would be ${exposurePercent.toFixed(
+          2,
+        )}% of equity, above the limit of ${maxGrossExposurePercent}%`,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Halts the account once the realized loss of the period containing
+   * `timestamp` reaches the loss limit. The halt lasts until it is reset.
+   * @param trades - Every trade of the account
+   * @param timestamp - Time of the latest closing trade
+   * @returns The halt when this update triggered it, otherwise undefined
+   */
+  public updateLossLimit(trades: ITrade[], timestamp: number): IRiskHalt | undefined {
+    const { lossLimit, lossLimitPeriod = 'DAILY' } = this.limits;
+    if (lossLimit === undefined || this.halt) {
+      return undefined;
+    }
+
+    const start = Math.max(periodStart(timestamp, lossLimitPeriod), (this.resetAfter ?? -1) + 1);
+    const realizedPnl = trades
+      .filter(trade => trade.timestamp >= start && trade.timestamp <= timestamp)
+      .reduce((total, trade) => total + (trade.realizedPnl ?? 0), 0);
+
+    if (realizedPnl <= -lossLimit) {
+      this.halt = { since: timestamp, period: lossLimitPeriod, realizedPnl };
+    }
+    return this.getHalt();
+  }
+
+  /**
+   * Gets the current halt
+   * @returns The halt, or undefined if the account may trade
+   */
+  public getHalt(): IRiskHalt | undefined {
+    return this.halt && { ...this.halt };
+  }
+
+  /**
+   * Lifts a halt so the account can open positions again. Only losses
+   * realized after the halt count towards the limit from then on.
+   */
+  public reset(): void {
+    this.resetAfter = this.halt?.since ?? this.resetAfter;
+    this.halt = undefined;
+  }
+
+  /**
+   * Gets the loss limit state to persist
+   */
+  public getState(): IRiskState {
+    return { halt: this.getHalt(), resetAfter: this.resetAfter };
+  }
+
+  /**
+   * Restores the loss limit state of a restarted account, halted or not
+   * @param state - The persisted state
+   */
+  public restoreState(state: IRiskState): void {
+    this.halt = state.halt && { ...state.halt };
+    this.resetAfter = state.resetAfter;
+  }
+
+  /**
+   * Gets the enforced risk limits
+   */
+  public getLimits(): IRiskLimits {
+    return { ...this.limits };
+  }
+}
@@ -0,0 +1,113 @@
+import { TTradeAction } from '../models/webhook.interface';
+
+/**
+ * An order about to fill at a requested price
+ */
+export interface ISlippageRequest {
+  symbol: string;
+  action: TTradeAction;
+  price: number;
+  quantity: number;
+  tickSize?: number; // Tick size of the registered instrument, if any
+}
+
+/**
+ * Moves the fill price of an order that takes liquidity against the trader
+ */
+export interface ISlippageModel {
+  apply(request: ISlippageRequest): number;
+}
+
+/**
+ * Available slippage models
+ * - NONE: fill at the requested price
+ * - FIXED_TICKS: a fixed number of ticks of `tickSize`, default the instrument's tick size
+ * - BPS: a fixed number of basis points of the price
+ * - VOLUME: `bpsPerUnit` basis points for every unit of quantity, up to `maxBps`
+ */
+export type TSlippageModelType = 'NONE' | 'FIXED_TICKS' | 'BPS' | 'VOLUME';
+
+/**
+ * Configuration of a slippage model
+ */
+export interface ISlippageModelConfig {
+  type: TSlippageModelType;
+  ticks?: number;
+  tickSize?: number; // Overrides the tick size of every instrument
+  bps?: number;
+  bpsPerUnit?: number;
+  maxBps?: number;
+}
+
+// Tick of symbols without a registered tick size, such as most crypto pairs
+const DEFAULT_TICK_SIZE = 0.01;
+
+/**
+ * Buys fill above the requested price and sells below it, never below zero
+ */
+function slip(request: ISlippageRequest, amount: number): number {
+  return request.action === 'BUY' ? request.price + amount : Math.max(0, request.price - amount);
+}
+
+/**
+ * Fills every order at its requested price
+ */
+export class NoSlippage implements ISlippageModel {
+  public apply(request: ISlippageRequest): number {
+    return request.price;
+  }
+}
+
+/**
+ * Moves the fill price by a fixed number of ticks: of the configured tick
+ * size, else of the instrument's, else of 0.01
+ */
+export class FixedTickSlippage implements ISlippageModel {
+  constructor(private readonly ticks: number, private readonly tickSize?: number) {}
+
+  public apply(request: ISlippageRequest): number {
+    const tickSize = this.tickSize ?? request.tickSize ?? DEFAULT_TICK_SIZE;
+    return slip(request, this.ticks * tickSize);
+  }
+}
+
+/**
+ * Moves the fill price by a fixed number of basis points
+ */
+export class BasisPointSlippage implements ISlippageModel {
+  constructor(private readonly bps: number) {}
+
+  public apply(request: ISlippageRequest): number {
+    return slip(request, request.price * (this.bps / 10000));
+  }
+}
+
+/**
+ * Moves the fill price in proportion to the order quantity
+ */
+export class VolumeSlippage implements ISlippageModel {
+  constructor(private readonly bpsPerUnit: number, private readonly maxBps = Infinity) {}
+
+  public apply(request: ISlippageRequest): number {
+    const bps = Math.min(this.bpsPerUnit * request.quantity, this.maxBps);
+    return slip(request, request.price * (bps / 10000));
+  }
+}
+
+/**
+ * Creates the slippage model described by a configuration
+ * @param config - The slippage model configuration
+ * @returns The slippage model
+ */
+export function createSlippageModel(config: ISlippageModelConfig): ISlippageModel {
+  switch (config.type) {
+    case 'FIXED_TICKS':
+      return new FixedTickSlippage(config.ticks ?? 1, config.tickSize);
+    case 'BPS':
+      return new BasisPointSlippage(config.bps ?? 0);
+    case 'VOLUME':
+      return new VolumeSlippage(config.bpsPerUnit ?? 0, config.maxBps);
+    default:
+      return new NoSlippage();
+  }
+}
@@ -0,0 +1,48 @@
+import { readAlertLog } from '../alertLog';
+
+describe('readAlertLog', () => {
+  it('should read JSON lines, skipping blank lines', () => {
+    const log = '{"symbol":"BTCUSDT","price":100}\n\n{"symbol":"ETHUSDT","price":10}\nnot json\n';
+
+    expect(readAlertLog(log)).toEqual({
+      records: [
+        { line: 1, payload: { symbol: 'BTCUSDT', price: 100 } },
+        { line: 3, payload: { symbol: 'ETHUSDT', price: 10 } },
+      ],
+      errors: ['Line 4: not valid JSON'],
+    });
+  });
+
+  it('should read CSV rows by their header, leaving out empty fields', () => {
+    const log = [
+      'symbol,action,price,quantity,strategy',
+      'BTCUSDT,BUY,100,1,"Trend, fast"',
+      'ETHUSDT,SELL,10,,"Say ""hi"""',
+      'SOLUSDT,BUY',
+    ].join('\r\n');
+
+    expect(readAlertLog(log)).toEqual({
+      records: [
+        {
+          line: 2,
+          payload: {
+            symbol: 'BTCUSDT',
+            action: 'BUY',
+            price: '100',
+            quantity: '1',
+            strategy: 'Trend, fast',
+          },
+        },
+        {
+          line: 3,
+          payload: { symbol: 'ETHUSDT', action: 'SELL', price: '10', strategy: 'Say "hi"' },
+        },
+      ],
+      errors: ['Line 4: expected 5 fields, found 2'],
+    });
+  });
+
+  it('should use the given format over detection', () => {
+    expect(readAlertLog('{"symbol":"BTCUSDT"}', 'csv').records).toEqual([]);
+  });
+});
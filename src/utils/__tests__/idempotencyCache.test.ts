@@ -0,0 +1,39 @@
+import { IdempotencyCache } from '../idempotencyCache';
+
+describe('IdempotencyCache', () => {
+  it('should return the cached result for a known key', async () => {
+    const cache = new IdempotencyCache<number>(10, 1000);
+    cache.set('a', Promise.resolve(1), 0);
+
+    await expect(cache.get('a', 500)).resolves.toBe(1);
+    expect(cache.get('b', 500)).toBeUndefined();
+  });
+
+  it('should forget keys once the window has passed', () => {
+    const cache = new IdempotencyCache<number>(10, 1000);
+    cache.set('a', Promise.resolve(1), 0);
+    cache.set('b', Promise.resolve(2), 600);
+
+    expect(cache.get('a', 1000)).toBeUndefined();
+    expect(cache.get('b', 1000)).toBeDefined();
+  });
+
+  it('should evict the oldest keys beyond the size bound', () => {
+    const cache = new IdempotencyCache<number>(2, 1000);
+    cache.set('a', Promise.resolve(1), 0);
+    cache.set('b', Promise.resolve(2), 0);
+    cache.set('c', Promise.resolve(3), 0);
+
+    expect(cache.get('a', 0)).toBeUndefined();
+    expect(cache.get('b', 0)).toBeDefined();
+    expect(cache.get('c', 0)).toBeDefined();
+  });
+
+  it('should forget deleted keys', () => {
+    const cache = new IdempotencyCache<number>(10, 1000);
+    cache.set('a', Promise.resolve(1), 0);
+    cache.delete('a');
+
+    expect(cache.get('a', 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+import { config } from '../../config';
+import { logger } from '../logger';
+
+describe('logger', () => {
+  const { logLevel } = config;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    config.logLevel = logLevel;
+    jest.restoreAllMocks();
+  });
+
+  it('should write JSON lines with the level, time, message and fields', () => {
+    config.logLevel = 'info';
+    logger.info('Processing webhook', { symbol: 'BTCUSDT' });
+
+    const line = JSON.parse((console.log as jest.Mock).mock.calls[0][0] as string);
+    expect(line).toEqual({
+      level: 'info',
+      time: expect.any(String),
+      message: 'Processing webhook',
+      symbol: 'BTCUSDT',
+    });
+  });
+
+  it('should leave out levels below LOG_LEVEL', () => {
+    config.logLevel = 'warn';
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+
+    expect(console.log).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log nothing when silent', () => {
+    config.logLevel = 'silent';
+    logger.warn('warn');
+
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+import { readAlertLog } from '../alertLog';
+import { formatTradeExport, formatTradeRow, IExportedTrade } from '../tradeExport';
+
+describe('tradeExport', () => {
+  const trade: IExportedTrade = {
+    account: 'main',
+    symbol: 'BTCUSDT',
+    action: 'SELL',
+    price: 110,
+    quantity: 2,
+    timestamp: Date.UTC(2021, 6, 1),
+    strategy: 'Trend, "fast"',
+    commission: 0.5,
+    positionSide: 'LONG',
+    positionEffect: 'CLOSE',
+    realizedPnl: 19,
+    liquidity: 'TAKER',
+  };
+
+  it('should write a header and CSV rows that read back as the same fields', () => {
+    const csv = [...formatTradeExport([trade], 'csv')].join('');
+
+    expect(csv.split('\n')[0]).toBe(
+      'account,timestamp,symbol,action,price,quantity,strategy,commission,realizedPnl,' +
+        'positionSide,positionEffect,exitReason,orderId,requestedPrice,liquidity,source',
+    );
+    expect(readAlertLog(csv)).toEqual({
+      records: [
+        {
+          line: 2,
+          payload: {
+            account: 'main',
+            timestamp: '2021-07-01T00:00:00.000Z',
+            symbol: 'BTCUSDT',
+            action: 'SELL',
+            price: '110',
+            quantity: '2',
+            strategy: 'Trend, "fast"',
+            commission: '0.5',
+            realizedPnl: '19',
+            positionSide: 'LONG',
+            positionEffect: 'CLOSE',
+            liquidity: 'TAKER',
+          },
+        },
+      ],
+      errors: [],
+    });
+  });
+
+  it('should write JSON lines with epoch timestamps and without unset fields', () => {
+    const lines = [...formatTradeExport([trade, { ...trade, realizedPnl: undefined }], 'jsonl')];
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual({ ...trade });
+    expect(JSON.parse(lines[1])).not.toHaveProperty('realizedPnl');
+  });
+
+  it('should leave out fields that are not export columns', () => {
+    const row = formatTradeRow(
+      { ...trade, fees: { percentage: 0.5, perUnit: 0, perOrder: 0, total: 0.5 } },
+      'jsonl',
+    );
+
+    expect(JSON.parse(row)).not.toHaveProperty('fees');
+  });
+});
@@ -0,0 +1,80 @@
+import { decodeTradeCursor, encodeTradeCursor, parseTradeQuery } from '../tradeQuery';
+
+describe('parseTradeQuery', () => {
+  it('should parse filters, sorting and paging', () => {
+    expect(
+      parseTradeQuery({
+        symbol: 'btcusdt, ethusdt',
+        strategy: 'Trend',
+        action: 'sell',
+        from: '2021-07-01T00:00:00Z',
+        minPnl: '-10',
+        maxPnl: '25.5',
+        sortBy: 'realizedPnl',
+        order: 'desc',
+        limit: '50',
+        offset: '100',
+      }),
+    ).toEqual({
+      query: {
+        symbols: ['BTCUSDT', 'ETHUSDT'],
+        strategies: ['Trend'],
+        action: 'SELL',
+        from: 1625097600000,
+        minPnl: -10,
+        maxPnl: 25.5,
+        sortBy: 'realizedPnl',
+        order: 'desc',
+        limit: 50,
+        offset: 100,
+      },
+      errors: [],
+    });
+  });
+
+  it('should accept a cursor of the same sort order', () => {
+    const cursor = { sortBy: 'price' as const, order: 'asc' as const, value: 100, index: 3 };
+
+    expect(parseTradeQuery({ sortBy: 'price', cursor: encodeTradeCursor(cursor) })).toEqual({
+      query: { sortBy: 'price', cursor },
+      errors: [],
+    });
+  });
+
+  it('should report every invalid parameter', () => {
+    const cursor = encodeTradeCursor({ sortBy: 'price', order: 'asc', value: 100, index: 3 });
+
+    expect(
+      parseTradeQuery({
+        symbol: ',',
+        minPnl: '10',
+        maxPnl: 'lots',
+        sortBy: 'luck',
+        order: 'up',
+        limit: '5000',
+        offset: '-1',
+        cursor,
+        to: 'tomorrow',
+      }).errors,
+    ).toEqual([
+      'to must be a timestamp in milliseconds or an ISO 8601 date',
+      'symbol must be a comma-separated list',
+      'maxPnl must be a number',
+      'sortBy must be one of timestamp, symbol, strategy, price, quantity, commission or realizedPnl',
+      'order must be one of asc or desc',
+      'limit must be an integer between 1 and 1000',
+      'offset must be a non-negative integer',
+      'cursor does not match the sort order',
+    ]);
+    expect(parseTradeQuery({ minPnl: '10', maxPnl: '5' }).errors).toEqual([
+      'minPnl must not exceed maxPnl',
+    ]);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(decodeTradeCursor('not a cursor')).toBeUndefined();
+    expect(
+      decodeTradeCursor(Buffer.from('["price","asc",1,-1]').toString('base64url')),
+    ).toBeUndefined();
+  });
+});
@@ -1,4 +1,13 @@
-import { validateWebhook } from '../validators';
+import {
+  validateExitLevelChanges,
+  validateFlattenRequest,
+  validateManualOrder,
+  validateNotificationSinks,
+  validatePositionClose,
+  validatePriceTick,
+  validateTradingPauseRequest,
+  validateWebhook,
+} from '../validators';
 
 describe('Webhook Validators', () => {
   describe('validateWebhook', () => {
@@ -32,6 +41,27 @@ describe('Webhook Validators', () => {
       expect(result.errors).toContain('Price must be a number');
     });
 
+    it('should reject non-positive prices and quantities', () => {
+      const payload = {
+        symbol: 'BTCUSDT',
+        action: 'BUY',
+        price: 0,
+        quantity: -5,
+        strategy: 'SMA_CROSS',
+        timestamp: 1625097600000,
+      };
+
+      const result = validateWebhook(payload);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Price must be a positive number',
+        'Quantity must be a positive number',
+      ]);
+      expect(validateWebhook({ ...payload, price: 50000, quantity: 0 }).errors).toEqual([
+        'Quantity must be a positive number',
+      ]);
+    });
+
     it('should reject a payload with invalid action', () => {
       const payload = {
         symbol: 'BTCUSDT',
@@ -44,7 +74,41 @@ describe('Webhook Validators', () => {
 
       const result = validateWebhook(payload);
       expect(result.valid).toBe(false);
-      expect(result.errors).toContain('Action must be either BUY or SELL');
+      expect(result.errors).toContain('Action must be one of BUY, SELL or EXIT');
+    });
+
+    it('should accept an EXIT alert without a quantity', () => {
+      const payload = {
+        symbol: 'BTCUSDT',
+        action: 'EXIT',
+        price: 50000,
+        strategy: 'SMA_CROSS',
+        timestamp: 1625097600000,
+      };
+
+      expect(validateWebhook(payload).valid).toBe(true);
+      expect(validateWebhook({ ...payload, orderType: 'LIMIT', limitPrice: 1 }).errors).toEqual([
+        'EXIT alerts must be MARKET orders',
+      ]);
+    });
+
+    it('should validate position sizing fields', () => {
+      const payload = {
+        symbol: 'BTCUSDT',
+        action: 'BUY',
+        price: 50000,
+        strategy: 'SMA_CROSS',
+        timestamp: 1625097600000,
+      };
+
+      expect(validateWebhook({ ...payload, sizeMode: 'CASH', sizeValue: 1000 }).valid).toBe(true);
+      expect(validateWebhook({ ...payload, sizeMode: 'LOTS', sizeValue: 0 }).errors).toEqual([
+        'Size mode must be one of EQUITY_PERCENT, CASH or RISK_PERCENT',
+        'Size value must be a positive number',
+      ]);
+      expect(
+        validateWebhook({ ...payload, sizeMode: 'RISK_PERCENT', sizeValue: 1 }).errors,
+      ).toEqual(['RISK_PERCENT sizing requires a stopLoss']);
     });
 
     it('should reject a non-object payload', () => {
@@ -52,5 +116,220 @@ describe('Webhook Validators', () => {
       expect(result.valid).toBe(false);
       expect(result.errors).toContain('Payload must be an object');
     });
+
+    it('should require a limit price for limit orders', () => {
+      const payload = {
+        symbol: 'BTCUSDT',
+        action: 'BUY',
+        price: 50000,
+        quantity: 0.1,
+        strategy: 'SMA_CROSS',
+        timestamp: 1625097600000,
+        orderType: 'LIMIT',
+      };
+
+      const result = validateWebhook(payload);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain(
+        'Limit price must be a number for LIMIT and STOP_LIMIT orders',
+      );
+    });
+
+    it('should reject an invalid time in force', () => {
+      const payload = {
+        symbol: 'BTCUSDT',
+        action: 'SELL',
+        price: 50000,
+        quantity: 0.1,
+        strategy: 'SMA_CROSS',
+        timestamp: 1625097600000,
+        orderType: 'STOP',
+        stopPrice: 49000,
+        timeInForce: 'FOK',
+      };
+
+      const result = validateWebhook(payload);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['Time in force must be one of GTC, DAY or IOC']);
+    });
+
+    it('should reject conflicting trailing stop settings', () => {
+      const payload = {
+        symbol: 'BTCUSDT',
+        action: 'BUY',
+        price: 50000,
+        quantity: 0.1,
+        strategy: 'SMA_CROSS',
+        timestamp: 1625097600000,
+        stopLoss: -1,
+        trailingStopPercent: 5,
+        trailingStopOffset: 100,
+      };
+
+      const result = validateWebhook(payload);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'stopLoss must be a positive number',
+        'Use either trailingStopPercent or trailingStopOffset, not both',
+      ]);
+    });
+
+    it('should reject exit levels on the wrong side of the entry price', () => {
+      const payload = {
+        symbol: 'BTCUSDT',
+        action: 'BUY',
+        price: 100,
+        quantity: 1,
+        strategy: 'SMA_CROSS',
+        timestamp: 1625097600000,
+      };
+
+      expect(validateWebhook({ ...payload, stopLoss: 95, takeProfit: 110 }).valid).toBe(true);
+      expect(validateWebhook({ ...payload, stopLoss: 105, takeProfit: 100 }).errors).toEqual([
+        'stopLoss must be below the entry price 100 of a BUY',
+        'takeProfit must be above the entry price 100 of a BUY',
+      ]);
+      expect(
+        validateWebhook({ ...payload, action: 'SELL', stopLoss: 95, takeProfit: 110 }).errors,
+      ).toEqual([
+        'stopLoss must be above the entry price 100 of a SELL',
+        'takeProfit must be below the entry price 100 of a SELL',
+      ]);
+      // Resting orders enter at their limit price
+      expect(
+        validateWebhook({ ...payload, orderType: 'LIMIT', limitPrice: 90, stopLoss: 95 }).errors,
+      ).toEqual(['stopLoss must be below the entry price 90 of a BUY']);
+    });
+  });
+
+  describe('validatePriceTick', () => {
+    it('should validate a tick without a timestamp', () => {
+      const result = validatePriceTick({ symbol: 'BTCUSDT', price: 50000 });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject a non-positive price', () => {
+      const result = validatePriceTick({ symbol: 'BTCUSDT', price: 0 });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Price must be a positive number');
+    });
+  });
+
+  describe('validateNotificationSinks', () => {
+    it('should validate HTTP and file sinks', () => {
+      const result = validateNotificationSinks([
+        { name: 'slack', type: 'SLACK', url: 'https://hooks.slack.com/services/x', events: [] },
+        { name: 'file', type: 'FILE', path: 'data/notifications.jsonl', maxAttempts: 1 },
+      ]);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should report every problem of every sink', () => {
+      const result = validateNotificationSinks([
+        { name: 'hook', type: 'WEBHOOK', events: ['FILLED'], templates: { FILLED: 'x' } },
+        { name: 'hook', type: 'FILE', maxAttempts: 0, backoffMs: -1 },
+        { type: 'EMAIL' },
+      ]);
+      expect(result.errors).toEqual([
+        'Sink hook: url must be an http or https URL',
+        'Sink hook: events must be a list of TRADE_EXECUTED, ORDER_REJECTED, RISK_REJECTED, ALERT_FAILED, RISK_HALTED',
+        'Sink hook: templates must map event types to strings',
+        'Sink hook: name must be unique',
+        'Sink hook: path must be a non-empty string',
+        'Sink hook: maxAttempts must be a positive integer',
+        'Sink hook: backoffMs must be a non-negative number',
+        'Sink 3: name must be a non-empty string',
+        'Sink 3: type must be one of SLACK, WEBHOOK or FILE',
+      ]);
+    });
+  });
+
+  describe('validateTradingPauseRequest', () => {
+    it('should validate a global pause without a value', () => {
+      expect(validateTradingPauseRequest({ scope: 'GLOBAL' }).valid).toBe(true);
+    });
+
+    it('should require the value of a scoped pause', () => {
+      expect(validateTradingPauseRequest({ scope: 'STRATEGY', reason: 42 }).errors).toEqual([
+        'Value must name the paused strategy',
+        'Reason must be a string',
+      ]);
+      expect(validateTradingPauseRequest({ scope: 'ALL' }).errors).toEqual([
+        'Scope must be one of GLOBAL, ACCOUNT, STRATEGY or SYMBOL',
+      ]);
+    });
+  });
+
+  describe('validateFlattenRequest', () => {
+    it('should validate filters with close prices', () => {
+      expect(validateFlattenRequest({}).valid).toBe(true);
+      expect(validateFlattenRequest({ symbol: 'BTCUSDT', price: 50000 }).valid).toBe(true);
+      expect(validateFlattenRequest({ strategy: 'RSI', prices: { BTCUSDT: 50000 } }).valid).toBe(
+        true,
+      );
+    });
+
+    it('should reject a price without a symbol and invalid prices', () => {
+      const result = validateFlattenRequest({ account: 1, price: 0, prices: { BTCUSDT: 'x' } });
+      expect(result.errors).toEqual([
+        'Account must be a string',
+        'Price must be a positive number',
+        'Price requires a symbol; use prices to close several symbols',
+        'Prices must map symbols to positive numbers',
+      ]);
+    });
+  });
+
+  describe('validateManualOrder', () => {
+    it('should accept an order without a strategy or timestamp', () => {
+      const result = validateManualOrder({ symbol: 'BTCUSDT', action: 'BUY', price: 50000 });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should check the rest of the order like an alert', () => {
+      const result = validateManualOrder({ symbol: 'BTCUSDT', action: 'BUY', strategy: '' });
+      expect(result.errors).toEqual(['Price must be a number', 'Strategy is required']);
+    });
+  });
+
+  describe('validatePositionClose', () => {
+    it('should accept a close without a price or quantity', () => {
+      expect(validatePositionClose({}).valid).toBe(true);
+    });
+
+    it('should reject non-positive prices and quantities', () => {
+      expect(validatePositionClose({ price: -1, quantity: '2' }).errors).toEqual([
+        'Price must be a positive number',
+        'Quantity must be a positive number',
+      ]);
+    });
+  });
+
+  describe('validateExitLevelChanges', () => {
+    it('should accept levels to set and levels to remove', () => {
+      expect(validateExitLevelChanges({ stopLoss: 45000, takeProfit: null }).valid).toBe(true);
+    });
+
+    it('should reject invalid levels and both kinds of trailing stop', () => {
+      const result = validateExitLevelChanges({
+        stopLoss: 0,
+        trailingStopPercent: 5,
+        trailingStopOffset: 100,
+      });
+      expect(result.errors).toEqual([
+        'stopLoss must be a positive number or null',
+        'Use either trailingStopPercent or trailingStopOffset, not both',
+      ]);
+    });
+
+    it('should reject levels the market price of the position has passed', () => {
+      const short = { side: 'SHORT' as const, marketPrice: 100 };
+
+      expect(validateExitLevelChanges({ stopLoss: 105, takeProfit: 90 }, short).valid).toBe(true);
+      expect(validateExitLevelChanges({ stopLoss: 95, takeProfit: 100 }, short).errors).toEqual([
+        'stopLoss must be above the market price 100 of a SHORT position',
+        'takeProfit must be below the market price 100 of a SHORT position',
+      ]);
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,95 @@
+import { normalizeWebhookPayload, parseAlertBody } from '../webhookPayload';
+
+describe('Webhook Payload Normalization', () => {
+  describe('parseAlertBody', () => {
+    it('should parse a JSON text body', () => {
+      expect(parseAlertBody(' {"symbol": "BTCUSDT"} ')).toEqual({ symbol: 'BTCUSDT' });
+    });
+
+    it('should parse key=value lines', () => {
+      expect(parseAlertBody('symbol=BTCUSDT\r\naction = buy\n\nstrategy=SMA=CROSS')).toEqual({
+        symbol: 'BTCUSDT',
+        action: 'buy',
+        strategy: 'SMA=CROSS',
+      });
+    });
+
+    it('should leave unparseable text and objects unchanged', () => {
+      const body = { symbol: 'BTCUSDT' };
+
+      expect(parseAlertBody('BTCUSDT crossed up')).toBe('BTCUSDT crossed up');
+      expect(parseAlertBody('{"symbol": ')).toBe('{"symbol": ');
+      expect(parseAlertBody(body)).toBe(body);
+    });
+  });
+
+  describe('normalizeWebhookPayload', () => {
+    it('should coerce numeric strings and map action words', () => {
+      const result = normalizeWebhookPayload({
+        symbol: 'BTCUSDT',
+        action: 'Long',
+        price: '101.5',
+        quantity: '2',
+        strategy: 'SMA_CROSS',
+        timestamp: '1625097600000',
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.payload).toEqual({
+        symbol: 'BTCUSDT',
+        action: 'BUY',
+        price: 101.5,
+        quantity: 2,
+        strategy: 'SMA_CROSS',
+        timestamp: 1625097600000,
+      });
+    });
+
+    it('should map exit and flat to EXIT', () => {
+      expect(normalizeWebhookPayload({ action: 'flat' }).payload).toEqual({ action: 'EXIT' });
+      expect(normalizeWebhookPayload({ action: 'exit' }).payload).toEqual({ action: 'EXIT' });
+    });
+
+    it('should read TradingView placeholder fields', () => {
+      const result = normalizeWebhookPayload(
+        [
+          'ticker=ETHUSDT',
+          'strategy.order.action=sell',
+          'strategy.order.contracts=0.5',
+          'strategy.order.price=2000',
+          'strategy=BREAKOUT',
+          'timenow=2021-07-01T00:00:00Z',
+        ].join('\n'),
+      );
+
+      expect(result.payload).toEqual({
+        symbol: 'ETHUSDT',
+        action: 'SELL',
+        price: 2000,
+        quantity: 0.5,
+        strategy: 'BREAKOUT',
+        timestamp: 1625097600000,
+      });
+    });
+
+    it('should prefer canonical fields over placeholder fields', () => {
+      const result = normalizeWebhookPayload({ price: 10, close: '11' });
+
+      expect(result.payload).toEqual({ price: 10 });
+    });
+
+    it('should reject unreplaced placeholders', () => {
+      const result = normalizeWebhookPayload({ symbol: 'BTCUSDT', price: '{{close}}' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['price contains an unreplaced placeholder {{close}}']);
+    });
+
+    it('should reject text that is neither JSON nor key=value lines', () => {
+      expect(normalizeWebhookPayload('BTCUSDT crossed up').errors).toEqual([
+        'Payload must be JSON or key=value lines',
+      ]);
+      expect(normalizeWebhookPayload('{"symbol": ').errors).toEqual(['Payload is not valid JSON']);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Formats of recorded alert logs
+ * - jsonl: one JSON webhook payload per line
+ * - csv: a header row of field names, then one alert per row
+ */
+export type TAlertLogFormat = 'jsonl' | 'csv';
+
+/**
+ * An alert read from a log, with the line it was read from
+ */
+export interface IAlertLogRecord {
+  line: number;
+  payload: unknown;
+}
+
+/**
+ * Records read from an alert log, and the lines that could not be read
+ */
+export interface IAlertLogResult {
+  records: IAlertLogRecord[];
+  errors: string[];
+}
+
+/**
+ * Splits a CSV row into its fields. Fields may be quoted with double quotes,
+ * and a doubled quote inside a quoted field is a literal quote.
+ */
+function splitCsvRow(row: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i += 1) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Reads the alerts of a recorded alert log. Blank lines are skipped, and
+ * empty CSV fields are left out of their alert. Values are not validated.
+ * @param text - Contents of the log
+ * @param format - Format of the log, detected from its first line when omitted
+ * @returns The alerts read and an error for every line that could not be read
+ */
+export function readAlertLog(text: string, format?: TAlertLogFormat): IAlertLogResult {
+  const lines = text
+    .split(/\r?\n/)
+    .map((content, index) => ({ line: index + 1, content: content.trim() }))
+    .filter(({ content }) => content !== '');
+
+  const records: IAlertLogRecord[] = [];
+  const errors: string[] = [];
+
+  if ((format ?? (lines[0]?.content.startsWith('{') ? 'jsonl' : 'csv')) === 'jsonl') {
+    lines.forEach(({ line, content }) => {
+      try {
+        records.push({ line, payload: JSON.parse(content) as unknown });
+      } catch {
+        errors.push(`Line ${line}: not valid JSON`);
+      }
+    });
+    return { records, errors };
+  }
+
+  const [header, ...rows] = lines;
+  const fieldNames = header ? splitCsvRow(header.content) : [];
+
+  rows.forEach(({ line, content }) => {
+    const values = splitCsvRow(content);
+    if (values.length !== fieldNames.length) {
+      errors.push(`Line ${line}: expected ${fieldNames.length} fields, found ${values.length}`);
+      return;
+    }
+
+    const payload: Record<string, string> = {};
+    fieldNames.forEach((name, index) => {
+      if (values[index] !== '') {
+        payload[name] = values[index];
+      }
+    });
+    records.push({ line, payload });
+  });
+
+  return { records, errors };
+}
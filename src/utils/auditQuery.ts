@@ -0,0 +1,89 @@
+import { parseTimeRange } from './time';
+import { IAuditQuery, TAuditEventType } from '../models/audit.interface';
+
+const AUDIT_EVENT_TYPES: TAuditEventType[] = [
+  'WEBHOOK_AUTH_REJECTED',
+  'WEBHOOK_INVALID',
+  'WEBHOOK_PROCESSED',
+  'WEBHOOK_DUPLICATE',
+  'WEBHOOK_IGNORED',
+  'WEBHOOK_RISK_REJECTED',
+  'WEBHOOK_FAILED',
+];
+
+// Most entries a request may ask for
+const MAX_AUDIT_LIMIT = 1000;
+
+/**
+ * Parses the filter query parameters of an audit log request: `type` and
+ * `symbol` (comma-separated lists), `status`, `account`, `strategy`,
+ * `sourceIp`, `q` (text search), `from`, `to` and `limit`
+ * @param query - The request query
+ * @returns The audit query, and an error for each parameter that cannot be parsed
+ */
+export function parseAuditQuery(query: Record<string, unknown>): {
+  query: IAuditQuery;
+  errors: string[];
+} {
+  const { range, errors } = parseTimeRange(query);
+  const parsed: IAuditQuery = { ...range };
+  const isText = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+  if (query.type !== undefined) {
+    const types = isText(query.type) ? query.type.split(',').map(type => type.trim()) : [];
+    if (
+      types.length > 0 &&
+      types.every(type => AUDIT_EVENT_TYPES.includes(type as TAuditEventType))
+    ) {
+      parsed.types = types as TAuditEventType[];
+    } else {
+      errors.push(`type must be a comma-separated list of ${AUDIT_EVENT_TYPES.join(', ')}`);
+    }
+  }
+
+  if (query.symbol !== undefined) {
+    if (isText(query.symbol)) {
+      parsed.symbols = query.symbol.split(',').map(symbol => symbol.trim().toUpperCase());
+    } else {
+      errors.push('symbol must be a comma-separated list');
+    }
+  }
+
+  if (query.status !== undefined) {
+    if (isText(query.status) && /^[1-5]\d\d$/.test(query.status)) {
+      parsed.status = parseInt(query.status, 10);
+    } else {
+      errors.push('status must be an HTTP status code');
+    }
+  }
+
+  (['account', 'strategy', 'sourceIp'] as const).forEach(name => {
+    if (query[name] === undefined) {
+      return;
+    }
+    if (isText(query[name])) {
+      parsed[name] = query[name];
+    } else {
+      errors.push(`${name} must be a string`);
+    }
+  });
+
+  if (query.q !== undefined) {
+    if (isText(query.q)) {
+      parsed.search = query.q;
+    } else {
+      errors.push('q must be a string');
+    }
+  }
+
+  if (query.limit !== undefined) {
+    const limit = isText(query.limit) && /^\d+$/.test(query.limit) ? parseInt(query.limit, 10) : 0;
+    if (limit < 1 || limit > MAX_AUDIT_LIMIT) {
+      errors.push(`limit must be an integer between 1 and ${MAX_AUDIT_LIMIT}`);
+    } else {
+      parsed.limit = limit;
+    }
+  }
+
+  return { query: parsed, errors };
+}
@@ -0,0 +1,66 @@
+/**
+ * Cache entry holding the (possibly still pending) result for a key
+ */
+interface ICacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+/**
+ * Bounded cache of results keyed by idempotency key. Entries expire after a
+ * time window and the oldest entries are evicted once the cache is full.
+ * Pending results are cached too, so concurrent duplicates share one result.
+ */
+export class IdempotencyCache<T> {
+  private readonly entries = new Map<string, ICacheEntry<T>>();
+
+  /**
+   * Creates a new IdempotencyCache
+   * @param maxEntries - Maximum number of keys remembered
+   * @param windowMs - How long a key is remembered, in milliseconds
+   */
+  constructor(private readonly maxEntries: number, private readonly windowMs: number) {}
+
+  /**
+   * Gets the cached result for a key
+   * @param key - The idempotency key
+   * @param now - Current time, defaults to Date.now()
+   * @returns The cached result, or undefined if the key is unknown or expired
+   */
+  public get(key: string, now = Date.now()): Promise<T> | undefined {
+    this.prune(now);
+    return this.entries.get(key)?.value;
+  }
+
+  /**
+   * Caches the result for a key
+   * @param key - The idempotency key
+   * @param value - The result, which may still be pending
+   * @param now - Current time, defaults to Date.now()
+   */
+  public set(key: string, value: Promise<T>, now = Date.now()): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: now + this.windowMs });
+    this.prune(now);
+  }
+
+  /**
+   * Forgets a key, e.g. when processing failed and a retry should run again
+   * @param key - The idempotency key
+   */
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Removes expired entries and evicts the oldest ones beyond the size bound
+   */
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now && this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
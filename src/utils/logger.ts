@@ -0,0 +1,49 @@
+import { config } from '../config';
+
+/**
+ * Severity of a log line, least severe first
+ */
+export type TLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: TLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Position of the least severe level that is logged. LOG_LEVEL=silent logs
+ * nothing, and unknown levels log from info.
+ */
+function getThreshold(level: string): number {
+  if (level === 'silent') {
+    return LOG_LEVELS.length;
+  }
+  const index = LOG_LEVELS.indexOf(level as TLogLevel);
+  return index === -1 ? LOG_LEVELS.indexOf('info') : index;
+}
+
+/**
+ * Writes a log line as a JSON object with its level, time and message,
+ * when the level is at least LOG_LEVEL
+ */
+function log(level: TLogLevel, message: string, fields: object = {}): void {
+  if (LOG_LEVELS.indexOf(level) < getThreshold(config.logLevel)) {
+    return;
+  }
+
+  const line = JSON.stringify({ level, time: new Date().toISOString(), message, ...fields });
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Structured JSON logger filtered by LOG_LEVEL
+ */
+export const logger = {
+  debug: (message: string, fields?: object): void => log('debug', message, fields),
+  info: (message: string, fields?: object): void => log('info', message, fields),
+  warn: (message: string, fields?: object): void => log('warn', message, fields),
+  error: (message: string, fields?: object): void => log('error', message, fields),
+};
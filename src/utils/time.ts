@@ -0,0 +1,77 @@
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration such as `15m`, `1h` or `1d`; a bare number is milliseconds
+ * @param value - The duration to parse
+ * @returns The duration in milliseconds, or undefined if it is not a positive duration
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = /^(\d+)(ms|s|m|h|d)?$/.exec(value);
+  const duration = match ? parseInt(match[1], 10) * DURATION_UNITS[match[2] ?? 'ms'] : 0;
+  return duration > 0 ? duration : undefined;
+}
+
+/**
+ * Parses a point in time given in epoch milliseconds or as an ISO 8601 date
+ * @param value - The time to parse
+ * @returns The time in epoch milliseconds, or undefined if it cannot be parsed
+ */
+export function parseTime(value: string): number | undefined {
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Time range bounds in epoch milliseconds, both inclusive
+ */
+export interface ITimeRange {
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Parses the `from` and `to` query parameters of a request
+ * @param query - The request query
+ * @returns The time range, and an error for each bound that cannot be parsed
+ */
+export function parseTimeRange(query: Record<string, unknown>): {
+  range: ITimeRange;
+  errors: string[];
+} {
+  const range: ITimeRange = {};
+  const errors: string[] = [];
+
+  (['from', 'to'] as const).forEach(name => {
+    const value = query[name];
+    if (value === undefined) {
+      return;
+    }
+
+    const time = typeof value === 'string' ? parseTime(value) : undefined;
+    if (time === undefined) {
+      errors.push(`${name} must be a timestamp in milliseconds or an ISO 8601 date`);
+    } else {
+      range[name] = time;
+    }
+  });
+
+  return { range, errors };
+}
+
+/**
+ * Checks whether a time lies within a range
+ * @param time - The time in epoch milliseconds
+ * @param range - The range to check against
+ * @returns True if the time lies within the range
+ */
+export function isInTimeRange(time: number, range: ITimeRange): boolean {
+  return (
+    (range.from === undefined || time >= range.from) && (range.to === undefined || time <= range.to)
+  );
+}
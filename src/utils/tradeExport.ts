@@ -0,0 +1,88 @@
+import { ITrade } from '../trading/paperTradingSystem';
+
+/**
+ * Formats trade history can be exported in
+ * - csv: a header row of column names, then one trade per row, timestamps as ISO 8601 dates
+ * - jsonl: one JSON trade per line, timestamps as epoch milliseconds
+ */
+export type TTradeExportFormat = 'csv' | 'jsonl';
+
+/**
+ * A trade to export, with the account it was made in
+ */
+export interface IExportedTrade extends ITrade {
+  account?: string;
+}
+
+// Columns of an exported trade, in CSV column order
+export const TRADE_EXPORT_COLUMNS = [
+  'account',
+  'timestamp',
+  'symbol',
+  'action',
+  'price',
+  'quantity',
+  'strategy',
+  'commission',
+  'realizedPnl',
+  'positionSide',
+  'positionEffect',
+  'exitReason',
+  'orderId',
+  'requestedPrice',
+  'liquidity',
+  'source',
+] as const;
+
+/**
+ * Quotes a CSV field when it contains a separator, a quote or a line break
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats one trade as a line of an export, without the line break
+ * @param trade - The trade
+ * @param format - Format of the export
+ * @returns The CSV row or JSON line of the trade
+ */
+export function formatTradeRow(trade: IExportedTrade, format: TTradeExportFormat): string {
+  if (format === 'jsonl') {
+    const row: Record<string, unknown> = {};
+    TRADE_EXPORT_COLUMNS.forEach(column => {
+      if (trade[column] !== undefined) {
+        row[column] = trade[column];
+      }
+    });
+    return JSON.stringify(row);
+  }
+
+  return TRADE_EXPORT_COLUMNS.map(column => {
+    const value = trade[column];
+    if (value === undefined) {
+      return '';
+    }
+    return escapeCsvField(column === 'timestamp' ? new Date(value).toISOString() : String(value));
+  }).join(',');
+}
+
+/**
+ * Formats trades as the lines of an export, one at a time so large histories
+ * can be streamed. CSV exports start with a header row, and can be read back
+ * with readAlertLog.
+ * @param trades - The trades to export, in export order
+ * @param format - Format of the export
+ * @returns The lines of the export, each ending in a line break
+ */
+export function* formatTradeExport(
+  trades: IExportedTrade[],
+  format: TTradeExportFormat,
+): Generator<string> {
+  if (format === 'csv') {
+    yield `${TRADE_EXPORT_COLUMNS.join(',')}\n`;
+  }
+  for (const trade of trades) {
+    yield `${formatTradeRow(trade, format)}\n`;
+  }
+}
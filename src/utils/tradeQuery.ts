@@ -0,0 +1,201 @@
+import { parseTimeRange } from './time';
+import {
+  ITradeCursor,
+  ITradeHistoryQuery,
+  TSortOrder,
+  TTradeSortField,
+} from '../models/tradeQuery.interface';
+
+const SORT_FIELDS: TTradeSortField[] = [
+  'timestamp',
+  'symbol',
+  'strategy',
+  'price',
+  'quantity',
+  'commission',
+  'realizedPnl',
+];
+
+const SORT_ORDERS: TSortOrder[] = ['asc', 'desc'];
+
+// Largest page of trades a request may ask for
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Encodes the position a page of trades ends at as an opaque cursor
+ * @param cursor - The last trade of the page
+ * @returns The cursor to pass as `cursor` for the next page
+ */
+export function encodeTradeCursor(cursor: ITradeCursor): string {
+  const { sortBy, order, value, index } = cursor;
+  return Buffer.from(JSON.stringify([sortBy, order, value, index])).toString('base64url');
+}
+
+/**
+ * Decodes a cursor made by encodeTradeCursor
+ * @param value - The cursor
+ * @returns The position it encodes, or undefined if it is not a valid cursor
+ */
+export function decodeTradeCursor(value: string): ITradeCursor | undefined {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 4) {
+      return undefined;
+    }
+
+    const [sortBy, order, sortValue, index] = decoded as unknown[];
+    const isValid =
+      SORT_FIELDS.includes(sortBy as TTradeSortField) &&
+      SORT_ORDERS.includes(order as TSortOrder) &&
+      (sortValue === null || ['string', 'number'].includes(typeof sortValue)) &&
+      Number.isInteger(index) &&
+      (index as number) >= 0;
+
+    return isValid
+      ? {
+          sortBy: sortBy as TTradeSortField,
+          order: order as TSortOrder,
+          value: sortValue as ITradeCursor['value'],
+          index: index as number,
+        }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses a query parameter holding a comma-separated list
+ */
+function parseList(value: unknown): string[] | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const items = value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item !== '');
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parses a query parameter holding an integer of at least `min`
+ */
+function parseInteger(value: unknown, min: number): number | undefined {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+
+  const parsed = parseInt(value, 10);
+  return parsed >= min ? parsed : undefined;
+}
+
+/**
+ * Parses the filter, sort and page query parameters of a trade history request:
+ * `symbol` and `strategy` (comma-separated lists), `action`, `from`, `to`,
+ * `minPnl`, `maxPnl`, `sortBy`, `order`, `limit`, and `offset` or `cursor`
+ * @param query - The request query
+ * @returns The trade history query, and an error for each parameter that cannot be parsed
+ */
+export function parseTradeQuery(query: Record<string, unknown>): {
+  query: ITradeHistoryQuery;
+  errors: string[];
+} {
+  const { range, errors } = parseTimeRange(query);
+  const parsed: ITradeHistoryQuery = { ...range };
+
+  (['symbol', 'strategy'] as const).forEach(name => {
+    if (query[name] === undefined) {
+      return;
+    }
+
+    const items = parseList(query[name]);
+    if (!items) {
+      errors.push(`${name} must be a comma-separated list`);
+    } else if (name === 'symbol') {
+      parsed.symbols = items.map(symbol => symbol.toUpperCase());
+    } else {
+      parsed.strategies = items;
+    }
+  });
+
+  if (query.action !== undefined) {
+    const action = typeof query.action === 'string' ? query.action.toUpperCase() : undefined;
+    if (action === 'BUY' || action === 'SELL') {
+      parsed.action = action;
+    } else {
+      errors.push('action must be one of BUY or SELL');
+    }
+  }
+
+  (['minPnl', 'maxPnl'] as const).forEach(name => {
+    if (query[name] === undefined) {
+      return;
+    }
+
+    const value = typeof query[name] === 'string' ? Number(query[name]) : NaN;
+    if (query[name] === '' || !Number.isFinite(value)) {
+      errors.push(`${name} must be a number`);
+    } else {
+      parsed[name] = value;
+    }
+  });
+  if (parsed.minPnl !== undefined && parsed.maxPnl !== undefined && parsed.minPnl > parsed.maxPnl) {
+    errors.push('minPnl must not exceed maxPnl');
+  }
+
+  if (query.sortBy !== undefined) {
+    if (SORT_FIELDS.includes(query.sortBy as TTradeSortField)) {
+      parsed.sortBy = query.sortBy as TTradeSortField;
+    } else {
+      errors.push(
+        'sortBy must be one of timestamp, symbol, strategy, price, quantity, commission or realizedPnl',
+      );
+    }
+  }
+
+  if (query.order !== undefined) {
+    if (SORT_ORDERS.includes(query.order as TSortOrder)) {
+      parsed.order = query.order as TSortOrder;
+    } else {
+      errors.push('order must be one of asc or desc');
+    }
+  }
+
+  if (query.limit !== undefined) {
+    const limit = parseInteger(query.limit, 1);
+    if (limit === undefined || limit > MAX_PAGE_SIZE) {
+      errors.push(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    } else {
+      parsed.limit = limit;
+    }
+  }
+
+  if (query.offset !== undefined) {
+    const offset = parseInteger(query.offset, 0);
+    if (offset === undefined) {
+      errors.push('offset must be a non-negative integer');
+    } else {
+      parsed.offset = offset;
+    }
+  }
+
+  if (query.cursor !== undefined) {
+    const cursor = typeof query.cursor === 'string' ? decodeTradeCursor(query.cursor) : undefined;
+    if (!cursor) {
+      errors.push('cursor is not valid');
+    } else if (
+      cursor.sortBy !== (parsed.sortBy ?? 'timestamp') ||
+      cursor.order !== (parsed.order ?? 'asc')
+    ) {
+      errors.push('cursor does not match the sort order');
+    } else if (query.offset !== undefined) {
+      errors.push('offset and cursor cannot be combined');
+    } else {
+      parsed.cursor = cursor;
+    }
+  }
+
+  return { query: parsed, errors };
+}
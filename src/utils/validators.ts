@@ -1,4 +1,13 @@
+import { IAccountRequest } from '../models/account.interface';
+import { IBacktestConfig } from '../models/backtest.interface';
+import { IInstrument } from '../models/instrument.interface';
+import { IPriceTick } from '../models/order.interface';
+import { IFlattenRequest, ITradingPauseRequest } from '../models/tradingControl.interface';
 import { ITradingViewWebhook } from '../models/webhook.interface';
+import { INotificationSinkConfig } from '../notifications/notificationSink';
+import { isMultipleOf } from '../trading/instrumentRegistry';
+import { TPositionSide } from '../trading/paperTradingSystem';
+import { IRiskLimits } from '../trading/riskEngine';
 
 /**
  * Validation result interface
@@ -8,12 +17,49 @@ export interface IValidationResult {
   errors?: string[];
 }
 
+/**
+ * Checks that a stop-loss is on the losing and a take-profit on the winning
+ * side of a price
+ * @param levels - The levels to check; those that are not positive numbers are skipped
+ * @param isLong - Whether the position is long
+ * @param price - The price the levels are compared with
+ * @param description - Names the price in the errors, e.g. `the entry price 100 of a BUY`
+ * @returns An error for every level on the wrong side
+ */
+function validateExitLevelSides(
+  levels: { stopLoss?: unknown; takeProfit?: unknown },
+  isLong: boolean,
+  price: number,
+  description: string,
+): string[] {
+  const errors: string[] = [];
+  const isBelow = (level: number): boolean => level < price;
+  const isAbove = (level: number): boolean => level > price;
+  const { stopLoss, takeProfit } = levels;
+
+  if (typeof stopLoss === 'number' && stopLoss > 0 && !(isLong ? isBelow : isAbove)(stopLoss)) {
+    errors.push(`stopLoss must be ${isLong ? 'below' : 'above'} ${description}`);
+  }
+  if (
+    typeof takeProfit === 'number' &&
+    takeProfit > 0 &&
+    !(isLong ? isAbove : isBelow)(takeProfit)
+  ) {
+    errors.push(`takeProfit must be ${isLong ? 'above' : 'below'} ${description}`);
+  }
+  return errors;
+}
+
 /**
  * Validates a TradingView webhook payload
  * @param payload - The webhook payload to validate
+ * @param getInstrument - Looks up the instrument whose tick and lot size prices and quantities must follow
  * @returns Validation result
  */
-export function validateWebhook(payload: unknown): IValidationResult {
+export function validateWebhook(
+  payload: unknown,
+  getInstrument?: (symbol: string) => IInstrument | undefined,
+): IValidationResult {
   const errors: string[] = [];
 
   // Check if payload is an object
@@ -29,16 +75,653 @@ export function validateWebhook(payload: unknown): IValidationResult {
   // Check required fields
   if (!webhook.symbol) errors.push('Symbol is required');
   if (!webhook.action) errors.push('Action is required');
-  if (webhook.action && !['BUY', 'SELL'].includes(webhook.action)) {
-    errors.push('Action must be either BUY or SELL');
+  if (webhook.action && !['BUY', 'SELL', 'EXIT'].includes(webhook.action)) {
+    errors.push('Action must be one of BUY, SELL or EXIT');
+  }
+  if (typeof webhook.price !== 'number') {
+    errors.push('Price must be a number');
+  } else if (webhook.price <= 0) {
+    errors.push('Price must be a positive number');
+  }
+  if (webhook.quantity !== undefined) {
+    if (typeof webhook.quantity !== 'number') {
+      errors.push('Quantity must be a number');
+    } else if (webhook.quantity <= 0) {
+      errors.push('Quantity must be a positive number');
+    }
   }
-  if (typeof webhook.price !== 'number') errors.push('Price must be a number');
-  if (typeof webhook.quantity !== 'number') errors.push('Quantity must be a number');
   if (!webhook.strategy) errors.push('Strategy is required');
   if (typeof webhook.timestamp !== 'number') errors.push('Timestamp must be a number');
 
+  // Check optional order fields
+  const orderType = webhook.orderType ?? 'MARKET';
+  if (!['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT'].includes(orderType)) {
+    errors.push('Order type must be one of MARKET, LIMIT, STOP or STOP_LIMIT');
+  }
+  if (
+    (orderType === 'LIMIT' || orderType === 'STOP_LIMIT') &&
+    typeof webhook.limitPrice !== 'number'
+  ) {
+    errors.push('Limit price must be a number for LIMIT and STOP_LIMIT orders');
+  }
+  if (
+    (orderType === 'STOP' || orderType === 'STOP_LIMIT') &&
+    typeof webhook.stopPrice !== 'number'
+  ) {
+    errors.push('Stop price must be a number for STOP and STOP_LIMIT orders');
+  }
+  if (webhook.action === 'EXIT' && orderType !== 'MARKET') {
+    errors.push('EXIT alerts must be MARKET orders');
+  }
+  if (webhook.timeInForce && !['GTC', 'DAY', 'IOC'].includes(webhook.timeInForce)) {
+    errors.push('Time in force must be one of GTC, DAY or IOC');
+  }
+
+  // Check optional exit levels
+  const exitLevels = ['stopLoss', 'takeProfit', 'trailingStopOffset'] as const;
+  exitLevels.forEach(field => {
+    const value = webhook[field];
+    if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+      errors.push(`${field} must be a positive number`);
+    }
+  });
+  // A level on the wrong side of the entry would close the position on the next tick
+  const entryPrice = orderType === 'STOP' ? webhook.stopPrice : webhook.limitPrice ?? webhook.price;
+  if ((webhook.action === 'BUY' || webhook.action === 'SELL') && typeof entryPrice === 'number') {
+    errors.push(
+      ...validateExitLevelSides(
+        webhook,
+        webhook.action === 'BUY',
+        entryPrice,
+        `the entry price ${entryPrice} of a ${webhook.action}`,
+      ),
+    );
+  }
+  const { trailingStopPercent } = webhook;
+  if (
+    trailingStopPercent !== undefined &&
+    (typeof trailingStopPercent !== 'number' ||
+      trailingStopPercent <= 0 ||
+      trailingStopPercent >= 100)
+  ) {
+    errors.push('trailingStopPercent must be a number between 0 and 100');
+  }
+  if (trailingStopPercent !== undefined && webhook.trailingStopOffset !== undefined) {
+    errors.push('Use either trailingStopPercent or trailingStopOffset, not both');
+  }
+
+  // Check prices and quantity against the instrument's tick and lot size
+  const instrument = webhook.symbol ? getInstrument?.(webhook.symbol) : undefined;
+  const { tickSize, lotSize } = instrument ?? {};
+  if (tickSize !== undefined) {
+    (['price', 'limitPrice', 'stopPrice'] as const).forEach(field => {
+      const value = webhook[field];
+      if (typeof value === 'number' && !isMultipleOf(value, tickSize)) {
+        errors.push(`${field} must be a multiple of the tick size ${tickSize}`);
+      }
+    });
+  }
+  if (
+    lotSize !== undefined &&
+    typeof webhook.quantity === 'number' &&
+    !isMultipleOf(webhook.quantity, lotSize)
+  ) {
+    errors.push(`Quantity must be a multiple of the lot size ${lotSize}`);
+  }
+
+  // Check optional position sizing
+  const { sizeMode, sizeValue } = webhook;
+  if (sizeMode !== undefined && !['EQUITY_PERCENT', 'CASH', 'RISK_PERCENT'].includes(sizeMode)) {
+    errors.push('Size mode must be one of EQUITY_PERCENT, CASH or RISK_PERCENT');
+  }
+  if (sizeMode !== undefined && (typeof sizeValue !== 'number' || sizeValue <= 0)) {
+    errors.push('Size value must be a positive number');
+  }
+  if (sizeMode === 'RISK_PERCENT' && webhook.stopLoss === undefined) {
+    errors.push('RISK_PERCENT sizing requires a stopLoss');
+  }
+
+  if (webhook.account !== undefined && typeof webhook.account !== 'string') {
+    errors.push('Account must be a string');
+  }
+  if (
+    webhook.alertId !== undefined &&
+    (typeof webhook.alertId !== 'string' || webhook.alertId.length === 0)
+  ) {
+    errors.push('Alert id must be a non-empty string');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Validates a price tick payload
+ * @param payload - The price tick to validate
+ * @returns Validation result
+ */
+export function validatePriceTick(payload: unknown): IValidationResult {
+  const errors: string[] = [];
+
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: ['Payload must be an object'],
+    };
+  }
+
+  const tick = payload as Partial<IPriceTick>;
+
+  if (!tick.symbol) errors.push('Symbol is required');
+  if (typeof tick.price !== 'number' || tick.price <= 0) {
+    errors.push('Price must be a positive number');
+  }
+  if (tick.timestamp !== undefined && typeof tick.timestamp !== 'number') {
+    errors.push('Timestamp must be a number');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Validates a request to create a paper trading account
+ * @param payload - The account request to validate
+ * @returns Validation result
+ */
+export function validateAccountRequest(payload: unknown): IValidationResult {
+  const errors: string[] = [];
+
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: ['Payload must be an object'],
+    };
+  }
+
+  const request = payload as Partial<IAccountRequest>;
+
+  if (typeof request.id !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(request.id)) {
+    errors.push('Id must be 1-64 letters, digits, dashes or underscores');
+  }
+  if (typeof request.initialBalance !== 'number' || request.initialBalance <= 0) {
+    errors.push('Initial balance must be a positive number');
+  }
+  if (
+    request.commission !== undefined &&
+    (typeof request.commission !== 'number' || request.commission < 0)
+  ) {
+    errors.push('Commission must be a non-negative number');
+  }
+  if (
+    request.marginRequirement !== undefined &&
+    (typeof request.marginRequirement !== 'number' || request.marginRequirement <= 0)
+  ) {
+    errors.push('Margin requirement must be a positive number');
+  }
+  if (
+    request.costBasisMethod !== undefined &&
+    !['FIFO', 'LIFO', 'AVERAGE'].includes(request.costBasisMethod)
+  ) {
+    errors.push('Cost basis method must be one of FIFO, LIFO or AVERAGE');
+  }
+  if (request.riskLimits !== undefined) {
+    errors.push(...validateRiskLimits(request.riskLimits));
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Validates the trading parameters of a backtest
+ * @param payload - The backtest parameters to validate
+ * @returns Validation result
+ */
+export function validateBacktestConfig(payload: unknown): IValidationResult {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return {
+      valid: false,
+      errors: ['Config must be an object'],
+    };
+  }
+
+  const errors: string[] = [];
+  const backtestConfig = payload as Partial<IBacktestConfig>;
+
+  if (
+    backtestConfig.initialBalance !== undefined &&
+    (typeof backtestConfig.initialBalance !== 'number' || backtestConfig.initialBalance <= 0)
+  ) {
+    errors.push('Initial balance must be a positive number');
+  }
+  if (
+    backtestConfig.commission !== undefined &&
+    (typeof backtestConfig.commission !== 'number' || backtestConfig.commission < 0)
+  ) {
+    errors.push('Commission must be a non-negative number');
+  }
+  if (
+    backtestConfig.marginRequirement !== undefined &&
+    (typeof backtestConfig.marginRequirement !== 'number' || backtestConfig.marginRequirement <= 0)
+  ) {
+    errors.push('Margin requirement must be a positive number');
+  }
+  if (
+    backtestConfig.costBasisMethod !== undefined &&
+    !['FIFO', 'LIFO', 'AVERAGE'].includes(backtestConfig.costBasisMethod)
+  ) {
+    errors.push('Cost basis method must be one of FIFO, LIFO or AVERAGE');
+  }
+  (['feeModel', 'positionSizing'] as const).forEach(field => {
+    const value = backtestConfig[field];
+    if (value !== undefined && (!value || typeof value !== 'object' || Array.isArray(value))) {
+      errors.push(`${field} must be an object`);
+    }
+  });
+  const { slippageModel } = backtestConfig;
+  if (
+    slippageModel !== undefined &&
+    !['NONE', 'FIXED_TICKS', 'BPS', 'VOLUME'].includes(slippageModel?.type)
+  ) {
+    errors.push('Slippage model type must be one of NONE, FIXED_TICKS, BPS or VOLUME');
+  }
+  if (backtestConfig.riskLimits !== undefined) {
+    errors.push(...validateRiskLimits(backtestConfig.riskLimits));
+  }
+  if (backtestConfig.instruments !== undefined) {
+    if (Array.isArray(backtestConfig.instruments)) {
+      backtestConfig.instruments.forEach((instrument: unknown, index) => {
+        const instrumentErrors = validateInstrument(instrument).errors ?? [];
+        errors.push(...instrumentErrors.map(error => `Instrument ${index + 1}: ${error}`));
+      });
+    } else {
+      errors.push('Instruments must be a list of instruments');
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors: errors.length > 0 ? errors : undefined,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Validates account risk limits
+ * @param limits - The risk limits to validate
+ * @returns Error messages, empty when the limits are valid
+ */
+function validateRiskLimits(limits: unknown): string[] {
+  if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+    return ['Risk limits must be an object'];
+  }
+
+  const errors: string[] = [];
+  const riskLimits = limits as Partial<IRiskLimits>;
+  const isPositive = (value: unknown): boolean => typeof value === 'number' && value > 0;
+
+  const positiveFields = [
+    'maxPositionPercent',
+    'maxGrossExposurePercent',
+    'maxOpenPositions',
+    'lossLimit',
+  ] as const;
+  positiveFields.forEach(field => {
+    if (riskLimits[field] !== undefined && !isPositive(riskLimits[field])) {
+      errors.push(`${field} must be a positive number`);
+    }
+  });
+
+  const { maxSymbolQuantity, lossLimitPeriod } = riskLimits;
+  if (
+    maxSymbolQuantity !== undefined &&
+    (!maxSymbolQuantity ||
+      typeof maxSymbolQuantity !== 'object' ||
+      !Object.values(maxSymbolQuantity).every(isPositive))
+  ) {
+    errors.push('maxSymbolQuantity must map symbols to positive numbers');
+  }
+  if (lossLimitPeriod !== undefined && !['DAILY', 'WEEKLY'].includes(lossLimitPeriod)) {
+    errors.push('lossLimitPeriod must be one of DAILY or WEEKLY');
+  }
+
+  return errors;
+}
+
+/**
+ * Validates an instrument definition
+ * @param payload - The instrument to validate
+ * @returns Validation result
+ */
+export function validateInstrument(payload: unknown): IValidationResult {
+  const errors: string[] = [];
+
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: ['Payload must be an object'],
+    };
+  }
+
+  const instrument = payload as Partial<IInstrument>;
+
+  if (typeof instrument.symbol !== 'string' || instrument.symbol.trim() === '') {
+    errors.push('Symbol is required');
+  }
+  if (
+    !instrument.assetClass ||
+    !['STOCK', 'CRYPTO', 'FUTURE', 'FOREX', 'INDEX'].includes(instrument.assetClass)
+  ) {
+    errors.push('Asset class must be one of STOCK, CRYPTO, FUTURE, FOREX or INDEX');
+  }
+  (['tickSize', 'lotSize', 'multiplier'] as const).forEach(field => {
+    const value = instrument[field];
+    if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+      errors.push(`${field} must be a positive number`);
+    }
+  });
+  if (
+    instrument.quoteCurrency !== undefined &&
+    (typeof instrument.quoteCurrency !== 'string' || !/^[A-Z]{3}$/.test(instrument.quoteCurrency))
+  ) {
+    errors.push('Quote currency must be a three-letter currency code');
+  }
+  if (instrument.description !== undefined && typeof instrument.description !== 'string') {
+    errors.push('Description must be a string');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Validates notification sink configurations
+ * @param payload - The sink configurations to validate
+ * @returns Validation result
+ */
+export function validateNotificationSinks(payload: unknown): IValidationResult {
+  if (!Array.isArray(payload)) {
+    return {
+      valid: false,
+      errors: ['Notification sinks must be an array'],
+    };
+  }
+
+  const errors: string[] = [];
+  const eventTypes = [
+    'TRADE_EXECUTED',
+    'ORDER_REJECTED',
+    'RISK_REJECTED',
+    'ALERT_FAILED',
+    'RISK_HALTED',
+  ];
+  const isStringMap = (value: unknown): boolean =>
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.values(value).every(item => typeof item === 'string');
+  const names = new Set<string>();
+
+  payload.forEach((item: unknown, index) => {
+    const sink = (item && typeof item === 'object' ? item : {}) as Partial<INotificationSinkConfig>;
+    const label = typeof sink.name === 'string' && sink.name ? sink.name : `${index + 1}`;
+    const sinkErrors: string[] = [];
+
+    if (typeof sink.name !== 'string' || sink.name === '') {
+      sinkErrors.push('name must be a non-empty string');
+    } else if (names.has(sink.name)) {
+      sinkErrors.push('name must be unique');
+    } else {
+      names.add(sink.name);
+    }
+    if (!['SLACK', 'WEBHOOK', 'FILE'].includes(sink.type as string)) {
+      sinkErrors.push('type must be one of SLACK, WEBHOOK or FILE');
+    }
+    if (
+      (sink.type === 'SLACK' || sink.type === 'WEBHOOK') &&
+      (typeof sink.url !== 'string' || !/^https?:\/\/\S+$/.test(sink.url))
+    ) {
+      sinkErrors.push('url must be an http or https URL');
+    }
+    if (sink.type === 'FILE' && (typeof sink.path !== 'string' || sink.path === '')) {
+      sinkErrors.push('path must be a non-empty string');
+    }
+    if (sink.headers !== undefined && !isStringMap(sink.headers)) {
+      sinkErrors.push('headers must map header names to strings');
+    }
+    if (
+      sink.events !== undefined &&
+      (!Array.isArray(sink.events) || !sink.events.every(type => eventTypes.includes(type)))
+    ) {
+      sinkErrors.push(`events must be a list of ${eventTypes.join(', ')}`);
+    }
+    if (
+      sink.templates !== undefined &&
+      (!isStringMap(sink.templates) ||
+        !Object.keys(sink.templates).every(type => eventTypes.includes(type)))
+    ) {
+      sinkErrors.push('templates must map event types to strings');
+    }
+    if (
+      sink.maxAttempts !== undefined &&
+      (!Number.isInteger(sink.maxAttempts) || sink.maxAttempts < 1)
+    ) {
+      sinkErrors.push('maxAttempts must be a positive integer');
+    }
+    if (
+      sink.backoffMs !== undefined &&
+      (typeof sink.backoffMs !== 'number' || sink.backoffMs < 0)
+    ) {
+      sinkErrors.push('backoffMs must be a non-negative number');
+    }
+
+    errors.push(...sinkErrors.map(error => `Sink ${label}: ${error}`));
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Validates a request to pause or resume webhook execution
+ * @param payload - The pause request to validate
+ * @returns Validation result
+ */
+export function validateTradingPauseRequest(payload: unknown): IValidationResult {
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: ['Payload must be an object'],
+    };
+  }
+
+  const errors: string[] = [];
+  const request = payload as Partial<ITradingPauseRequest>;
+
+  if (!['GLOBAL', 'ACCOUNT', 'STRATEGY', 'SYMBOL'].includes(request.scope as string)) {
+    errors.push('Scope must be one of GLOBAL, ACCOUNT, STRATEGY or SYMBOL');
+  } else if (
+    request.scope !== 'GLOBAL' &&
+    (typeof request.value !== 'string' || request.value === '')
+  ) {
+    errors.push(`Value must name the paused ${String(request.scope).toLowerCase()}`);
+  }
+  if (request.reason !== undefined && typeof request.reason !== 'string') {
+    errors.push('Reason must be a string');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Validates a request to flatten open positions
+ * @param payload - The flatten request to validate
+ * @returns Validation result
+ */
+export function validateFlattenRequest(payload: unknown): IValidationResult {
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: ['Payload must be an object'],
+    };
+  }
+
+  const errors: string[] = [];
+  const request = payload as Partial<IFlattenRequest>;
+  const isPrice = (value: unknown): boolean => typeof value === 'number' && value > 0;
+
+  (['account', 'strategy', 'symbol'] as const).forEach(field => {
+    if (request[field] !== undefined && typeof request[field] !== 'string') {
+      errors.push(`${field[0].toUpperCase()}${field.slice(1)} must be a string`);
+    }
+  });
+  if (request.price !== undefined) {
+    if (!isPrice(request.price)) {
+      errors.push('Price must be a positive number');
+    }
+    if (request.symbol === undefined) {
+      errors.push('Price requires a symbol; use prices to close several symbols');
+    }
+  }
+  if (
+    request.prices !== undefined &&
+    (!request.prices ||
+      typeof request.prices !== 'object' ||
+      Array.isArray(request.prices) ||
+      !Object.values(request.prices).every(isPrice))
+  ) {
+    errors.push('Prices must map symbols to positive numbers');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Validates a manual order. Orders are checked like webhook alerts, except
+ * that the strategy and timestamp may be left out.
+ * @param payload - The order to validate
+ * @param getInstrument - Looks up the instrument whose tick and lot size prices and quantities must follow
+ * @returns Validation result
+ */
+export function validateManualOrder(
+  payload: unknown,
+  getInstrument?: (symbol: string) => IInstrument | undefined,
+): IValidationResult {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return {
+      valid: false,
+      errors: ['Payload must be an object'],
+    };
+  }
+
+  // Placeholders for the fields filled in when the order is placed
+  return validateWebhook({ strategy: 'MANUAL', timestamp: 0, ...payload }, getInstrument);
+}
+
+/**
+ * Validates a request to close all or part of a position
+ * @param payload - The close request to validate
+ * @returns Validation result
+ */
+export function validatePositionClose(payload: unknown): IValidationResult {
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: ['Payload must be an object'],
+    };
+  }
+
+  const errors: string[] = [];
+  const request = payload as Partial<Record<'price' | 'quantity', unknown>>;
+
+  if (request.price !== undefined && (typeof request.price !== 'number' || request.price <= 0)) {
+    errors.push('Price must be a positive number');
+  }
+  if (
+    request.quantity !== undefined &&
+    (typeof request.quantity !== 'number' || request.quantity <= 0)
+  ) {
+    errors.push('Quantity must be a positive number');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Validates changes to the exit levels of a position
+ * @param payload - The changes to validate
+ * @param position - Side and market price of the position, which new levels must not have passed
+ * @returns Validation result
+ */
+export function validateExitLevelChanges(
+  payload: unknown,
+  position?: { side: TPositionSide; marketPrice: number },
+): IValidationResult {
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: ['Payload must be an object'],
+    };
+  }
+
+  const errors: string[] = [];
+  const changes = payload as Record<string, unknown>;
+  const fields = ['stopLoss', 'takeProfit', 'trailingStopPercent', 'trailingStopOffset'];
+
+  if (!fields.some(field => changes[field] !== undefined)) {
+    errors.push(`Set at least one of ${fields.join(', ')}`);
+  }
+  (['stopLoss', 'takeProfit', 'trailingStopOffset'] as const).forEach(field => {
+    const value = changes[field];
+    if (value !== undefined && value !== null && (typeof value !== 'number' || value <= 0)) {
+      errors.push(`${field} must be a positive number or null`);
+    }
+  });
+  const { trailingStopPercent } = changes;
+  if (
+    trailingStopPercent !== undefined &&
+    trailingStopPercent !== null &&
+    (typeof trailingStopPercent !== 'number' ||
+      trailingStopPercent <= 0 ||
+      trailingStopPercent >= 100)
+  ) {
+    errors.push('trailingStopPercent must be a number between 0 and 100, or null');
+  }
+  if (typeof trailingStopPercent === 'number' && typeof changes.trailingStopOffset === 'number') {
+    errors.push('Use either trailingStopPercent or trailingStopOffset, not both');
+  }
+  if (position) {
+    errors.push(
+      ...validateExitLevelSides(
+        changes,
+        position.side === 'LONG',
+        position.marketPrice,
+        `the market price ${position.marketPrice} of a ${position.side} position`,
+      ),
+    );
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
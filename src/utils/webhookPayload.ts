@@ -0,0 +1,140 @@
+import { IValidationResult } from './validators';
+
+/**
+ * Result of normalizing a webhook payload, carrying the normalized payload
+ */
+export interface INormalizationResult extends IValidationResult {
+  payload: unknown;
+}
+
+// Fields that are coerced from numeric strings
+const NUMERIC_FIELDS = [
+  'price',
+  'quantity',
+  'timestamp',
+  'limitPrice',
+  'stopPrice',
+  'stopLoss',
+  'takeProfit',
+  'trailingStopPercent',
+  'trailingStopOffset',
+  'sizeValue',
+];
+
+// TradingView placeholder names read when the canonical field is missing, in order of preference
+const FIELD_ALIASES: Record<string, string[]> = {
+  symbol: ['ticker'],
+  action: ['strategy.order.action', 'strategy.market_position'],
+  price: ['strategy.order.price', 'close'],
+  quantity: ['strategy.order.contracts'],
+  timestamp: ['timenow', 'time'],
+};
+
+// TradingView action words and the webhook action they map to
+const ACTION_WORDS: Record<string, string> = {
+  buy: 'BUY',
+  long: 'BUY',
+  sell: 'SELL',
+  short: 'SELL',
+  exit: 'EXIT',
+  flat: 'EXIT',
+};
+
+const PLACEHOLDER_PATTERN = /\{\{[^}]*\}\}/;
+
+/**
+ * Parses a plaintext alert body. JSON text is parsed as JSON, other text as
+ * one `key=value` pair per line. Bodies that are already objects, and text
+ * in neither format, are returned unchanged.
+ * @param body - The request body
+ * @returns The parsed body
+ */
+export function parseAlertBody(body: unknown): unknown {
+  if (typeof body !== 'string') {
+    return body;
+  }
+
+  const text = body.trim();
+  if (text.startsWith('{')) {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return body;
+    }
+  }
+
+  const fields: Record<string, string> = {};
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  for (const line of lines) {
+    const separator = line.indexOf('=');
+    if (separator <= 0) {
+      return body;
+    }
+    fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return fields;
+}
+
+/**
+ * Normalizes a TradingView alert into the webhook payload shape: parses
+ * plaintext bodies, fills fields from TradingView placeholder names, maps
+ * action words and coerces numeric strings. Alerts with unreplaced
+ * `{{...}}` placeholders are rejected.
+ * @param body - The request body
+ * @returns Normalization result with the normalized payload
+ */
+export function normalizeWebhookPayload(body: unknown): INormalizationResult {
+  const parsed = parseAlertBody(body);
+
+  if (typeof parsed === 'string') {
+    return {
+      valid: false,
+      payload: parsed,
+      errors: [
+        parsed.trim().startsWith('{')
+          ? 'Payload is not valid JSON'
+          : 'Payload must be JSON or key=value lines',
+      ],
+    };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { valid: true, payload: parsed };
+  }
+
+  const payload: Record<string, unknown> = { ...(parsed as Record<string, unknown>) };
+
+  const errors = Object.entries(payload).flatMap(([key, value]) => {
+    const placeholder = typeof value === 'string' ? PLACEHOLDER_PATTERN.exec(value) : null;
+    return placeholder ? [`${key} contains an unreplaced placeholder ${placeholder[0]}`] : [];
+  });
+  if (errors.length > 0) {
+    return { valid: false, payload, errors };
+  }
+
+  Object.entries(FIELD_ALIASES).forEach(([field, aliases]) => {
+    const alias = aliases.find(name => payload[name] !== undefined);
+    if (payload[field] === undefined && alias) {
+      payload[field] = payload[alias];
+    }
+    aliases.forEach(name => delete payload[name]);
+  });
+
+  if (typeof payload.action === 'string') {
+    payload.action = ACTION_WORDS[payload.action.trim().toLowerCase()] ?? payload.action;
+  }
+
+  NUMERIC_FIELDS.forEach(field => {
+    const value = payload[field];
+    if (typeof value === 'string' && value.trim() !== '') {
+      const numeric = Number(value);
+      if (Number.isFinite(numeric)) {
+        payload[field] = numeric;
+      } else if (field === 'timestamp' && !Number.isNaN(Date.parse(value))) {
+        // {{timenow}} is an ISO 8601 date
+        payload[field] = Date.parse(value);
+      }
+    }
+  });
+
+  return { valid: true, payload };
+}